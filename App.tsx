@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppStep, GenerationState } from './types.ts';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppStep, GenerationState, SceneBusyField, SceneFrame } from './types.ts';
 import { 
   generateCombinedImage,
   generateRefinementVariations,
@@ -8,12 +8,59 @@ import {
   generateStoryboardGrid, 
   extractCell,
   generateSceneVideo,
+  resumePendingVideos,
   upscaleScene,
   repairImage,
   editSceneImage,
   regenerateSceneFromReference, // Import the new function
   validateApiKey 
 } from './services/geminiService.ts';
+import { getBackend, switchBackend } from './services/providers/index.ts';
+import {
+  AuthError,
+  BudgetExceededError,
+  CancelledError,
+  EmptyResponseError,
+  GenerationError,
+  NetworkError,
+  QuotaError,
+  RateLimitError,
+  SafetyBlockedError,
+  toGenerationError
+} from './services/errors.ts';
+import { getQueueSnapshot, QueueSnapshot, subscribeQueue } from './services/jobQueue.ts';
+import { spentOnProject } from './services/usage.ts';
+import { UsagePanel, useUsageLedger } from './components/UsagePanel.tsx';
+import { SettingsPanel, SettingsTab } from './components/SettingsPanel.tsx';
+import { cellCount, DEFAULT_GRID_LAYOUT, getGridLayout, GRID_LAYOUTS, gridAspectRatio, GridLayoutId } from './services/gridLayout.ts';
+import { ASPECT_RATIOS, cssAspectRatio, DEFAULT_ASPECT_RATIO, getAspectRatio, TargetAspectRatio } from './services/aspectRatio.ts';
+import { detectGridCuts, evenGridCuts } from './services/gridSlicer.ts';
+import { GridCutEditor } from './components/GridCutEditor.tsx';
+import { RecoveredVideo, RecoveredVideos } from './components/RecoveredVideos.tsx';
+import { AdAssembler } from './components/AdAssembler.tsx';
+import { SceneCaptions } from './components/SceneCaptions.tsx';
+import { ProjectExportPanel } from './components/ProjectExportPanel.tsx';
+import { DEFAULT_CAPTION_STYLE } from './services/captions.ts';
+import { deleteSceneVideo, PendingVideoJob } from './services/videoStore.ts';
+import { detectCategory, getCategory, listCategories, ProductCategory, resolveCategory, subscribeCategories } from './services/categories.ts';
+import { openProjectFile, PROJECT_FILE_EXTENSION, ProjectSnapshot, saveProjectFile } from './services/projectFile.ts';
+import { autosaveProject, forgetLastSession, getLastSessionId, listRecentProjects, loadSavedProject, ProjectSummary } from './services/projectStore.ts';
+import { RecentProjects } from './components/RecentProjects.tsx';
+import { addSceneVersion, pinSceneVersion, SCENE_OPERATIONS, undoTarget } from './services/sceneHistory.ts';
+import { CompareImage, CompareViewer, SplitCompare } from './components/CompareViewer.tsx';
+import { batchBranding, BatchItem, BatchSettings, batchStyle } from './services/batch.ts';
+import { BatchPanel } from './components/BatchPanel.tsx';
+import { BACKGROUND_PRESETS, FONT_OPTIONS, PLACEMENT_OPTIONS } from './services/stylePresets.ts';
+import { primaryPhoto, projectIdentity, selectReferences } from './services/personas.ts';
+import { primaryProductPhoto, productSet } from './services/productRefs.ts';
+import { brandSettings } from './services/brandKits.ts';
+import { PersonaLibrary } from './components/PersonaLibrary.tsx';
+import { ProductReferences } from './components/ProductReferences.tsx';
+import { BrandKitLibrary } from './components/BrandKitLibrary.tsx';
+import { SceneHistory } from './components/SceneHistory.tsx';
+import { formatPromptRef } from './services/promptTemplates.ts';
+
+const backend = getBackend();
 
 // --- COMPONENTS ---
 
@@ -73,7 +120,7 @@ const SciFiProgressBar: React.FC<{ progress: number }> = ({ progress }) => {
 };
 
 // --- NEW LOADING SCREEN COMPONENT ---
-const LoadingScreen: React.FC<{ message: string }> = ({ message }) => {
+const LoadingScreen: React.FC<{ message: string; onCancel?: () => void }> = ({ message, onCancel }) => {
   const [progress, setProgress] = useState(0);
 
   useEffect(() => {
@@ -109,15 +156,123 @@ const LoadingScreen: React.FC<{ message: string }> = ({ message }) => {
                 </div>
                 
                 <div className="flex justify-between text-[8px] font-mono text-zinc-600 uppercase tracking-widest opacity-60">
-                    <span>Model: Gemini-3-Pro</span>
+                    <span>Model: {backend.image.modelName}</span>
                     <span>Task: High-Fidelity Gen</span>
                 </div>
+
+                {onCancel && (
+                    <button 
+                        onClick={onCancel}
+                        className="px-8 py-3 border border-white/10 hover:border-red-500/50 hover:bg-red-600/10 rounded-full text-[10px] font-black uppercase tracking-[0.2em] text-zinc-400 hover:text-red-400 transition-colors"
+                    >
+                        <i className="fa-solid fa-xmark mr-2"></i>
+                        Cancel
+                    </button>
+                )}
             </div>
         </div>
     </div>
   );
 };
 
+// --- JOB QUEUE INDICATOR ---
+const QueueIndicator: React.FC<{ snapshot: QueueSnapshot }> = ({ snapshot }) => {
+  if (snapshot.waiting + snapshot.running === 0) return null;
+  const throttled = snapshot.lanes.some(l => l.pausedUntil);
+  const breakdown = snapshot.lanes
+    .filter(l => l.waiting + l.running > 0)
+    .map(l => `${l.model}: ${l.running} running, ${l.waiting} waiting${l.pausedUntil ? ' (throttled)' : ''}`)
+    .join('\n');
+
+  return (
+    <div 
+      className={`border rounded-full px-4 py-2 flex items-center gap-2 animate-in ${throttled ? 'bg-amber-950/20 border-amber-700/40' : 'bg-blue-950/20 border-blue-900/40'}`}
+      title={breakdown}
+    >
+      <div className={`w-1.5 h-1.5 rounded-full animate-pulse ${throttled ? 'bg-amber-400' : 'bg-blue-400'}`}></div>
+      <span className={`text-[9px] font-bold uppercase tracking-widest ${throttled ? 'text-amber-400' : 'text-blue-400'}`}>
+        {snapshot.running} running · {snapshot.waiting} waiting{throttled ? ' · throttled' : ''}
+      </span>
+    </div>
+  );
+};
+
+// --- ERROR NOTICE (replaces alert popups) ---
+interface ErrorNotice {
+  title: string;
+  message: string;
+  detail?: string;
+  action?: 'reauth' | 'billing' | 'usage';
+}
+
+const describeError = (error: GenerationError): ErrorNotice => {
+  if (error instanceof AuthError) {
+    if (error.reason === 'missing') {
+      return { title: 'API Key Required', message: 'No Gemini API key is connected. Connect a key to start generating.', action: 'reauth' };
+    }
+    if (error.reason === 'invalid') {
+      return { title: 'API Key Rejected', message: 'Google rejected this API key. It may be mistyped, revoked or expired. Enter a valid key to continue.', action: 'reauth' };
+    }
+    return {
+      title: 'Access Denied',
+      message: 'This key is not allowed to use Gemini 3 Pro Image / Veo 3.1. Enable the APIs and billing on its Google Cloud project, or connect another key.',
+      detail: error.message,
+      action: 'reauth'
+    };
+  }
+  if (error instanceof QuotaError) {
+    return {
+      title: 'Quota Warning',
+      message: 'YOUR API QUOTA IS ZERO. Please upgrade your Google Cloud Project to a PAID plan and enable billing for Gemini 3 Pro & Veo 3.1.',
+      action: 'billing'
+    };
+  }
+  if (error instanceof RateLimitError) {
+    const wait = error.retryAfterMs ? `Wait about ${Math.ceil(error.retryAfterMs / 1000)}s` : 'Wait a minute';
+    return { title: 'Rate Limited', message: `Too many requests in a short time. ${wait}, then try again with fewer parallel jobs.` };
+  }
+  if (error instanceof SafetyBlockedError) {
+    const parts = [];
+    if (error.finishReason) parts.push(`Reason: ${error.finishReason}`);
+    if (error.blockedCategories.length) parts.push(`Categories: ${error.blockedCategories.join(', ')}`);
+    return {
+      title: 'Blocked By Safety Filter',
+      message: 'The model refused this request. Rephrase the instruction, avoid sensitive wording, or use a different reference image.',
+      detail: parts.join(' · ') || error.message
+    };
+  }
+  if (error instanceof BudgetExceededError) {
+    return {
+      title: 'Budget Reached',
+      message: `This job would exceed the ${error.scope === 'daily' ? 'daily' : 'project'} spending cap. Raise the cap in the usage panel or wait ${error.scope === 'daily' ? 'until tomorrow' : 'for a new project'}.`,
+      detail: error.message,
+      action: 'usage'
+    };
+  }
+  if (error instanceof EmptyResponseError) {
+    return { title: 'Nothing Returned', message: 'The model finished without producing output. Try again; small prompt changes often help.', detail: error.message };
+  }
+  if (error instanceof NetworkError) {
+    return { title: 'Connection Problem', message: 'The request could not reach Google or the download was interrupted. Check your connection and try again.', detail: error.message };
+  }
+  if (error.code === 'EXTRACTION') {
+    return { title: 'Slicing Failed', message: error.message };
+  }
+  if (error.code === 'ASSEMBLY') {
+    return { title: 'Export Failed', message: error.message };
+  }
+  if (error.code === 'EXPORT') {
+    return { title: 'ZIP Export Failed', message: error.message };
+  }
+  if (error.code === 'PROJECT') {
+    return { title: 'Project File Error', message: error.message };
+  }
+  if (error.code === 'CATALOG') {
+    return { title: 'Catalog Import Failed', message: error.message };
+  }
+  return { title: 'Service Error', message: 'The generation service returned an error. Try again in a moment.', detail: error.message };
+};
+
 // Categorized prompts for better accuracy
 const CATEGORIZED_PROMPTS = {
   "Fashion Wearables": [
@@ -158,48 +313,87 @@ const CATEGORIZED_PROMPTS = {
   ]
 };
 
-// --- NEW CONSTANTS FOR CREATIVE DIRECTION ---
-const BACKGROUND_PRESETS = [
-  "High-end Minimalist Studio",
-  "Urban City Bokeh",
-  "Luxury Interior",
-  "Soft Natural Light",
-  "Cyberpunk Neon",
-  "Abstract Gradient",
-  "Beige / Warm Tones",
-  "Nature / Outdoor Garden"
-];
-
-const FONT_OPTIONS = [
-  "Modern Sans",
-  "Elegant Serif",
-  "Bold Graffiti",
-  "Neon Script",
-  "Futuristic Mono",
-  "Vintage Typewriter",
-  "Handwritten Signature",
-  "3D Chrome",
-  "Gothic Bold",
-  "Minimalist Thin"
+// Framing of each storyboard row, top to bottom
+const ROW_FRAMING = [
+  "Close-up product detail shot, macro photography, sharp focus",
+  "Medium shot, product interaction, holding or using the product naturally",
+  "Lifestyle context shot, cinematic environment, product in scene"
 ];
 
-const PLACEMENT_OPTIONS = [
-  "Behind Subject",
-  "Floating Above",
-  "Integrated Neon Sign",
-  "Overlay Bottom",
-  "Vertical Side",
-  "Floor Reflection",
-  "Halo Effect",
-  "Wrapped Around Subject",
-  "Magazine Header"
-];
+const DEFAULT_SCENE_PROMPT = "Subtle cinematic motion, elegant model moves naturally.";
+const DEFAULT_REPAIR_PROMPT = "Fix any glitches and enhance facial details.";
+const AUTOSAVE_DELAY_MS = 1500;
+
+type SceneUpdate = Partial<SceneFrame> | ((scene: SceneFrame) => Partial<SceneFrame>);
+
+const createScene = (id: number): SceneFrame => ({
+  id,
+  image: null,
+  videoUrl: null,
+  isExtracting: false,
+  isGeneratingVideo: false,
+  isUpscaling: false,
+  isEditing: false,
+  videoProgress: 0,
+  bgMusicPrompt: '',
+  dialoguePrompt: '',
+  jsonMode: false,
+  jsonPrompt: `{\n  "motion": "Cinematic pan",\n  "music": "Lo-fi beat",\n  "dialogue": "..."\n}`,
+  isVideoMuted: true,
+  videoDuration: '00:00'
+});
+
+const createInitialState = (): GenerationState => ({
+  projectId: crypto.randomUUID(),
+  projectName: 'Untitled Project',
+  modelImage: null,
+  persona: null,
+  productImage: null,
+  productRefs: [],
+  promptInstruction: '',
+  categoryOverride: null,
+  combinedImage: null,
+  combinedCandidates: null,
+  combinedPrompt: null,
+  brandingText: '', // Changed from 'LUXE' to empty string
+  stylePrompt: 'High-end minimalist studio with soft moody lighting',
+  fontStyle: 'Modern Sans',
+  textPlacement: 'Behind Subject',
+  brandKit: null,
+  storyboardGrid: null,
+  storyboardPrompt: null,
+  gridCuts: null,
+  gridLayout: DEFAULT_GRID_LAYOUT,
+  aspectRatio: DEFAULT_ASPECT_RATIO,
+  timeline: [],
+  audioTracks: [],
+  captionStyle: DEFAULT_CAPTION_STYLE,
+  scenes: Array.from({ length: cellCount(getGridLayout(DEFAULT_GRID_LAYOUT)) }, (_, i) => createScene(i)),
+  editPrompts: Array(cellCount(getGridLayout(DEFAULT_GRID_LAYOUT))).fill(""),
+  extractionProgress: 0,
+});
+
+// Keeps per-scene arrays in step with the layout's shot count, preserving what fits.
+const resizeTo = <T,>(items: T[], length: number, fill: T): T[] =>
+  Array.from({ length }, (_, i) => i < items.length ? items[i] : fill);
 
 const App: React.FC = () => {
   const [step, setStep] = useState<AppStep>(AppStep.UPLOAD);
   const [showKeyModal, setShowKeyModal] = useState<boolean>(true); // Default true to force check
   const [loadingMsg, setLoadingMsg] = useState('');
-  const [quotaError, setQuotaError] = useState<string | null>(null);
+  const [errorNotice, setErrorNotice] = useState<ErrorNotice | null>(null);
+  const [queueSnapshot, setQueueSnapshot] = useState<QueueSnapshot>(getQueueSnapshot());
+  const [showUsage, setShowUsage] = useState(false);
+  const [showSettings, setShowSettings] = useState<SettingsTab | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showBatch, setShowBatch] = useState(false);
+  const [categories, setCategories] = useState<ProductCategory[]>(listCategories());
+  const [forceFresh, setForceFresh] = useState(false);
+  const [recoveredVideos, setRecoveredVideos] = useState<RecoveredVideo[]>([]);
+  const [restoreOffer, setRestoreOffer] = useState<ProjectSummary | null>(null);
+  const [autosave, setAutosave] = useState<{ ok: boolean; at: number } | null>(null);
+  const [inlineCompare, setInlineCompare] = useState<number | null>(null);
+  const [compareScene, setCompareScene] = useState<number | null>(null);
   const [useCustomKey, setUseCustomKey] = useState<boolean>(false);
   
   // State for the BYOK Input in the modal
@@ -207,41 +401,36 @@ const App: React.FC = () => {
   const [isValidatingKey, setIsValidatingKey] = useState(false);
   const [keyError, setKeyError] = useState('');
   
-  const [state, setState] = useState<GenerationState>({
-    modelImage: null,
-    productImage: null,
-    promptInstruction: '',
-    combinedImage: null,
-    combinedCandidates: null,
-    brandingText: '', // Changed from 'LUXE' to empty string
-    stylePrompt: 'High-end minimalist studio with soft moody lighting',
-    fontStyle: 'Modern Sans',
-    textPlacement: 'Behind Subject',
-    storyboardGrid: null,
-    scenes: Array.from({ length: 9 }, (_, i) => ({
-      id: i,
-      image: null,
-      videoUrl: null,
-      isExtracting: false,
-      isGeneratingVideo: false,
-      isUpscaling: false,
-      isEditing: false,
-      videoProgress: 0,
-      bgMusicPrompt: '',
-      dialoguePrompt: '',
-      jsonMode: false,
-      jsonPrompt: `{\n  "motion": "Cinematic pan",\n  "music": "Lo-fi beat",\n  "dialogue": "..."\n}`,
-      isVideoMuted: true,
-      videoDuration: '00:00'
-    })),
-    editPrompts: Array(9).fill(""),
-    extractionProgress: 0,
-  });
-
-  const [scenePrompts, setScenePrompts] = useState<string[]>(Array(9).fill("Subtle cinematic motion, elegant model moves naturally."));
-  const [repairPrompts, setRepairPrompts] = useState<string[]>(Array(9).fill("Fix any glitches and enhance facial details."));
+  const [state, setState] = useState<GenerationState>(createInitialState);
+
+  const [scenePrompts, setScenePrompts] = useState<string[]>(Array(cellCount(getGridLayout(DEFAULT_GRID_LAYOUT))).fill(DEFAULT_SCENE_PROMPT));
+  const [repairPrompts, setRepairPrompts] = useState<string[]>(Array(cellCount(getGridLayout(DEFAULT_GRID_LAYOUT))).fill(DEFAULT_REPAIR_PROMPT));
+
+  const layout = getGridLayout(state.gridLayout);
+  const shotCount = cellCount(layout);
+  const format = getAspectRatio(state.aspectRatio);
+  const previewAspect = { aspectRatio: cssAspectRatio(format.id) };
+  const cutsDetected = state.gridCuts?.detected;
+  const cutStatus = cutsDetected?.columns && cutsDetected.rows ? 'detected'
+    : cutsDetected?.columns ? 'column'
+    : cutsDetected?.rows ? 'row'
+    : 'even';
+
+  // Category shown on REFINE and used for the grid's shot list
+  const categoryText = `${state.promptInstruction} ${state.brandingText || ""}`;
+  const detectedCategory = detectCategory(categoryText);
+  const activeCategory = resolveCategory(categoryText, state.categoryOverride);
+
+  const usageRecords = useUsageLedger();
+  const projectSpend = spentOnProject(state.projectId, usageRecords);
 
   const checkKeys = async () => {
+    // Offline backends never talk to Google, nothing to check
+    if (!backend.requiresApiKey) {
+       setShowKeyModal(false);
+       return;
+    }
+
     // Check local BYOK first
     const localKey = localStorage.getItem('USER_GEMINI_API_KEY');
     
@@ -269,6 +458,45 @@ const App: React.FC = () => {
     checkKeys();
   }, []);
 
+  useEffect(() => subscribeQueue(setQueueSnapshot), []);
+
+  // --- RESUMED VIDEO RENDERS ---
+  // Veo jobs left running by a closed tab are picked up once a key is available.
+  // The handlers outlive this render, so the open project is read from a ref.
+  const resumeStartedRef = useRef(false);
+  const projectIdRef = useRef(state.projectId);
+  projectIdRef.current = state.projectId;
+
+  useEffect(() => {
+    if (showKeyModal || resumeStartedRef.current) return;
+    resumeStartedRef.current = true;
+    const isOpenProject = (job: PendingVideoJob) => job.projectId === projectIdRef.current;
+    const patchRecovered = (job: PendingVideoJob, patch: Partial<RecoveredVideo>) =>
+      setRecoveredVideos(prev => prev.map(v => v.job.key === job.key ? { ...v, ...patch } : v));
+
+    void resumePendingVideos({
+      onResuming: (jobs) => {
+        jobs.filter(isOpenProject).forEach(job => patchScene(job.sceneId, { isGeneratingVideo: true, videoProgress: 0 }));
+        setRecoveredVideos(jobs.filter(job => !isOpenProject(job)).map(job => ({ job, status: 'rendering', progress: 0 })));
+      },
+      onProgress: (job, progress) => isOpenProject(job)
+        ? patchScene(job.sceneId, { videoProgress: progress })
+        : patchRecovered(job, { progress }),
+      onFinished: (job, video) => isOpenProject(job)
+        ? patchScene(job.sceneId, { videoUrl: video.url, videoPrompt: video.prompt, videoProgress: 100, isGeneratingVideo: false })
+        : patchRecovered(job, { status: 'ready', progress: 100, url: video.url }),
+      onFailed: (job, error, willRetry) => {
+        if (isOpenProject(job)) {
+          patchScene(job.sceneId, { isGeneratingVideo: false, videoProgress: 0 });
+          if (!willRetry) handleError(error);
+        } else {
+          patchRecovered(job, { status: willRetry ? 'waiting' : 'failed', error: error.message });
+        }
+      }
+    });
+  }, [showKeyModal]);
+  useEffect(() => subscribeCategories(() => setCategories(listCategories())), []);
+
   const handleSaveCustomKey = async () => {
     setKeyError('');
     if (tempApiKey.trim().length < 10) {
@@ -303,12 +531,107 @@ const App: React.FC = () => {
     if (file) {
       const reader = new FileReader();
       reader.onload = (ev) => {
-        setState(prev => ({ ...prev, [type === 'model' ? 'modelImage' : 'productImage']: ev.target?.result as string }));
+        // A plain model upload replaces the persona, a plain product upload the reference set
+        setState(prev => type === 'model'
+          ? { ...prev, modelImage: ev.target?.result as string, persona: null }
+          : { ...prev, productImage: ev.target?.result as string, productRefs: [] });
       };
       reader.readAsDataURL(file);
     }
   };
 
+  // --- CANCELLABLE JOBS ---
+  // Full-screen jobs (refine, branding, grid) share one controller; scene jobs get
+  // one per scene + busy flag so e.g. an upscale and a video can run side by side.
+  const blockingJobRef = useRef<AbortController | null>(null);
+  const sceneJobsRef = useRef<Map<string, AbortController>>(new Map());
+
+  // Every service call is metered against the current project. Explicit
+  // re-rolls (regenerate, repair, edit) pass `fresh`: the cache is only for
+  // implicit repeats, e.g. stepping back and forth between steps.
+  const jobOptions = (signal: AbortSignal, fresh = false) => ({ signal, forceFresh: forceFresh || fresh, aspectRatio: state.aspectRatio, project: { id: state.projectId, name: state.projectName } });
+
+  // Spread the three row framings over however many rows the layout has
+  const shotFraming = (idx: number) =>
+    ROW_FRAMING[layout.rows === 1 ? 0 : Math.round(Math.floor(idx / layout.cols) * 2 / (layout.rows - 1))];
+
+  // Persona photos that fit the shot (close-up, profile, full body...), or the single model upload
+  const identity = projectIdentity(state.modelImage, state.persona);
+  const sceneIdentity = (idx: number, instruction: string) => selectReferences(identity, `${shotFraming(idx)} ${instruction}`);
+
+  // A function patch sees the latest scene, e.g. to append to its history.
+  const patchScene = (idx: number, patch: SceneUpdate) => {
+    setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, ...(typeof patch === 'function' ? patch(s) : patch) } : s) }));
+  };
+
+  const runBlockingJob = async (message: string, task: (signal: AbortSignal) => Promise<void>) => {
+    blockingJobRef.current?.abort();
+    const controller = new AbortController();
+    blockingJobRef.current = controller;
+    setLoadingMsg(message);
+    setErrorNotice(null);
+    try {
+      await task(controller.signal);
+    } catch (e) {
+      handleError(e);
+    } finally {
+      // A cancelled job must not clear the overlay of a job started after it
+      if (blockingJobRef.current === controller) {
+        blockingJobRef.current = null;
+        setLoadingMsg("");
+      }
+    }
+  };
+
+  const cancelBlockingJob = () => {
+    blockingJobRef.current?.abort();
+    blockingJobRef.current = null;
+    setLoadingMsg("");
+  };
+
+  const runSceneJob = async (
+    idx: number,
+    busyField: SceneBusyField,
+    task: (signal: AbortSignal) => Promise<SceneUpdate>,
+    resetOnFailure: Partial<SceneFrame> = {}
+  ) => {
+    const key = `${idx}:${busyField}`;
+    sceneJobsRef.current.get(key)?.abort();
+    const controller = new AbortController();
+    sceneJobsRef.current.set(key, controller);
+    patchScene(idx, { [busyField]: true });
+    try {
+      const result = await task(controller.signal);
+      patchScene(idx, scene => ({ ...(typeof result === 'function' ? result(scene) : result), [busyField]: false }));
+    } catch (e) {
+      handleError(e);
+      if (sceneJobsRef.current.get(key) === controller) patchScene(idx, { ...resetOnFailure, [busyField]: false });
+    } finally {
+      if (sceneJobsRef.current.get(key) === controller) sceneJobsRef.current.delete(key);
+    }
+  };
+
+  // Stops the given jobs on one scene and releases its busy flags immediately.
+  const cancelSceneJobs = (idx: number, fields: SceneBusyField[]) => {
+    const patch: Partial<SceneFrame> = {};
+    fields.forEach(field => {
+      const key = `${idx}:${field}`;
+      const controller = sceneJobsRef.current.get(key);
+      if (!controller) return;
+      controller.abort();
+      sceneJobsRef.current.delete(key);
+      patch[field] = false;
+      if (field === 'isGeneratingVideo') patch.videoProgress = 0;
+    });
+    patchScene(idx, patch);
+  };
+
+  // Abort everything still running when the app unmounts
+  useEffect(() => () => {
+    blockingJobRef.current?.abort();
+    sceneJobsRef.current.forEach(controller => controller.abort());
+  }, []);
+
   // --- NEW: Handle Upload for Reference Regeneration ---
   const handleSceneReferenceUpload = (e: React.ChangeEvent<HTMLInputElement>, idx: number) => {
     const file = e.target.files?.[0];
@@ -320,45 +643,31 @@ const App: React.FC = () => {
       if (!base64) return;
 
       // Trigger regeneration - show loading state on the scene
-      setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, isEditing: true } : s) }));
-      
-      try {
+      await runSceneJob(idx, 'isEditing', async (signal) => {
         // Determine intelligent prompt based on row position to maintain storyboard flow
-        const row = Math.floor(idx / 3);
-        const defaultPrompts = [
-            "Close-up product detail shot, macro photography, sharp focus",
-            "Medium shot, product interaction, holding or using the product naturally",
-            "Lifestyle context shot, cinematic environment, product in scene"
-        ];
         const userPrompt = state.editPrompts[idx] || state.promptInstruction || "";
-        const finalPrompt = `${defaultPrompts[row]}. ${userPrompt}`;
+        const finalPrompt = `${shotFraming(idx)}. ${userPrompt}`;
 
-        const newImage = await regenerateSceneFromReference(base64, finalPrompt, state.stylePrompt);
-        
-        setState(prev => ({ 
-            ...prev, 
-            scenes: prev.scenes.map(s => s.id === idx ? { ...s, image: newImage, isEditing: false } : s) 
-        }));
-      } catch (error) {
-        handleError(error);
-        setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, isEditing: false } : s) }));
-      }
+        const result = await regenerateSceneFromReference(base64, finalPrompt, state.stylePrompt, productSet(state.productImage, state.productRefs), jobOptions(signal, true));
+        return (scene: SceneFrame) => addSceneVersion(scene, { image: result.image, operation: 'reference', prompt: result.prompt, instruction: userPrompt || undefined });
+      });
     };
     reader.readAsDataURL(file);
     // Reset value so same file can be selected again if needed
     e.target.value = '';
   };
 
-  const handleError = (e: any) => {
+  const handleError = (e: unknown) => {
     console.error(e);
-    if (e.message === "QUOTA_LIMIT_ZERO") {
-      setQuotaError("YOUR API QUOTA IS ZERO. Please upgrade your Google Cloud Project to a PAID plan and enable billing for Gemini 3 Pro & Veo 3.1.");
-    } else if (e.message === "API_KEY_INVALID") {
-      alert("API Key is invalid or expired. Please re-authenticate.");
+    const error = toGenerationError(e);
+    if (error instanceof CancelledError) return;
+
+    setErrorNotice(describeError(error));
+    // A dead key can't recover on retry: drop it and ask for a new one
+    if (error instanceof AuthError && error.reason !== 'permission' && backend.requiresApiKey) {
       localStorage.removeItem('USER_GEMINI_API_KEY');
+      setUseCustomKey(false);
       setShowKeyModal(true);
-    } else {
-      alert("Error occurred: " + (e.message || "Unknown error"));
     }
   };
 
@@ -371,134 +680,321 @@ const App: React.FC = () => {
     document.body.removeChild(link);
   };
 
-  const onRefineClick = async () => {
+  const onRefineClick = async (regenerate = false) => {
     if (!state.modelImage || !state.productImage) return;
-    setLoadingMsg("GENERATING 3 REFINEMENT VARIATIONS...");
-    setQuotaError(null);
-    try {
+    await runBlockingJob("GENERATING 3 REFINEMENT VARIATIONS...", async (signal) => {
       const res = await generateRefinementVariations(
-        state.modelImage, 
-        state.productImage,
-        state.promptInstruction
+        state.modelImage!, 
+        productSet(state.productImage, state.productRefs),
+        state.promptInstruction,
+        selectReferences(identity, state.promptInstruction),
+        jobOptions(signal, regenerate)
       );
       setState(prev => ({ 
         ...prev, 
-        combinedCandidates: res,
-        combinedImage: res[0]
+        combinedCandidates: res.map(r => r.image),
+        combinedImage: res[0].image,
+        combinedPrompt: res[0].prompt
       }));
       setStep(AppStep.REFINE);
-    } catch (e: any) { 
-      handleError(e);
-    }
-    setLoadingMsg("");
+    });
   };
 
   const onApplyBrandingClick = async () => {
     if (!state.combinedImage) return;
-    setLoadingMsg("GENERATING 3 BRANDING VARIATIONS...");
-    setQuotaError(null);
-    try {
+    await runBlockingJob("GENERATING 3 BRANDING VARIATIONS...", async (signal) => {
       const res = await generateBrandingVariations(
-        state.combinedImage,
+        state.combinedImage!,
         state.brandingText, // Removed 'LUXE' fallback to allow empty text
         state.stylePrompt || "Cinematic",
         state.fontStyle || "Modern Sans",
-        state.textPlacement || "Behind Subject"
+        state.textPlacement || "Behind Subject",
+        state.brandKit,
+        jobOptions(signal)
       );
       setState(prev => ({ 
         ...prev, 
-        combinedImage: res[0],
-        combinedCandidates: res 
+        combinedImage: res[0].image,
+        combinedCandidates: res.map(r => r.image),
+        combinedPrompt: res[0].prompt
       }));
-    } catch (e: any) { 
-      handleError(e);
-    }
-    setLoadingMsg("");
+    });
   };
 
-  const onGridClick = async () => {
+  const onGridClick = async (regenerate = false) => {
     if (!state.combinedImage) return;
-    setLoadingMsg("GENERATING PRODUCTION GRID...");
-    setQuotaError(null);
-    try {
+    await runBlockingJob("GENERATING PRODUCTION GRID...", async (signal) => {
       const res = await generateStoryboardGrid(
-        state.combinedImage, 
+        state.combinedImage!, 
         state.brandingText, // Removed 'LUXE' fallback to allow empty text
         state.stylePrompt || "Cinematic",
-        state.promptInstruction // Added argument for context awareness
+        state.promptInstruction, // Added argument for context awareness
+        activeCategory,
+        layout,
+        productSet(state.productImage, state.productRefs),
+        state.brandKit,
+        jobOptions(signal, regenerate)
       );
-      setState(prev => ({ ...prev, storyboardGrid: res }));
+      const cuts = await detectGridCuts(res.image, layout);
+      setState(prev => ({ ...prev, storyboardGrid: res.image, storyboardPrompt: res.prompt, gridCuts: cuts }));
       setStep(AppStep.STORYBOARD);
-    } catch (e: any) { 
-      handleError(e);
-    }
-    setLoadingMsg("");
+    });
   };
   
   const onRegenerateGrid = async () => {
-      onGridClick(); // Reuse the existing grid generation logic
+      onGridClick(true); // Reuse the existing grid generation logic
   };
 
   const onFinalRenderClick = async () => {
     if (!state.storyboardGrid) return;
     setStep(AppStep.RESULTS);
-    setQuotaError(null);
-    for (let i = 0; i < 9; i++) {
+    setErrorNotice(null);
+    const cuts = state.gridCuts ?? evenGridCuts(layout);
+    for (let i = 0; i < shotCount; i++) {
       setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === i ? { ...s, isExtracting: true } : s) }));
       
       // Artificial delay for UI smoothness since cropping is now instant
       await new Promise(r => setTimeout(r, 300));
 
       try {
-        // Pass modelImage (reference face) to extraction
-        const img = await extractCell(state.storyboardGrid!, i, state.modelImage || undefined);
+        const img = await extractCell(state.storyboardGrid!, i, cuts, state.aspectRatio);
         setState(prev => ({
           ...prev,
-          scenes: prev.scenes.map(s => s.id === i ? { ...s, image: img, isExtracting: false } : s),
-          extractionProgress: Math.round(((i + 1) / 9) * 100)
+          scenes: prev.scenes.map(s => s.id === i ? { ...s, ...addSceneVersion(s, { image: img, operation: 'extract', prompt: prev.storyboardPrompt }), isExtracting: false } : s),
+          extractionProgress: Math.round(((i + 1) / shotCount) * 100)
         }));
       } catch (e: any) { 
         console.error("Extraction failed for index " + i, e);
-        if (e.message === "QUOTA_LIMIT_ZERO") {
-          setQuotaError("Quota Limit Reached during extraction. Some scenes might not load.");
-          break;
-        }
+        setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === i ? { ...s, isExtracting: false } : s) }));
+        setErrorNotice(describeError(toGenerationError(e)));
       }
     }
   };
 
-  const onUpscale = async (idx: number, size: '2K' | '4K') => {
-    setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, isUpscaling: true } : s) }));
+  const hasStoryboardWork = !!state.storyboardGrid || state.scenes.some(s => s.image);
+
+  // Drops the grid and its scenes (running scene jobs included) while applying `patch`.
+  const resetStoryboard = (patch: Partial<GenerationState>, gridLayout: GridLayoutId = state.gridLayout) => {
+    const count = cellCount(getGridLayout(gridLayout));
+    [...sceneJobsRef.current.values()].forEach(controller => controller.abort());
+    sceneJobsRef.current.clear();
+    setState(prev => ({
+      ...prev,
+      ...patch,
+      gridLayout,
+      storyboardGrid: null,
+      storyboardPrompt: null,
+      gridCuts: null,
+      scenes: Array.from({ length: count }, (_, i) => createScene(i)),
+      timeline: [],
+      editPrompts: resizeTo(prev.editPrompts, count, ""),
+      extractionProgress: 0
+    }));
+    setScenePrompts(prev => resizeTo(prev, count, DEFAULT_SCENE_PROMPT));
+    setRepairPrompts(prev => resizeTo(prev, count, DEFAULT_REPAIR_PROMPT));
+  };
+
+  // --- PROJECT FILES ---
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  const projectSnapshot = (): ProjectSnapshot => {
+    const category = state.categoryOverride ? getCategory(state.categoryOverride) : undefined;
+    return {
+      state,
+      step,
+      scenePrompts,
+      repairPrompts,
+      settings: { forceFresh, customCategory: category && !category.builtin ? category : null }
+    };
+  };
+
+  const onSaveProject = async () => {
     try {
-      const img = await upscaleScene(state.scenes[idx].image!, size);
-      setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, image: img, isUpscaling: false } : s) }));
-    } catch (e) { handleError(e); }
+      const blob = await saveProjectFile(projectSnapshot());
+      const url = URL.createObjectURL(blob);
+      downloadMedia(url, `${state.projectName.trim() || 'project'}${PROJECT_FILE_EXTENSION}`);
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (e) {
+      handleError(e);
+    }
   };
 
-  const onRepair = async (idx: number) => {
-    setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, isExtracting: true } : s) }));
+  // Replaces the open project; its running jobs are stopped.
+  const applyProject = (project: ProjectSnapshot) => {
+    cancelBlockingJob();
+    sceneJobsRef.current.forEach(controller => controller.abort());
+    sceneJobsRef.current.clear();
+    const count = project.state.scenes.length;
+    // Renders of this project resumed on load go back to their scenes
+    const recovered = recoveredVideos.filter(v => v.job.projectId === project.state.projectId);
+    const recoveredPatch = (sceneId: number): Partial<SceneFrame> => {
+      const video = recovered.find(v => v.job.sceneId === sceneId);
+      if (video?.status === 'ready') return { videoUrl: video.url!, videoPrompt: video.job.prompt, videoProgress: 100 };
+      if (video?.status === 'rendering') return { isGeneratingVideo: true, videoProgress: video.progress };
+      return {};
+    };
+    setRecoveredVideos(prev => prev.filter(v => v.job.projectId !== project.state.projectId));
+    setState({
+      ...createInitialState(),
+      ...project.state,
+      scenes: project.state.scenes.map(scene => ({ ...createScene(scene.id), ...scene, ...recoveredPatch(scene.id) })),
+      editPrompts: resizeTo(project.state.editPrompts ?? [], count, "")
+    });
+    setScenePrompts(resizeTo(project.scenePrompts, count, DEFAULT_SCENE_PROMPT));
+    setRepairPrompts(resizeTo(project.repairPrompts, count, DEFAULT_REPAIR_PROMPT));
+    setForceFresh(project.settings.forceFresh);
+    setStep(project.step);
+  };
+
+  const onOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (hasProjectContent && !confirm("Open this project file? The current project stays in Recent Projects.")) return;
     try {
-      // Pass modelImage to repair function
-      const img = await repairImage(state.scenes[idx].image!, repairPrompts[idx], state.modelImage || undefined);
-      setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, image: img, isExtracting: false } : s) }));
-    } catch (e) { handleError(e); }
+      if (hasProjectContent) await autosaveProject(projectSnapshot());
+      applyProject(await openProjectFile(file));
+      setErrorNotice(null);
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  // --- AUTOSAVE & RECOVERY ---
+  const hasProjectContent = !!(state.modelImage || state.productImage || state.combinedImage) || hasStoryboardWork;
+
+  useEffect(() => {
+    const lastId = getLastSessionId();
+    if (!lastId) return;
+    void listRecentProjects().then(projects => setRestoreOffer(projects.find(p => p.id === lastId) ?? null));
+  }, []);
+
+  // An empty project isn't worth a recent projects entry
+  useEffect(() => {
+    if (!hasProjectContent) return;
+    const timer = setTimeout(() => {
+      void autosaveProject(projectSnapshot()).then(ok => setAutosave({ ok, at: Date.now() }));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [state, step, scenePrompts, repairPrompts, forceFresh]);
+
+  const onOpenSavedProject = async (summary: ProjectSummary) => {
+    setRestoreOffer(null);
+    if (summary.id !== state.projectId && hasProjectContent && !confirm(`Open "${summary.name}"? The current project stays in Recent Projects.`)) return;
+    try {
+      if (hasProjectContent && summary.id !== state.projectId) await autosaveProject(projectSnapshot());
+      const project = await loadSavedProject(summary.id);
+      if (!project) throw new GenerationError('PROJECT', `"${summary.name}" is no longer saved in this browser.`);
+      applyProject(project);
+      setErrorNotice(null);
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  // A batch product continues as a normal project under the id it was metered with.
+  const onOpenBatchItem = async (item: BatchItem, batch: BatchSettings) => {
+    if (item.id !== state.projectId && hasProjectContent && !confirm(`Open "${item.name}"? The current project stays in Recent Projects.`)) return;
+    try {
+      if (hasProjectContent && item.id !== state.projectId) await autosaveProject(projectSnapshot());
+      const count = cellCount(getGridLayout(batch.gridLayout));
+      const scenes = Array.from({ length: count }, (_, i) => {
+        const scene = createScene(i);
+        return item.scenes[i] ? { ...scene, ...addSceneVersion(scene, { image: item.scenes[i], operation: 'extract', prompt: item.storyboardPrompt }) } : scene;
+      });
+      applyProject({
+        state: {
+          ...createInitialState(),
+          projectId: item.id,
+          projectName: `${batch.name} · ${item.name}`,
+          modelImage: batch.modelImage,
+          persona: batch.persona,
+          productImage: item.productImage,
+          promptInstruction: item.promptInstruction,
+          categoryOverride: item.categoryOverride,
+          combinedImage: item.combinedImage,
+          combinedCandidates: item.candidates,
+          combinedPrompt: item.combinedPrompt,
+          brandingText: batchBranding(item, batch),
+          stylePrompt: batchStyle(item, batch),
+          brandKit: batch.brandKit,
+          gridLayout: batch.gridLayout,
+          aspectRatio: batch.aspectRatio,
+          storyboardGrid: item.storyboardGrid,
+          storyboardPrompt: item.storyboardPrompt,
+          gridCuts: item.gridCuts,
+          scenes,
+          extractionProgress: item.scenes.length === count ? 100 : 0
+        },
+        step: item.scenes.length > 0 ? AppStep.RESULTS : item.storyboardGrid ? AppStep.STORYBOARD : AppStep.REFINE,
+        scenePrompts: [],
+        repairPrompts: [],
+        settings: { forceFresh, customCategory: null }
+      });
+      setShowBatch(false);
+      setErrorNotice(null);
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  const declineRestore = () => {
+    setRestoreOffer(null);
+    forgetLastSession();
+  };
+
+  // A different layout needs a new grid, so the current grid and its scenes are discarded.
+  const changeGridLayout = (id: GridLayoutId) => {
+    if (id === state.gridLayout) return;
+    if (hasStoryboardWork && !confirm("Changing the layout discards the current storyboard grid and its scenes. Continue?")) return;
+    resetStoryboard({}, id);
+    if (step === AppStep.STORYBOARD || step === AppStep.RESULTS) setStep(AppStep.REFINE);
+  };
+
+  // Grid cells are drawn at the old format, so the grid and its scenes go too.
+  // Refinement candidates are kept: they only serve as the grid's reference.
+  const changeAspectRatio = (id: TargetAspectRatio) => {
+    if (id === state.aspectRatio) return;
+    if (hasStoryboardWork && !confirm("Changing the output format discards the current storyboard grid and its scenes. Continue?")) return;
+    resetStoryboard({ aspectRatio: id });
+    if (step === AppStep.STORYBOARD || step === AppStep.RESULTS) setStep(AppStep.REFINE);
+  };
+
+  const onRedetectCuts = async () => {
+    if (!state.storyboardGrid) return;
+    const cuts = await detectGridCuts(state.storyboardGrid, layout);
+    setState(prev => ({ ...prev, gridCuts: cuts }));
+  };
+
+  const onUpscale = async (idx: number, size: '2K' | '4K') => {
+    await runSceneJob(idx, 'isUpscaling', async (signal) => {
+      const result = await upscaleScene(state.scenes[idx].image!, size, jobOptions(signal));
+      return (scene: SceneFrame) => addSceneVersion(scene, { image: result.image, operation: 'upscale', prompt: result.prompt, instruction: size });
+    });
+  };
+
+  const onRepair = async (idx: number) => {
+    // Pass the model's identity references to repair function
+    await runSceneJob(idx, 'isExtracting', async (signal) => {
+      const result = await repairImage(state.scenes[idx].image!, repairPrompts[idx], sceneIdentity(idx, repairPrompts[idx]), jobOptions(signal, true));
+      return (scene: SceneFrame) => addSceneVersion(scene, { image: result.image, operation: 'repair', prompt: result.prompt, instruction: repairPrompts[idx] });
+    });
   };
 
   const onEditImage = async (idx: number) => {
     const prompt = state.editPrompts[idx];
     if (!prompt || !state.scenes[idx].image) return;
 
-    setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, isEditing: true } : s) }));
-    try {
-      // Pass modelImage to edit function
-      const img = await editSceneImage(state.scenes[idx].image!, prompt, state.modelImage || undefined);
-      setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, image: img, isEditing: false } : s) }));
-    } catch (e) { handleError(e); }
+    // Pass the model's identity references to edit function
+    await runSceneJob(idx, 'isEditing', async (signal) => {
+      const result = await editSceneImage(state.scenes[idx].image!, prompt, sceneIdentity(idx, prompt), jobOptions(signal, true));
+      return (scene: SceneFrame) => addSceneVersion(scene, { image: result.image, operation: 'edit', prompt: result.prompt, instruction: prompt });
+    });
   };
 
   const onVideo = async (idx: number) => {
     const scene = state.scenes[idx];
-    setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, isGeneratingVideo: true, videoProgress: 0 } : s) }));
+    patchScene(idx, { videoProgress: 0 });
     
     // Construct Prompt
     let finalPrompt = "";
@@ -523,19 +1019,17 @@ const App: React.FC = () => {
         finalPrompt = parts.join(". ");
     }
 
-    try {
-      const url = await generateSceneVideo(
+    await runSceneJob(idx, 'isGeneratingVideo', async (signal) => {
+      const result = await generateSceneVideo(
           state.scenes[idx].image!, 
           finalPrompt,
           (progress) => {
-             setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, videoProgress: progress } : s) }));
-          }
+             if (!signal.aborted) patchScene(idx, { videoProgress: progress });
+          },
+          { ...jobOptions(signal), sceneId: idx }
       );
-      setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, videoUrl: url, isGeneratingVideo: false, videoProgress: 100 } : s) }));
-    } catch (e) { 
-        handleError(e); 
-        setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, isGeneratingVideo: false, videoProgress: 0 } : s) }));
-    }
+      return { videoUrl: result.url, videoPrompt: result.prompt, videoProgress: 100 };
+    }, { videoProgress: 0 });
   };
 
   const toggleJsonMode = (idx: number) => {
@@ -546,6 +1040,19 @@ const App: React.FC = () => {
       setState(prev => ({ ...prev, scenes: prev.scenes.map(s => s.id === idx ? { ...s, [field]: value } : s) }));
   };
 
+  // What a scene image can be compared with: the version it was made from
+  // first, then the master reference and the rest of its history.
+  const compareBaselines = (scene: SceneFrame): CompareImage[] => {
+    const previous = undoTarget(scene);
+    const baselines: CompareImage[] = [];
+    if (previous) baselines.push({ id: previous.id, label: `Previous · ${SCENE_OPERATIONS[previous.operation]}`, image: previous.image });
+    if (state.combinedImage) baselines.push({ id: 'master', label: 'Master Reference', image: state.combinedImage });
+    (scene.history ?? [])
+      .filter(v => v.id !== scene.versionId && v.id !== previous?.id)
+      .forEach(v => baselines.push({ id: v.id, label: `${SCENE_OPERATIONS[v.operation]} · ${new Date(v.createdAt).toLocaleTimeString()}`, image: v.image }));
+    return baselines;
+  };
+
   const formatDuration = (seconds: number) => {
       if (isNaN(seconds)) return "00:00";
       const m = Math.floor(seconds / 60);
@@ -559,8 +1066,39 @@ const App: React.FC = () => {
       {/* 1. Header Section */}
       <header className="pt-8 md:pt-12 pb-6 md:pb-8 relative px-4">
         
+        {/* Job Queue State */}
+        <div className="absolute top-8 left-4 md:left-8 z-50">
+           <QueueIndicator snapshot={queueSnapshot} />
+        </div>
+
         {/* Status Indicator / Disconnect */}
-        <div className="absolute top-8 right-4 md:right-8 z-50">
+        <div className="absolute top-8 right-4 md:right-8 z-50 flex items-center gap-2">
+           <button
+             onClick={() => setShowSettings('general')}
+             className={`bg-[#0c0c0e] border rounded-full w-9 h-9 flex items-center justify-center hover:bg-white/5 transition-colors ${forceFresh ? 'border-amber-700/40' : 'border-white/10'}`}
+             title={forceFresh ? 'Settings (force fresh generation is on)' : 'Settings'}
+           >
+                <i className={`fa-solid fa-gear text-[11px] ${forceFresh ? 'text-amber-400' : 'text-zinc-500'}`}></i>
+           </button>
+           <button
+             onClick={() => setShowUsage(true)}
+             className="bg-[#0c0c0e] border border-white/10 rounded-full px-4 py-2 flex items-center gap-2 hover:bg-white/5 transition-colors"
+             title="Usage & budget for this project"
+           >
+                <i className="fa-solid fa-coins text-[10px] text-zinc-500"></i>
+                <span className="text-zinc-300 text-[9px] font-bold uppercase tracking-widest font-mono">${projectSpend.toFixed(2)}</span>
+           </button>
+           {!backend.requiresApiKey ? (
+           <div 
+             onClick={() => switchBackend('gemini')}
+             className="bg-amber-950/20 border border-amber-700/40 rounded-full px-4 py-2 flex items-center gap-2 transition-all duration-300 cursor-pointer hover:opacity-80 group"
+             title="Click to switch back to the live Gemini backend"
+           >
+                <div className="w-1.5 h-1.5 rounded-full bg-amber-400 shadow-[0_0_8px_#f59e0b]"></div>
+                <span className="text-amber-400 text-[9px] font-bold uppercase tracking-widest">{backend.label}</span>
+                <i className="fa-solid fa-power-off text-[10px] text-zinc-500 group-hover:text-red-400 ml-2 transition-colors"></i>
+           </div>
+           ) : (
            <div 
              onClick={handleDisconnect}
              className={`bg-[#0c1a11] border ${useCustomKey ? 'border-blue-900/40 bg-blue-950/20' : 'border-[#1e3a24]'} rounded-full px-4 py-2 flex items-center gap-2 transition-all duration-300 cursor-pointer hover:opacity-80 group`}
@@ -572,10 +1110,34 @@ const App: React.FC = () => {
                 </span>
                 <i className="fa-solid fa-power-off text-[10px] text-zinc-500 group-hover:text-red-400 ml-2 transition-colors"></i>
            </div>
+           )}
         </div>
 
         <div className="text-center space-y-4">
             <h1 className="text-3xl md:text-5xl font-black uppercase tracking-tight leading-tight">UGC AI Affiliate Storyboard Scene</h1>
+            <input
+              value={state.projectName}
+              onChange={(e) => setState(prev => ({ ...prev, projectName: e.target.value }))}
+              onBlur={() => !state.projectName.trim() && setState(prev => ({ ...prev, projectName: 'Untitled Project' }))}
+              className="bg-transparent text-center text-[10px] font-bold uppercase tracking-[0.3em] text-zinc-500 hover:text-zinc-300 focus:text-white border-b border-transparent focus:border-blue-600/50 outline-none px-2 py-1 transition-colors"
+              title="Project name (used for usage tracking)"
+            />
+            <div className="flex justify-center gap-4">
+              <button onClick={onSaveProject} className="text-[9px] font-black uppercase tracking-widest text-zinc-600 hover:text-white transition-colors" title={`Save the whole project as one ${PROJECT_FILE_EXTENSION} file`}>
+                <i className="fa-solid fa-floppy-disk mr-1.5"></i>Save Project
+              </button>
+              <button onClick={() => projectInputRef.current?.click()} className="text-[9px] font-black uppercase tracking-widest text-zinc-600 hover:text-white transition-colors" title="Open a saved project file">
+                <i className="fa-solid fa-folder-open mr-1.5"></i>Open Project
+              </button>
+              <input ref={projectInputRef} type="file" accept=".json,application/json" className="hidden" onChange={onOpenProject} />
+            </div>
+            {autosave && (
+              <p className={`text-[8px] font-bold uppercase tracking-widest ${autosave.ok ? 'text-zinc-700' : 'text-amber-500'}`}>
+                {autosave.ok
+                  ? `Autosaved ${new Date(autosave.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+                  : 'Autosave failed · browser storage full or blocked · use Save Project'}
+              </p>
+            )}
         </div>
       </header>
 
@@ -618,30 +1180,130 @@ const App: React.FC = () => {
       </nav>
 
       <main className="max-w-[1440px] mx-auto px-4 md:px-6 lg:px-12">
-        {loadingMsg && <LoadingScreen message={loadingMsg} />}
+        {showSettings && <SettingsPanel initialTab={showSettings} forceFresh={forceFresh} onForceFreshChange={setForceFresh} onClose={() => setShowSettings(null)} />}
+        {showUsage && <UsagePanel project={{ id: state.projectId, name: state.projectName }} onClose={() => setShowUsage(false)} />}
+        {compareScene !== null && state.scenes[compareScene]?.image && (
+          <CompareViewer
+            title={`Shot ${String(compareScene + 1).padStart(2, '0')}`}
+            current={{ id: 'current', label: 'Current', image: state.scenes[compareScene].image! }}
+            baselines={compareBaselines(state.scenes[compareScene])}
+            onClose={() => setCompareScene(null)}
+          />
+        )}
+        {showBatch && (
+          <BatchPanel
+            model={state.modelImage ? { modelImage: state.modelImage, persona: state.persona } : null}
+            shared={{
+              name: state.projectName,
+              brandingText: state.brandingText,
+              stylePrompt: state.stylePrompt,
+              brandKit: state.brandKit,
+              gridLayout: state.gridLayout,
+              aspectRatio: state.aspectRatio,
+              forceFresh
+            }}
+            categories={categories}
+            onOpen={onOpenBatchItem}
+            onError={(error) => setErrorNotice(describeError(error))}
+            onClose={() => setShowBatch(false)}
+          />
+        )}
+        {showExport && (
+          <ProjectExportPanel
+            context={{ state, category: activeCategory, categoryManual: !!state.categoryOverride, motionPrompts: scenePrompts }}
+            onError={(error) => setErrorNotice(describeError(error))}
+            onDownload={downloadMedia}
+            onClose={() => setShowExport(false)}
+          />
+        )}
+        {loadingMsg && <LoadingScreen message={loadingMsg} onCancel={cancelBlockingJob} />}
 
         {/* Global Error Notice */}
-        {quotaError && (
+        {errorNotice && (
           <div className="mb-8 p-6 bg-red-600/10 border border-red-500/30 rounded-[2rem] animate-in flex items-center gap-6">
             <div className="w-12 h-12 bg-red-600/20 rounded-full flex items-center justify-center flex-shrink-0">
               <i className="fa-solid fa-triangle-exclamation text-red-500"></i>
             </div>
-            <div>
-              <h4 className="text-[12px] font-black uppercase tracking-widest text-red-500 mb-1">Quota Warning</h4>
-              <p className="text-[11px] text-zinc-400 font-bold uppercase tracking-tight leading-relaxed">{quotaError}</p>
+            <div className="flex-1 min-w-0">
+              <h4 className="text-[12px] font-black uppercase tracking-widest text-red-500 mb-1">{errorNotice.title}</h4>
+              <p className="text-[11px] text-zinc-400 font-bold uppercase tracking-tight leading-relaxed">{errorNotice.message}</p>
+              {errorNotice.detail && (
+                <p className="text-[10px] text-zinc-600 font-mono mt-2 break-words">{errorNotice.detail}</p>
+              )}
+              {errorNotice.action === 'reauth' && backend.requiresApiKey && (
+                <button onClick={handleDisconnect} className="mt-3 text-[9px] font-black uppercase tracking-widest text-red-400 hover:text-white border border-red-500/30 rounded-full px-4 py-1.5 transition-colors">
+                  Change API Key
+                </button>
+              )}
+              {errorNotice.action === 'usage' && (
+                <button onClick={() => setShowUsage(true)} className="mt-3 text-[9px] font-black uppercase tracking-widest text-red-400 hover:text-white border border-red-500/30 rounded-full px-4 py-1.5 transition-colors">
+                  Open Usage & Budget
+                </button>
+              )}
+              {errorNotice.action === 'billing' && (
+                <a href="https://console.cloud.google.com/billing" target="_blank" className="mt-3 inline-block text-[9px] font-black uppercase tracking-widest text-red-400 hover:text-white border border-red-500/30 rounded-full px-4 py-1.5 transition-colors">
+                  Open Billing Console
+                </a>
+              )}
             </div>
+            <button onClick={() => setErrorNotice(null)} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-white/10 text-zinc-500 hover:text-white transition-colors flex-shrink-0" title="Dismiss">
+              <i className="fa-solid fa-xmark text-xs"></i>
+            </button>
           </div>
         )}
 
+        {/* Restore Previous Session */}
+        {restoreOffer && (
+          <div className="mb-8 p-6 bg-blue-600/10 border border-blue-500/30 rounded-[2rem] animate-in flex flex-col md:flex-row md:items-center gap-6">
+            <div className="w-12 h-12 bg-blue-600/20 rounded-full flex items-center justify-center flex-shrink-0">
+              <i className="fa-solid fa-clock-rotate-left text-blue-400"></i>
+            </div>
+            <div className="flex-1 min-w-0">
+              <h4 className="text-[12px] font-black uppercase tracking-widest text-blue-400 mb-1">Restore Previous Session?</h4>
+              <p className="text-[11px] text-zinc-400 font-bold uppercase tracking-tight leading-relaxed truncate">
+                {restoreOffer.name} · autosaved {new Date(restoreOffer.updatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => onOpenSavedProject(restoreOffer)} className="bg-[#1d4ed8] hover:bg-blue-600 px-6 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-colors">
+                Restore
+              </button>
+              <button onClick={declineRestore} className="border border-white/10 hover:bg-white/5 px-6 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-400 transition-colors">
+                Start Fresh
+              </button>
+            </div>
+          </div>
+        )}
+
+        <RecoveredVideos
+          videos={recoveredVideos}
+          onDownload={(video) => downloadMedia(video.url!, `${video.job.projectName}-shot-${video.job.sceneId + 1}-motion.mp4`)}
+          onDiscard={(video) => {
+            if (!confirm("Delete this recovered clip? It can't be downloaded again.")) return;
+            void deleteSceneVideo(video.job.key);
+            setRecoveredVideos(prev => prev.filter(v => v.job.key !== video.job.key));
+          }}
+          onDismiss={() => setRecoveredVideos([])}
+        />
+
         {/* UPLOAD STEP */}
         {step === AppStep.UPLOAD && (
           <div className="animate-in flex flex-col items-center max-w-5xl mx-auto w-full px-4 md:px-0">
-            
+
+            <RecentProjects currentId={state.projectId} onOpen={onOpenSavedProject} />
+
+            <PersonaLibrary
+              selected={state.persona}
+              modelImage={state.modelImage}
+              onSelect={(persona) => setState(prev => ({ ...prev, persona, modelImage: persona ? primaryPhoto(persona) : prev.modelImage }))}
+              onError={(error) => setErrorNotice(describeError(error))}
+            />
+
             {/* Wrapper Container for Image Inputs */}
             <div className="w-full bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] md:rounded-[3.5rem] p-4 md:p-8 shadow-2xl relative mb-8">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-8 w-full">
                   {[{id:'model', label:'Model Base'}, {id:'product', label:'Product Item'}].map(u => (
-                    <label key={u.id} className="relative aspect-[3/4] md:aspect-[3/4] bg-[#050506] rounded-[2rem] border border-white/5 flex flex-col items-center justify-center cursor-pointer hover:border-blue-500/40 hover:shadow-[0_0_30px_rgba(37,99,235,0.15)] transition-all duration-500 overflow-hidden group">
+                    <label key={u.id} style={previewAspect} className="relative bg-[#050506] rounded-[2rem] border border-white/5 flex flex-col items-center justify-center cursor-pointer hover:border-blue-500/40 hover:shadow-[0_0_30px_rgba(37,99,235,0.15)] transition-all duration-500 overflow-hidden group">
                       <input type="file" className="hidden" onChange={(e) => handleFileUpload(e, u.id as any)} />
                       
                       {state[`${u.id}Image` as keyof GenerationState] ? (
@@ -671,6 +1333,35 @@ const App: React.FC = () => {
                 </div>
             </div>
 
+            <ProductReferences
+              productImage={state.productImage}
+              items={state.productRefs}
+              onChange={(productRefs) => setState(prev => ({ ...prev, productRefs, productImage: primaryProductPhoto(productRefs) ?? prev.productImage }))}
+            />
+
+            {/* Output format (aspect ratio of every generated image) */}
+            <div className="w-full bg-[#0c0c0e] border border-white/5 rounded-[2rem] px-6 py-5 mb-8 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-600">Output Format</p>
+                <p className="text-[12px] font-black uppercase tracking-tight mt-1">{format.id} · {format.label}</p>
+                <p className="text-[9px] text-zinc-600 mt-0.5">
+                  {format.platforms}{format.video !== format.id && ` · Video renders at ${format.video}`}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(ASPECT_RATIOS).map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => changeAspectRatio(option.id)}
+                    title={`${option.label} · ${option.platforms}`}
+                    className={`px-4 py-2.5 rounded-full border text-[10px] font-black uppercase tracking-widest transition-colors ${option.id === format.id ? 'bg-blue-600 border-blue-500 text-white' : 'bg-[#050506] border-white/10 text-zinc-500 hover:text-white'}`}
+                  >
+                    {option.id}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="w-full bg-[#0c0c0e] rounded-[2rem] border border-white/5 p-6 shadow-xl relative overflow-hidden group">
                <div className="absolute top-0 left-0 w-1 h-full bg-blue-600/50 transform scale-y-0 group-hover:scale-y-100 transition-transform duration-500 origin-top"></div>
                
@@ -712,12 +1403,19 @@ const App: React.FC = () => {
 
             <button 
               disabled={!state.modelImage || !state.productImage} 
-              onClick={onRefineClick} 
+              onClick={() => onRefineClick()} 
               className="mt-8 md:mt-12 w-full md:w-auto bg-[#1d4ed8] hover:bg-blue-600 disabled:opacity-20 disabled:cursor-not-allowed px-12 md:px-24 py-5 md:py-6 rounded-full font-black uppercase tracking-[0.2em] text-[12px] shadow-[0_15px_40px_rgba(37,99,235,0.3)] transition-all active:scale-95 border border-white/5 relative overflow-hidden group"
             >
               <span className="relative z-10">Start Refinement</span>
               <div className="absolute inset-0 bg-gradient-to-r from-blue-600 to-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity duration-300"></div>
             </button>
+            <button
+              onClick={() => setShowBatch(true)}
+              className="mt-5 text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors"
+              title="Run this model with many products at once"
+            >
+              <i className="fa-solid fa-layer-group mr-2"></i>Batch Campaign · One Model, Many Products
+            </button>
           </div>
         )}
 
@@ -731,14 +1429,15 @@ const App: React.FC = () => {
                 <div 
                   key={idx}
                   onClick={() => setState(prev => ({ ...prev, combinedImage: img }))}
+                  style={previewAspect}
                   className={`
-                    group relative rounded-[2.5rem] md:rounded-[3rem] overflow-hidden cursor-pointer transition-all duration-500 aspect-[9/16]
+                    group relative rounded-[2.5rem] md:rounded-[3rem] overflow-hidden cursor-pointer transition-all duration-500
                     ${state.combinedImage === img ? 'scale-[1.02] md:scale-105 z-10 shadow-2xl' : 'scale-95 opacity-80 hover:opacity-100 hover:scale-100'}
                   `}
                 >
                   <div className={`absolute inset-0 ${state.combinedImage === img ? 'animated-gradient-border' : ''}`}>
                     <div className="bg-inner-card w-full h-full relative z-10">
-                        <img src={img as string} className="w-full h-full object-cover" />
+                        <img src={img as string} className="w-full h-full object-cover" title={state.combinedPrompt ? `Prompt: ${formatPromptRef(state.combinedPrompt)}` : undefined} />
                     </div>
                   </div>
                   {state.combinedImage === img && (
@@ -753,7 +1452,7 @@ const App: React.FC = () => {
             {/* NEW: REGENERATE BUTTON IF GLITCHY */}
             <div className="flex justify-center mb-12 w-full max-w-lg mx-auto">
                <button 
-                  onClick={onRefineClick} 
+                  onClick={() => onRefineClick(true)} 
                   className="flex items-center gap-3 px-8 py-3 bg-red-600/10 hover:bg-red-600/20 border border-red-500/30 hover:border-red-500/60 rounded-full transition-all group w-full justify-center"
                >
                   <i className="fa-solid fa-rotate-right text-red-500 group-hover:rotate-180 transition-transform duration-500"></i>
@@ -763,6 +1462,12 @@ const App: React.FC = () => {
 
             <div className="w-full max-w-4xl bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] md:rounded-[3rem] p-6 md:p-8 mb-12 shadow-2xl relative">
               <h3 className="text-[12px] font-black uppercase tracking-[0.3em] text-zinc-400 mb-6 text-center">Creative Direction</h3>
+              <BrandKitLibrary
+                selected={state.brandKit}
+                settings={state}
+                onApply={(kit) => setState(prev => kit ? { ...prev, brandKit: kit, ...brandSettings(kit) } : { ...prev, brandKit: null })}
+                onError={(error) => setErrorNotice(describeError(error))}
+              />
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8 mb-8">
                  {/* Inputs... */}
                  <div className="space-y-3">
@@ -809,9 +1514,54 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {/* Storyboard layout (number of shots) */}
+            <div className="w-full max-w-4xl bg-[#0c0c0e] border border-white/5 rounded-[2rem] px-6 py-5 mb-4 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-600">Storyboard Layout</p>
+                <p className="text-[12px] font-black uppercase tracking-tight mt-1">{layout.id} · {layout.label}</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {Object.values(GRID_LAYOUTS).map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => changeGridLayout(option.id)}
+                    title={option.label}
+                    className={`px-4 py-2.5 rounded-full border text-[10px] font-black uppercase tracking-widest transition-colors ${option.id === layout.id ? 'bg-blue-600 border-blue-500 text-white' : 'bg-[#050506] border-white/10 text-zinc-500 hover:text-white'}`}
+                  >
+                    {option.id}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Product category (drives the storyboard shot list) */}
+            <div className="w-full max-w-4xl bg-[#0c0c0e] border border-white/5 rounded-[2rem] px-6 py-5 mb-8 flex flex-col md:flex-row md:items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-600">Product Category</p>
+                <p className="text-[12px] font-black uppercase tracking-tight mt-1">
+                  {activeCategory.label}
+                  <span className={`ml-2 text-[8px] tracking-widest ${state.categoryOverride ? 'text-amber-400' : 'text-blue-400'}`}>
+                    {state.categoryOverride ? 'Manual' : 'Detected'}
+                  </span>
+                </p>
+                <p className="text-[9px] text-zinc-600 truncate mt-0.5">{activeCategory.strategy}</p>
+              </div>
+              <select
+                value={state.categoryOverride ?? ''}
+                onChange={(e) => setState(prev => ({ ...prev, categoryOverride: e.target.value || null }))}
+                className="bg-[#050506] border border-white/10 rounded-full px-5 py-3 text-[10px] font-bold uppercase tracking-widest outline-none focus:border-blue-600/50 transition-colors cursor-pointer"
+              >
+                <option value="">Auto ({detectedCategory.label})</option>
+                {categories.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+              </select>
+              <button onClick={() => setShowSettings('categories')} className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">
+                <i className="fa-solid fa-sliders mr-1"></i> Manage
+              </button>
+            </div>
+
             <div className="flex flex-col md:flex-row gap-4 w-full md:w-auto px-4 md:px-0">
               <button onClick={() => setStep(AppStep.UPLOAD)} className="w-full md:w-auto px-10 py-5 border border-white/10 rounded-full font-black uppercase tracking-widest text-[11px] hover:bg-white/5 transition-colors">Back</button>
-              <button onClick={onGridClick} className="w-full md:w-auto bg-[#1d4ed8] hover:bg-blue-600 px-16 py-5 rounded-full font-black uppercase tracking-widest text-[11px] shadow-xl transition-all transform hover:scale-105">
+              <button onClick={() => onGridClick()} className="w-full md:w-auto bg-[#1d4ed8] hover:bg-blue-600 px-16 py-5 rounded-full font-black uppercase tracking-widest text-[11px] shadow-xl transition-all transform hover:scale-105">
                 Generate Grid
               </button>
             </div>
@@ -821,8 +1571,22 @@ const App: React.FC = () => {
         {/* STORYBOARD GRID STEP */}
         {step === AppStep.STORYBOARD && (
           <div className="animate-in flex flex-col items-center px-4">
-            <div className="bg-[#0c0c0e] p-4 md:p-6 rounded-[3rem] md:rounded-[4.5rem] w-full max-w-md mb-8 md:mb-12 shadow-2xl border border-white/5">
-              <img src={state.storyboardGrid!} className="rounded-[2.5rem] md:rounded-[3.5rem] w-full aspect-[9/16]" />
+            <div className="bg-[#0c0c0e] p-4 md:p-6 rounded-[2rem] md:rounded-[2.5rem] w-full max-w-md mb-4 shadow-2xl border border-white/5">
+              <GridCutEditor
+                image={state.storyboardGrid!}
+                cuts={state.gridCuts ?? evenGridCuts(layout)}
+                onChange={(cuts) => setState(prev => ({ ...prev, gridCuts: cuts }))}
+              />
+            </div>
+
+            {/* Cut line status */}
+            <div className="flex flex-wrap items-center justify-center gap-3 mb-8 md:mb-12 max-w-md">
+              <span className={`text-[9px] font-bold uppercase tracking-widest ${cutStatus === 'detected' ? 'text-green-500' : cutStatus === 'even' ? 'text-zinc-500' : 'text-amber-400'}`}>
+                <i className={`fa-solid ${cutStatus === 'detected' ? 'fa-check' : 'fa-ruler-combined'} mr-2`}></i>
+                {cutStatus === 'detected' ? 'Dividers detected' : cutStatus === 'even' ? 'Even split · drag lines to adjust' : `Only ${cutStatus} dividers found · rest split evenly`}
+              </span>
+              <button onClick={onRedetectCuts} className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">Re-detect</button>
+              <button onClick={() => setState(prev => ({ ...prev, gridCuts: evenGridCuts(layout) }))} className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">Even Split</button>
             </div>
             
             <div className="flex flex-col md:flex-row gap-4 w-full md:w-auto">
@@ -854,7 +1618,10 @@ const App: React.FC = () => {
               </div>
 
               <div className="bg-[#0c0c0e] p-4 rounded-[2.5rem] border border-white/5 overflow-hidden max-w-xs mx-auto lg:max-w-none">
-                {state.storyboardGrid && <img src={state.storyboardGrid} className="rounded-[1.5rem] w-full aspect-[9/16] object-cover opacity-80" />}
+                {state.storyboardGrid && <img src={state.storyboardGrid} style={{ aspectRatio: cssAspectRatio(gridAspectRatio(layout, state.aspectRatio)) }} className="rounded-[1.5rem] w-full object-cover opacity-80" />}
+                {state.storyboardPrompt && (
+                  <p className="text-[9px] font-mono text-zinc-600 text-center mt-3" title="Prompt template used for this grid">{formatPromptRef(state.storyboardPrompt)}</p>
+                )}
               </div>
             </aside>
 
@@ -867,13 +1634,19 @@ const App: React.FC = () => {
                     Final <span className="text-[#4dabf7] not-italic">Render</span>
                   </h2>
                   <p className="text-[10px] font-bold uppercase tracking-[0.4em] text-zinc-600">Shot Selection & Motion Export</p>
+                  <button
+                    onClick={() => setShowExport(true)}
+                    className="mt-2 border border-white/10 hover:bg-white/5 px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-400 transition-colors"
+                  >
+                    <i className="fa-solid fa-file-zipper mr-2"></i>Export All
+                  </button>
                 </div>
                 
                 {/* NEW SCI-FI PROGRESS BAR & BILLING INFO */}
                 <div className="w-full xl:w-2/5 flex flex-col gap-3">
                    <SciFiProgressBar progress={state.extractionProgress} />
                    
-                   {!useCustomKey && (
+                   {!useCustomKey && backend.requiresApiKey && (
                      <div className="bg-[#0f172a]/50 border border-blue-500/20 rounded-lg p-3 flex items-start gap-3 animate-in">
                        <div className="p-1.5 bg-blue-500/10 rounded-md">
                          <i className="fa-solid fa-file-invoice-dollar text-blue-400 text-xs"></i>
@@ -893,11 +1666,11 @@ const App: React.FC = () => {
               </div>
 
               {/* Individual Shot Grid */}
-              <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6 md:gap-8">
+              <div className={`grid grid-cols-1 sm:grid-cols-2 ${layout.cols === 2 ? '' : layout.cols === 4 ? 'xl:grid-cols-3 2xl:grid-cols-4' : 'xl:grid-cols-3'} gap-6 md:gap-8`}>
                 {state.scenes.map((scene, idx) => (
                   <div key={scene.id} className="bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] md:rounded-[3.5rem] p-5 md:p-6 flex flex-col gap-5 md:gap-6 relative group overflow-hidden">
                     
-                    <div className={`aspect-[9/16] rounded-[2rem] md:rounded-[2.5rem] overflow-hidden relative shadow-2xl ${
+                    <div style={previewAspect} className={`rounded-[2rem] md:rounded-[2.5rem] overflow-hidden relative shadow-2xl ${
                       (scene.isExtracting || scene.isUpscaling || scene.isGeneratingVideo || scene.isEditing) ? 'animated-gradient-border' : 'border border-white/5'
                     }`}>
                       <div className="bg-inner-card w-full h-full relative z-10">
@@ -914,6 +1687,8 @@ const App: React.FC = () => {
                                 }}
                                 className="w-full h-full object-cover" 
                             /> :
+                            inlineCompare === idx && compareBaselines(scene)[0] ?
+                            <SplitCompare before={compareBaselines(scene)[0].image} after={scene.image} className="w-full h-full" /> :
                             <img src={scene.image} className="w-full h-full object-cover" />
                         ) : (
                             <div className="w-full h-full flex flex-col items-center justify-center gap-4 bg-zinc-900/10">
@@ -940,11 +1715,24 @@ const App: React.FC = () => {
                                   <div className="h-1 bg-zinc-800 rounded-full overflow-hidden">
                                       <div className="h-full bg-blue-500 transition-all duration-300" style={{width: `${scene.videoProgress}%`}}></div>
                                   </div>
+                                  <button 
+                                      onClick={() => cancelSceneJobs(idx, ['isGeneratingVideo'])}
+                                      className="mt-4 px-4 py-1.5 border border-white/10 hover:border-red-500/50 rounded-full text-[8px] font-black uppercase tracking-widest text-zinc-500 hover:text-red-400 transition-colors"
+                                      title="Stop waiting for this clip (Veo may still finish and bill it)"
+                                  >
+                                      Cancel
+                                  </button>
                               </div>
                           ) : (
                               <>
                               <div className="w-10 h-10 border-2 border-blue-600/10 border-t-blue-600 rounded-full animate-spin mb-4"></div>
                               <p className="text-[10px] font-black uppercase tracking-[0.3em] text-blue-500">Processing</p>
+                              <button 
+                                  onClick={() => cancelSceneJobs(idx, ['isUpscaling', 'isEditing', 'isExtracting'])}
+                                  className="mt-4 px-4 py-1.5 border border-white/10 hover:border-red-500/50 rounded-full text-[8px] font-black uppercase tracking-widest text-zinc-500 hover:text-red-400 transition-colors"
+                              >
+                                  Cancel
+                              </button>
                               </>
                           )}
                         </div>
@@ -986,6 +1774,26 @@ const App: React.FC = () => {
                                <i className="fa-solid fa-wand-magic-sparkles text-[12px]"></i>
                              </button>
 
+                             <div className="w-px h-4 bg-white/20 mx-1"></div>
+
+                             {/* Compare */}
+                             <button
+                               onClick={() => setInlineCompare(inlineCompare === idx ? null : idx)}
+                               disabled={!!scene.videoUrl || compareBaselines(scene).length === 0}
+                               className={`w-8 h-8 flex items-center justify-center rounded-xl hover:bg-blue-600 transition-colors disabled:opacity-20 disabled:hover:bg-transparent ${inlineCompare === idx ? 'bg-blue-600 text-white' : 'text-zinc-400 hover:text-white'}`}
+                               title={scene.videoUrl ? 'Compare works on the still; the card is showing the video' : `Compare with ${compareBaselines(scene)[0]?.label ?? 'an earlier version'}`}
+                             >
+                               <i className="fa-solid fa-code-compare text-[12px]"></i>
+                             </button>
+                             <button
+                               onClick={() => setCompareScene(idx)}
+                               disabled={compareBaselines(scene).length === 0}
+                               className="w-8 h-8 flex items-center justify-center rounded-xl hover:bg-blue-600 transition-colors text-zinc-400 hover:text-white disabled:opacity-20 disabled:hover:bg-transparent"
+                               title="Full-screen compare"
+                             >
+                               <i className="fa-solid fa-up-right-and-down-left-from-center text-[12px]"></i>
+                             </button>
+
                            </div>
                         </div>
                       )}
@@ -1006,12 +1814,24 @@ const App: React.FC = () => {
                         </div>
                       )}
 
-                      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-black/80 px-6 py-2 rounded-full border border-white/10 text-[10px] font-black uppercase tracking-[0.2em] shadow-2xl z-40">
-                        Shot 0{idx + 1}
+                      <div
+                        className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-black/80 px-6 py-2 rounded-full border border-white/10 text-[10px] font-black uppercase tracking-[0.2em] shadow-2xl z-40"
+                        title={[
+                          scene.imagePrompt && `Image: ${formatPromptRef(scene.imagePrompt)}`,
+                          scene.videoPrompt && `Video: ${formatPromptRef(scene.videoPrompt)}`
+                        ].filter(Boolean).join('\n') || undefined}
+                      >
+                        Shot {String(idx + 1).padStart(2, '0')}
                       </div>
                     </div>
 
                     <div className="space-y-4">
+                      <SceneHistory
+                        scene={scene}
+                        disabled={scene.isExtracting || scene.isUpscaling || scene.isEditing}
+                        onPin={(versionId) => patchScene(idx, s => pinSceneVersion(s, versionId))}
+                      />
+
                       {/* NEW: IMAGE EDITING INPUT */}
                       <div className="flex gap-2">
                         <div className="bg-[#12141a] rounded-xl flex-1 border border-white/5 relative group/input">
@@ -1087,11 +1907,20 @@ const App: React.FC = () => {
                          )}
                       </div>
 
+                      <SceneCaptions
+                        scene={scene}
+                        style={state.captionStyle}
+                        aspectRatio={state.aspectRatio}
+                        projectName={state.projectName}
+                        onError={(error) => setErrorNotice(describeError(error))}
+                        onDownload={downloadMedia}
+                      />
+
                       {/* WARNING FOR API LIMITS */}
                       <div className="flex items-start gap-2 p-2 bg-yellow-900/10 border border-yellow-700/30 rounded-lg">
                          <i className="fa-solid fa-triangle-exclamation text-yellow-600 text-[10px] mt-0.5"></i>
                          <p className="text-[9px] text-yellow-600/80 leading-relaxed font-medium">
-                           Warning: Do not spam generate to avoid hitting API limits.
+                           Jobs are queued to respect API limits. Each clip is billed once it starts rendering.
                          </p>
                       </div>
 
@@ -1106,6 +1935,20 @@ const App: React.FC = () => {
                   </div>
                 ))}
               </div>
+
+              <AdAssembler
+                scenes={state.scenes}
+                timeline={state.timeline}
+                audioTracks={state.audioTracks}
+                captionStyle={state.captionStyle}
+                aspectRatio={state.aspectRatio}
+                projectName={state.projectName}
+                onTimelineChange={(timeline) => setState(prev => ({ ...prev, timeline }))}
+                onAudioTracksChange={(audioTracks) => setState(prev => ({ ...prev, audioTracks }))}
+                onCaptionStyleChange={(captionStyle) => setState(prev => ({ ...prev, captionStyle }))}
+                onError={(error) => setErrorNotice(describeError(error))}
+                onDownload={downloadMedia}
+              />
             </section>
           </div>
         )}
@@ -1182,6 +2025,14 @@ const App: React.FC = () => {
                <p className="text-[9px] text-zinc-600 uppercase tracking-wide">
                    <a href="https://aistudio.google.com/app/apikey" target="_blank" className="text-zinc-500 hover:text-white underline">Get Paid Key</a> for full features.
                </p>
+
+               <button 
+                  onClick={() => switchBackend('mock')}
+                  className="text-[9px] text-amber-500/80 hover:text-amber-400 font-bold uppercase tracking-widest transition-colors"
+               >
+                  <i className="fa-solid fa-flask mr-2"></i>
+                  Continue Offline (Mock Backend, No Cost)
+               </button>
             </div>
 
           </div>
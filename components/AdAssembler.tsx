@@ -0,0 +1,433 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SceneFrame } from '../types.ts';
+import { TargetAspectRatio } from '../services/aspectRatio.ts';
+import { AUDIO_TRACK_KINDS, AudioTrack, AudioTrackKind, MUSIC_LEVELS } from '../services/audioMixer.ts';
+import {
+  CAPTION_FONTS,
+  CAPTION_POSITIONS,
+  CaptionFormat,
+  captionFile,
+  CaptionPosition,
+  CaptionSize,
+  CaptionStyle,
+  sceneClipSeconds,
+  sceneCues,
+  sceneScript
+} from '../services/captions.ts';
+import { CancelledError, GenerationError, toGenerationError } from '../services/errors.ts';
+import {
+  AssembledVideo,
+  AssemblySource,
+  assembleVideo,
+  DEFAULT_STILL_SECONDS,
+  layoutTimeline,
+  TimelineClip,
+  TransitionKind,
+  TRANSITIONS
+} from '../services/videoAssembler.ts';
+
+const shotLabel = (sceneId: number) => `Shot ${String(sceneId + 1).padStart(2, '0')}`;
+
+const selectClass = "bg-[#050506] border border-white/10 rounded-lg px-2 py-1.5 text-[9px] font-bold uppercase outline-none focus:border-blue-600/50 disabled:opacity-30";
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// RESULTS view: orders scene clips and stills into one ad, mixes in uploaded
+// music / voiceover, optionally burns in captions and exports it.
+export const AdAssembler: React.FC<{
+  scenes: SceneFrame[];
+  timeline: TimelineClip[];
+  audioTracks: AudioTrack[];
+  captionStyle: CaptionStyle;
+  aspectRatio: TargetAspectRatio;
+  projectName: string;
+  onTimelineChange: (timeline: TimelineClip[]) => void;
+  onAudioTracksChange: (tracks: AudioTrack[]) => void;
+  onCaptionStyleChange: (style: CaptionStyle) => void;
+  onError: (error: GenerationError) => void;
+  onDownload: (url: string, filename: string) => void;
+}> = ({ scenes, timeline, audioTracks, captionStyle, aspectRatio, projectName, onTimelineChange, onAudioTracksChange, onCaptionStyleChange, onError, onDownload }) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [burnCaptions, setBurnCaptions] = useState(false);
+  const [result, setResult] = useState<AssembledVideo | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop a running export and free the last result when leaving the view
+  useEffect(() => () => controllerRef.current?.abort(), []);
+  useEffect(() => () => { if (result) URL.revokeObjectURL(result.url); }, [result]);
+
+  const add = (sceneId: number, kind: TimelineClip['kind']) => onTimelineChange([
+    ...timeline,
+    { id: crypto.randomUUID(), sceneId, kind, stillSeconds: DEFAULT_STILL_SECONDS, transition: timeline.length ? 'crossfade' : 'cut', volume: 1, musicLevel: 1 }
+  ]);
+
+  const addAllVideos = () => onTimelineChange([
+    ...timeline,
+    ...scenes.filter(s => s.videoUrl).map((s, i): TimelineClip => ({
+      id: crypto.randomUUID(),
+      sceneId: s.id,
+      kind: 'video',
+      stillSeconds: DEFAULT_STILL_SECONDS,
+      transition: timeline.length || i ? 'crossfade' : 'cut',
+      volume: 1,
+      musicLevel: 1
+    }))
+  ]);
+
+  const update = (id: string, patch: Partial<TimelineClip>) =>
+    onTimelineChange(timeline.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= timeline.length) return;
+    const next = [...timeline];
+    [next[index], next[target]] = [next[target], next[index]];
+    onTimelineChange(next);
+  };
+
+  const remove = (id: string) => onTimelineChange(timeline.filter(c => c.id !== id));
+
+  const uploadAudio = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const kind: AudioTrackKind = audioTracks.some(t => t.kind === 'music') ? 'voiceover' : 'music';
+      onAudioTracksChange([
+        ...audioTracks,
+        { id: crypto.randomUUID(), name: file.name, kind, src: reader.result as string, offsetSeconds: 0, volume: kind === 'music' ? 0.6 : 1, loop: kind === 'music' }
+      ]);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const updateTrack = (id: string, patch: Partial<AudioTrack>) =>
+    onAudioTracksChange(audioTracks.map(t => t.id === id ? { ...t, ...patch } : t));
+
+  const resolveSources = (): AssemblySource[] => timeline.map(clip => {
+    const scene = scenes.find(s => s.id === clip.sceneId);
+    const src = clip.kind === 'video' ? scene?.videoUrl : scene?.image;
+    if (!src) {
+      throw new GenerationError('ASSEMBLY', `${shotLabel(clip.sceneId)} has no ${clip.kind === 'video' ? 'video' : 'image'} anymore. Remove it from the timeline or render it again.`);
+    }
+    return {
+      kind: clip.kind,
+      src,
+      stillSeconds: clip.stillSeconds,
+      transition: clip.transition,
+      // A scene muted in its card stays muted in the mix
+      volume: scene?.isVideoMuted ? 0 : clip.volume,
+      musicLevel: clip.musicLevel,
+      // Dialogue is spoken by the clip, so stills carry no caption
+      caption: clip.kind === 'video' && scene ? sceneScript(scene) : undefined
+    };
+  });
+
+  const updateCaptionStyle = (patch: Partial<CaptionStyle>) => onCaptionStyleChange({ ...captionStyle, ...patch });
+
+  // Cue times follow the export timeline, using the measured clip lengths
+  const timelineCues = () => {
+    const entries = timeline.map(clip => {
+      const scene = scenes.find(s => s.id === clip.sceneId);
+      return {
+        scene,
+        clip,
+        duration: clip.kind === 'video' && scene ? sceneClipSeconds(scene) : clip.stillSeconds,
+        transition: clip.transition
+      };
+    });
+    const slots = layoutTimeline(entries);
+    return entries.flatMap(({ scene, clip }, i) =>
+      clip.kind === 'video' && scene ? sceneCues(sceneScript(scene), slots[i].duration, slots[i].start) : []);
+  };
+
+  const downloadCues = (format: CaptionFormat) => {
+    const url = URL.createObjectURL(captionFile(timelineCues(), format));
+    onDownload(url, `${projectName || 'ad'}-${aspectRatio.replace(':', 'x')}.${format}`);
+    // The click has started the download by the next tick
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const exportAd = async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setResult(null);
+    setProgress(0);
+    try {
+      const video = await assembleVideo(
+        resolveSources(),
+        { aspectRatio, tracks: audioTracks, captionStyle: burnCaptions ? captionStyle : null },
+        setProgress,
+        controller.signal
+      );
+      setResult(video);
+    } catch (e) {
+      const error = toGenerationError(e);
+      if (!(error instanceof CancelledError)) onError(error);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const cancelExport = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setProgress(null);
+  };
+
+  const exporting = progress !== null;
+  const available = scenes.filter(s => s.image);
+  const hasDialogue = timeline.some(clip => {
+    const scene = scenes.find(s => s.id === clip.sceneId);
+    return clip.kind === 'video' && scene && sceneScript(scene);
+  });
+
+  return (
+    <div className="bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] p-6 md:p-8 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h3 className="text-[13px] font-black uppercase tracking-[0.3em] text-blue-500">Assemble Ad</h3>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-600 mt-1">Stitched in this browser · {aspectRatio} · nothing is uploaded</p>
+        </div>
+        <button
+          onClick={addAllVideos}
+          disabled={!scenes.some(s => s.videoUrl) || exporting}
+          className="border border-white/10 hover:bg-white/5 disabled:opacity-30 px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-400 transition-colors"
+        >
+          <i className="fa-solid fa-layer-group mr-2"></i>Add All Videos
+        </button>
+      </div>
+
+      {/* Source picker */}
+      <div className="flex gap-3 overflow-x-auto pb-2">
+        {available.map(scene => (
+          <div key={scene.id} className="flex-shrink-0 w-24 space-y-1.5">
+            <img src={scene.image!} className="w-24 h-24 object-cover rounded-xl border border-white/5" />
+            <p className="text-[8px] font-black uppercase tracking-widest text-zinc-500 text-center">{shotLabel(scene.id)}</p>
+            <div className="flex gap-1">
+              <button onClick={() => add(scene.id, 'video')} disabled={!scene.videoUrl || exporting} className="flex-1 bg-white/5 hover:bg-blue-600/20 disabled:opacity-20 rounded-md py-1 text-[8px] font-black uppercase text-zinc-400 hover:text-blue-400 transition-colors" title="Add video">
+                <i className="fa-solid fa-film"></i>
+              </button>
+              <button onClick={() => add(scene.id, 'still')} disabled={exporting} className="flex-1 bg-white/5 hover:bg-blue-600/20 disabled:opacity-20 rounded-md py-1 text-[8px] font-black uppercase text-zinc-400 hover:text-blue-400 transition-colors" title="Add still frame">
+                <i className="fa-solid fa-image"></i>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Timeline */}
+      {timeline.length === 0 ? (
+        <p className="text-[10px] text-zinc-600 uppercase tracking-widest text-center py-6 border border-dashed border-white/10 rounded-2xl">
+          Add scene videos or still frames to build the ad
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {timeline.map((clip, i) => {
+            const scene = scenes.find(s => s.id === clip.sceneId);
+            return (
+              <div key={clip.id} className="bg-[#070708] border border-white/5 rounded-xl px-3 py-2 flex items-center gap-3">
+                <span className="text-[9px] font-mono text-zinc-600 w-5 text-right">{i + 1}</span>
+                {scene?.image && <img src={scene.image} className="w-10 h-10 object-cover rounded-lg" />}
+                <div className="flex-1 min-w-0">
+                  <p className="text-[10px] font-bold uppercase tracking-tight">{shotLabel(clip.sceneId)}</p>
+                  <p className="text-[8px] font-black uppercase tracking-widest text-zinc-600">{clip.kind === 'video' ? 'Video' : 'Still'}</p>
+                </div>
+                {clip.kind === 'still' && (
+                  <label className="flex items-center gap-1 text-[9px] text-zinc-500">
+                    <input
+                      type="number"
+                      min={0.5}
+                      max={30}
+                      step={0.5}
+                      value={clip.stillSeconds}
+                      disabled={exporting}
+                      onChange={(e) => update(clip.id, { stillSeconds: Math.min(30, Math.max(0.5, Number(e.target.value) || DEFAULT_STILL_SECONDS)) })}
+                      className="w-14 bg-[#050506] border border-white/10 rounded-lg px-2 py-1.5 text-[10px] outline-none focus:border-blue-600/50"
+                    />
+                    s
+                  </label>
+                )}
+                {clip.kind === 'video' && (
+                  <label className="flex items-center gap-1 text-[9px] text-zinc-500" title={scene?.isVideoMuted ? 'Muted in the shot card' : 'Clip volume'}>
+                    <i className={`fa-solid ${scene?.isVideoMuted ? 'fa-volume-xmark text-amber-400' : 'fa-volume-high'}`}></i>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={clip.volume}
+                      disabled={exporting || scene?.isVideoMuted}
+                      onChange={(e) => update(clip.id, { volume: Number(e.target.value) })}
+                      className="w-16 accent-blue-500 disabled:opacity-30"
+                    />
+                  </label>
+                )}
+                <select
+                  value={clip.musicLevel}
+                  disabled={exporting || !audioTracks.some(t => t.kind === 'music')}
+                  onChange={(e) => update(clip.id, { musicLevel: Number(e.target.value) })}
+                  className={selectClass}
+                  title="Music level while this clip plays"
+                >
+                  {MUSIC_LEVELS.map(level => <option key={level} value={level}>{level === 1 ? 'Music 100%' : level === 0 ? 'Music Off' : `Duck ${percent(level)}`}</option>)}
+                </select>
+                <select
+                  value={i === 0 ? 'cut' : clip.transition}
+                  disabled={i === 0 || exporting}
+                  onChange={(e) => update(clip.id, { transition: e.target.value as TransitionKind })}
+                  className={selectClass}
+                  title="Transition into this clip"
+                >
+                  {(Object.keys(TRANSITIONS) as TransitionKind[]).map(kind => <option key={kind} value={kind}>{TRANSITIONS[kind]}</option>)}
+                </select>
+                <div className="flex">
+                  <button onClick={() => move(i, -1)} disabled={i === 0 || exporting} className="w-7 h-7 rounded-lg hover:bg-white/10 disabled:opacity-20 text-zinc-500 hover:text-white transition-colors" title="Move up">
+                    <i className="fa-solid fa-chevron-up text-[9px]"></i>
+                  </button>
+                  <button onClick={() => move(i, 1)} disabled={i === timeline.length - 1 || exporting} className="w-7 h-7 rounded-lg hover:bg-white/10 disabled:opacity-20 text-zinc-500 hover:text-white transition-colors" title="Move down">
+                    <i className="fa-solid fa-chevron-down text-[9px]"></i>
+                  </button>
+                  <button onClick={() => remove(clip.id)} disabled={exporting} className="w-7 h-7 rounded-lg hover:bg-red-600/20 disabled:opacity-20 text-zinc-500 hover:text-red-400 transition-colors" title="Remove">
+                    <i className="fa-solid fa-xmark text-[9px]"></i>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Audio tracks */}
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500">Audio</p>
+          <label className={`border border-white/10 hover:bg-white/5 px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-400 transition-colors ${exporting ? 'opacity-30 pointer-events-none' : 'cursor-pointer'}`}>
+            <input type="file" accept="audio/*" className="hidden" onChange={uploadAudio} />
+            <i className="fa-solid fa-music mr-2"></i>Add Audio
+          </label>
+        </div>
+        {audioTracks.map(track => (
+          <div key={track.id} className="bg-[#070708] border border-white/5 rounded-xl px-3 py-2 flex flex-wrap items-center gap-3">
+            <i className={`fa-solid ${track.kind === 'music' ? 'fa-music' : 'fa-microphone'} text-blue-400 text-[10px] w-5 text-center`}></i>
+            <p className="flex-1 min-w-[120px] text-[10px] font-bold truncate" title={track.name}>{track.name}</p>
+            <select value={track.kind} disabled={exporting} onChange={(e) => updateTrack(track.id, { kind: e.target.value as AudioTrackKind })} className={selectClass}>
+              {(Object.keys(AUDIO_TRACK_KINDS) as AudioTrackKind[]).map(kind => <option key={kind} value={kind}>{AUDIO_TRACK_KINDS[kind]}</option>)}
+            </select>
+            <label className="flex items-center gap-1 text-[9px] text-zinc-500" title="Start on the ad timeline">
+              at
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={track.offsetSeconds}
+                disabled={exporting}
+                onChange={(e) => updateTrack(track.id, { offsetSeconds: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-14 bg-[#050506] border border-white/10 rounded-lg px-2 py-1.5 text-[10px] outline-none focus:border-blue-600/50"
+              />
+              s
+            </label>
+            <label className="flex items-center gap-1 text-[9px] text-zinc-500" title="Track volume">
+              <i className="fa-solid fa-volume-low"></i>
+              <input type="range" min={0} max={1} step={0.05} value={track.volume} disabled={exporting} onChange={(e) => updateTrack(track.id, { volume: Number(e.target.value) })} className="w-16 accent-blue-500" />
+              <span className="w-8 font-mono">{percent(track.volume)}</span>
+            </label>
+            <label className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-widest text-zinc-500">
+              <input type="checkbox" checked={track.loop} disabled={exporting} onChange={(e) => updateTrack(track.id, { loop: e.target.checked })} className="accent-blue-500" />
+              Loop
+            </label>
+            <button onClick={() => onAudioTracksChange(audioTracks.filter(t => t.id !== track.id))} disabled={exporting} className="w-7 h-7 rounded-lg hover:bg-red-600/20 disabled:opacity-20 text-zinc-500 hover:text-red-400 transition-colors" title="Remove">
+              <i className="fa-solid fa-xmark text-[9px]"></i>
+            </button>
+          </div>
+        ))}
+        {audioTracks.length === 0 && (
+          <p className="text-[9px] text-zinc-600">Upload a licensed music bed or a recorded voiceover. Music ducks per clip using the level next to each clip.</p>
+        )}
+      </div>
+
+      {/* Captions */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <p className="text-[9px] font-black uppercase tracking-widest text-zinc-500">Captions</p>
+          <div className="flex gap-2">
+            {(['srt', 'vtt'] as CaptionFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => downloadCues(format)}
+                disabled={!hasDialogue}
+                className="border border-white/10 hover:bg-white/5 disabled:opacity-30 px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-400 transition-colors"
+              >
+                <i className="fa-solid fa-closed-captioning mr-2"></i>{format}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="bg-[#070708] border border-white/5 rounded-xl px-3 py-2 flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-widest text-zinc-500">
+            <input type="checkbox" checked={burnCaptions} disabled={exporting} onChange={(e) => setBurnCaptions(e.target.checked)} className="accent-blue-500" />
+            Burn In
+          </label>
+          <select value={captionStyle.font} disabled={exporting} onChange={(e) => updateCaptionStyle({ font: e.target.value })} className={selectClass} title="Font">
+            {CAPTION_FONTS.map(font => <option key={font} value={font}>{font}</option>)}
+          </select>
+          <select value={captionStyle.size} disabled={exporting} onChange={(e) => updateCaptionStyle({ size: e.target.value as CaptionSize })} className={selectClass} title="Size">
+            {(['small', 'medium', 'large'] as CaptionSize[]).map(size => <option key={size} value={size}>{size}</option>)}
+          </select>
+          <select value={captionStyle.position} disabled={exporting} onChange={(e) => updateCaptionStyle({ position: e.target.value as CaptionPosition })} className={selectClass} title="Position inside the platform safe zone">
+            {(Object.keys(CAPTION_POSITIONS) as CaptionPosition[]).map(position => <option key={position} value={position}>{CAPTION_POSITIONS[position]}</option>)}
+          </select>
+          <input type="color" value={captionStyle.color} disabled={exporting} onChange={(e) => updateCaptionStyle({ color: e.target.value })} className="w-7 h-7 bg-transparent rounded cursor-pointer" title="Text color" />
+          <label className="flex items-center gap-1 text-[9px] font-bold uppercase tracking-widest text-zinc-500">
+            <input type="checkbox" checked={captionStyle.outline} disabled={exporting} onChange={(e) => updateCaptionStyle({ outline: e.target.checked })} className="accent-blue-500" />
+            Outline
+          </label>
+        </div>
+        {!hasDialogue && (
+          <p className="text-[9px] text-zinc-600">Captions come from each shot's dialogue. Add dialogue to a shot and put its video on the timeline.</p>
+        )}
+      </div>
+
+      {/* Export */}
+      <div className="flex flex-col md:flex-row md:items-center gap-4">
+        {exporting ? (
+          <>
+            <div className="flex-1 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress}%` }}></div>
+            </div>
+            <span className="text-[9px] font-mono text-zinc-500">{progress}% · recording in real time</span>
+            <button onClick={cancelExport} className="border border-red-500/20 hover:bg-red-600/10 px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-widest text-red-400 transition-colors">Cancel</button>
+          </>
+        ) : (
+          <button
+            onClick={exportAd}
+            disabled={timeline.length === 0}
+            className="bg-[#1d4ed8] hover:bg-blue-600 disabled:opacity-20 px-8 py-3 rounded-full text-[10px] font-black uppercase tracking-widest transition-colors"
+          >
+            <i className="fa-solid fa-clapperboard mr-2"></i>Export Ad
+          </button>
+        )}
+      </div>
+
+      {result && !exporting && (
+        <div className="flex flex-col md:flex-row gap-6 items-start">
+          <video src={result.url} controls className="w-full md:w-64 rounded-2xl border border-white/5 bg-black" />
+          <div className="space-y-3">
+            <p className="text-[10px] font-mono text-zinc-500">{result.extension.toUpperCase()} · {result.durationSeconds.toFixed(1)}s · {(result.blob.size / 1024 / 1024).toFixed(1)} MB</p>
+            <button
+              onClick={() => onDownload(result.url, `${projectName || 'ad'}-${aspectRatio.replace(':', 'x')}.${result.extension}`)}
+              className="bg-blue-600/10 border border-blue-500/20 hover:bg-blue-600/30 px-6 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest text-blue-400 transition-colors"
+            >
+              <i className="fa-solid fa-download mr-2"></i>Download
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
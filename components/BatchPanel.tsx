@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { detectCategory, ProductCategory } from '../services/categories.ts';
+import { cellCount, getGridLayout } from '../services/gridLayout.ts';
+import { GenerationError } from '../services/errors.ts';
+import { blobToDataUrl } from '../services/projectFile.ts';
+import {
+  addBatchProducts,
+  BATCH_STATUS_LABELS,
+  batchBranding,
+  BatchItem,
+  BatchSettings,
+  BatchStatus,
+  cancelBatch,
+  clearBatch,
+  getBatchSettings,
+  isBatchItemActive,
+  listBatchItems,
+  pickBatchCandidate,
+  removeBatchItem,
+  retryBatchItems,
+  runBatch,
+  subscribeBatch,
+  updateBatchItem
+} from '../services/batch.ts';
+import { CatalogImport } from './CatalogImport.tsx';
+
+const STATUS_STYLE: Record<BatchStatus, string> = {
+  queued: 'text-zinc-500 border-white/10',
+  refining: 'text-blue-400 border-blue-500/30',
+  grid: 'text-blue-400 border-blue-500/30',
+  extracting: 'text-blue-400 border-blue-500/30',
+  done: 'text-emerald-400 border-emerald-500/30',
+  failed: 'text-red-400 border-red-500/30',
+  cancelled: 'text-amber-400 border-amber-500/30'
+};
+
+// Batch campaign dashboard: one model, many products, each run through
+// refinement, grid and extraction. `shared` comes from the open project.
+export const BatchPanel: React.FC<{
+  model: Pick<BatchSettings, 'modelImage' | 'persona'> | null;
+  shared: Omit<BatchSettings, 'modelImage' | 'persona'>;
+  categories: ProductCategory[];
+  onOpen: (item: BatchItem, settings: BatchSettings) => void;
+  onError: (error: GenerationError) => void;
+  onClose: () => void;
+}> = ({ model: projectModel, shared, categories, onOpen, onError, onClose }) => {
+  const [items, setItems] = useState<BatchItem[]>(listBatchItems);
+  const [model, setModel] = useState<Pick<BatchSettings, 'modelImage' | 'persona'> | null>(() => getBatchSettings() ?? projectModel);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => subscribeBatch(() => setItems(listBatchItems())), []);
+
+  const shotCount = cellCount(getGridLayout(shared.gridLayout));
+  const running = items.some(isBatchItemActive);
+  const queued = items.filter(i => i.status === 'queued' || i.status === 'cancelled').length;
+  const failed = items.filter(i => i.status === 'failed');
+  const done = items.filter(i => i.status === 'done').length;
+
+  const addProducts = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const products = await Promise.all(files.map(async file => ({ name: file.name.replace(/\.[^.]+$/, ''), image: await blobToDataUrl(file) })));
+    addBatchProducts(products);
+  };
+
+  const changeModel = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setModel({ modelImage: await blobToDataUrl(file), persona: null });
+  };
+
+  const start = () => {
+    if (model) runBatch({ ...shared, modelImage: model.modelImage, persona: model.persona });
+  };
+
+  const remove = (item: BatchItem) => {
+    if (!isBatchItemActive(item) || confirm(`"${item.name}" is still running. Remove it anyway?`)) removeBatchItem(item.id);
+  };
+
+  const clearAll = () => {
+    if (confirm('Remove every product from the batch? Results not opened as a project are lost.')) clearBatch();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[250] bg-black/90 backdrop-blur-2xl flex items-start justify-center p-4 overflow-y-auto animate-in">
+      <div className="bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] w-full max-w-6xl p-6 md:p-10 shadow-2xl space-y-8 relative">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h2 className="text-2xl font-black uppercase tracking-tighter italic">Batch <span className="text-[#4dabf7] not-italic">Campaign</span></h2>
+            <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-zinc-600 mt-1">One model · many products · {shared.aspectRatio} · {shared.gridLayout} grid</p>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 rounded-full border border-white/10 hover:bg-white/10 flex items-center justify-center transition-colors" title="Close (the batch keeps running)">
+            <i className="fa-solid fa-xmark text-zinc-400"></i>
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          <label className="relative w-32 aspect-[3/4] flex-shrink-0 bg-[#050506] border border-white/5 rounded-2xl overflow-hidden cursor-pointer hover:border-blue-500/40 transition-colors group" title="Model used for every product">
+            <input type="file" accept="image/*" className="hidden" disabled={running} onChange={changeModel} />
+            {model
+              ? <img src={model.modelImage} className="w-full h-full object-cover" />
+              : <div className="w-full h-full flex items-center justify-center"><i className="fa-solid fa-user text-zinc-700"></i></div>}
+            <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[8px] font-black uppercase tracking-widest text-center py-1 group-hover:text-blue-400 truncate px-1">{model?.persona?.name ?? 'Model'}</span>
+          </label>
+          <div className="flex-1 space-y-3">
+            <p className="text-[9px] text-zinc-500 leading-relaxed">
+              Style "{shared.stylePrompt || 'Cinematic'}"{shared.brandingText && `, branding "${shared.brandingText}"`}, output format and grid layout come from the open project.
+              Each product is tracked as its own project in Usage and opens as one.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <label className="px-5 py-2.5 rounded-full border border-white/10 hover:bg-white/10 text-[10px] font-black uppercase tracking-widest cursor-pointer transition-colors">
+                <i className="fa-solid fa-plus mr-2"></i>Add Products
+                <input type="file" accept="image/*" multiple className="hidden" onChange={addProducts} />
+              </label>
+              <button onClick={() => setImporting(true)} disabled={importing} className="px-5 py-2.5 rounded-full border border-white/10 hover:bg-white/10 disabled:opacity-20 text-[10px] font-black uppercase tracking-widest transition-colors">
+                <i className="fa-solid fa-file-csv mr-2"></i>Import Catalog
+              </button>
+              {running ? (
+                <button onClick={cancelBatch} className="px-5 py-2.5 rounded-full border border-red-500/30 text-red-400 hover:bg-red-600/20 text-[10px] font-black uppercase tracking-widest transition-colors">
+                  <i className="fa-solid fa-stop mr-2"></i>Cancel
+                </button>
+              ) : (
+                <button onClick={start} disabled={!model || queued === 0} className="px-5 py-2.5 rounded-full bg-[#1d4ed8] hover:bg-blue-600 disabled:opacity-20 text-[10px] font-black uppercase tracking-widest transition-colors">
+                  <i className="fa-solid fa-play mr-2"></i>Run {queued} Product{queued === 1 ? '' : 's'}
+                </button>
+              )}
+              <button onClick={() => retryBatchItems(failed.map(i => i.id))} disabled={failed.length === 0} className="px-5 py-2.5 rounded-full border border-white/10 hover:bg-white/10 disabled:opacity-20 text-[10px] font-black uppercase tracking-widest transition-colors">
+                <i className="fa-solid fa-rotate-right mr-2"></i>Retry Failed ({failed.length})
+              </button>
+              <button onClick={clearAll} disabled={items.length === 0} className="px-5 py-2.5 rounded-full text-zinc-600 hover:text-red-400 disabled:opacity-20 text-[10px] font-black uppercase tracking-widest transition-colors">
+                Clear
+              </button>
+            </div>
+            {items.length > 0 && (
+              <p className="text-[9px] font-mono text-zinc-500">{done}/{items.length} done · {failed.length} failed</p>
+            )}
+          </div>
+        </div>
+
+        {importing && <CatalogImport categories={categories} onError={onError} onDone={() => setImporting(false)} />}
+
+        {items.length === 0 ? (
+          <p className="text-[10px] uppercase tracking-widest text-zinc-600 text-center py-10">Add product photos to start a batch</p>
+        ) : (
+          <div className="space-y-3">
+            {items.map(item => {
+              const active = isBatchItemActive(item);
+              const detected = detectCategory(`${item.promptInstruction} ${batchBranding(item, shared) || ""}`);
+              return (
+                <div key={item.id} className="bg-[#070708] border border-white/5 rounded-2xl p-4 flex flex-col lg:flex-row gap-4">
+                  <div className="flex gap-3 lg:w-80 flex-shrink-0">
+                    <img src={item.productImage} className="w-16 h-16 rounded-xl object-cover flex-shrink-0" />
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input
+                          value={item.name}
+                          disabled={active}
+                          onChange={(e) => updateBatchItem(item.id, { name: e.target.value })}
+                          className="flex-1 min-w-0 bg-transparent text-[11px] font-bold uppercase tracking-tight outline-none border-b border-transparent focus:border-blue-600/50"
+                        />
+                        <span className={`px-2 py-0.5 rounded-full border text-[8px] font-black uppercase tracking-widest flex-shrink-0 ${STATUS_STYLE[item.status]}`}>
+                          {active && <i className="fa-solid fa-circle-notch fa-spin mr-1"></i>}
+                          {BATCH_STATUS_LABELS[item.status]}{item.status === 'extracting' && ` ${item.scenes.length}/${shotCount}`}
+                        </span>
+                      </div>
+                      <select
+                        value={item.categoryOverride ?? ''}
+                        disabled={active}
+                        onChange={(e) => updateBatchItem(item.id, { categoryOverride: e.target.value || null })}
+                        className="w-full bg-[#050506] border border-white/10 rounded-lg px-2 py-1.5 text-[9px] font-bold uppercase tracking-wider outline-none"
+                      >
+                        <option value="">Auto · {detected.label}</option>
+                        {categories.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                      </select>
+                      {(item.sku || item.stylePrompt || item.brandingText) && (
+                        <p className="text-[8px] font-bold uppercase tracking-widest text-zinc-600 truncate">
+                          {[item.sku, item.stylePrompt, item.brandingText && `"${item.brandingText}"`].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                      {item.error && <p className="text-[9px] text-red-400 leading-snug">{item.error}</p>}
+                    </div>
+                  </div>
+
+                  <textarea
+                    value={item.promptInstruction}
+                    disabled={active}
+                    onChange={(e) => updateBatchItem(item.id, { promptInstruction: e.target.value })}
+                    placeholder="How the model should interact with this product..."
+                    className="flex-1 min-w-0 bg-[#050506] text-[11px] font-mono text-blue-200/80 rounded-xl p-3 border border-white/10 outline-none focus:border-blue-600/50 h-16 resize-none placeholder:text-zinc-700/50"
+                  />
+
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {item.candidates.map((candidate, i) => (
+                      <button
+                        key={i}
+                        onClick={() => pickBatchCandidate(item.id, candidate)}
+                        disabled={active || !getBatchSettings()}
+                        className={`w-12 h-16 rounded-lg overflow-hidden border-2 transition-colors ${candidate === item.combinedImage ? 'border-blue-500' : 'border-transparent opacity-50 hover:opacity-100'}`}
+                        title={candidate === item.combinedImage ? 'Grid built from this candidate' : 'Use this candidate (rebuilds the grid)'}
+                      >
+                        <img src={candidate} className="w-full h-full object-cover" />
+                      </button>
+                    ))}
+                    {item.storyboardGrid && <img src={item.storyboardGrid} className="w-16 h-16 rounded-lg object-cover border border-white/5" title="Storyboard grid" />}
+                  </div>
+
+                  <div className="flex lg:flex-col items-center justify-end gap-2 flex-shrink-0">
+                    {(item.status === 'failed' || item.status === 'cancelled') && (
+                      <button onClick={() => retryBatchItems([item.id])} disabled={!getBatchSettings()} className="px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 disabled:opacity-20 text-[9px] font-black uppercase tracking-widest transition-colors" title={item.error ?? undefined}>
+                        Retry
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onOpen(item, getBatchSettings()!)}
+                      disabled={active || !item.combinedImage}
+                      className="px-4 py-2 rounded-full bg-blue-600/20 hover:bg-blue-600 text-blue-300 hover:text-white disabled:opacity-20 disabled:hover:bg-blue-600/20 text-[9px] font-black uppercase tracking-widest transition-colors"
+                      title="Continue this product as the open project"
+                    >
+                      Open
+                    </button>
+                    <button onClick={() => remove(item)} className="w-8 h-8 rounded-lg hover:bg-red-600/20 text-zinc-600 hover:text-red-400 transition-colors" title="Remove">
+                      <i className="fa-solid fa-trash text-[10px]"></i>
+                    </button>
+                  </div>
+
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
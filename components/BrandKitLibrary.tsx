@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import { GenerationError, toGenerationError } from '../services/errors.ts';
+import { blobToDataUrl } from '../services/projectFile.ts';
+import { BACKGROUND_PRESETS, FONT_OPTIONS, PLACEMENT_OPTIONS } from '../services/stylePresets.ts';
+import {
+  BrandKit,
+  BrandSettings,
+  deleteBrandKit,
+  listBrandKits,
+  MAX_BRAND_COLORS,
+  newBrandKit,
+  saveBrandKit,
+  subscribeBrandKits
+} from '../services/brandKits.ts';
+
+type KitImage = 'logo' | 'backgroundRef' | 'lightingRef';
+
+const KIT_IMAGES: { field: KitImage; label: string; hint: string }[] = [
+  { field: 'logo', label: 'Logo', hint: 'Used wherever the brand appears' },
+  { field: 'backgroundRef', label: 'Background Ref', hint: 'Set / location to match' },
+  { field: 'lightingRef', label: 'Lighting Ref', hint: 'Light to match' }
+];
+
+const fieldClass = "w-full bg-[#050506] border border-white/10 rounded-full px-5 py-3 text-[11px] font-bold tracking-widest outline-none focus:border-blue-600/50 placeholder:text-zinc-800";
+
+const BrandKitEditor: React.FC<{
+  initial: BrandKit;
+  isNew: boolean;
+  onSave: (kit: BrandKit) => Promise<void>;
+  onDelete: () => Promise<void>;
+  onClose: () => void;
+}> = ({ initial, isNew, onSave, onDelete, onClose }) => {
+  const [kit, setKit] = useState(initial);
+  const [busy, setBusy] = useState(false);
+
+  const patch = (update: Partial<BrandKit>) => setKit(prev => ({ ...prev, ...update }));
+
+  const pickImage = async (field: KitImage, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) patch({ [field]: await blobToDataUrl(file) });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[250] bg-black/90 backdrop-blur-2xl flex items-start md:items-center justify-center p-4 overflow-y-auto animate-in">
+      <div className="bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] w-full max-w-2xl p-6 md:p-10 shadow-2xl space-y-6 relative">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h2 className="text-2xl font-black uppercase tracking-tighter italic">Brand <span className="text-[#4dabf7] not-italic">Kit</span></h2>
+            <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-zinc-600 mt-1">Style, type and brand assets applied in one click</p>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 rounded-full border border-white/10 hover:bg-white/10 flex items-center justify-center transition-colors" title="Close">
+            <i className="fa-solid fa-xmark text-zinc-400"></i>
+          </button>
+        </div>
+
+        <input value={kit.name} onChange={(e) => patch({ name: e.target.value })} placeholder="Kit name, e.g. ALANA Summer" className={fieldClass} />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 ml-3">Neon Brand Text</label>
+            <input value={kit.neonText} onChange={(e) => patch({ neonText: e.target.value })} placeholder="Empty = no text" className={fieldClass} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 ml-3">Background / Atmosphere</label>
+            <input value={kit.background} onChange={(e) => patch({ background: e.target.value })} list="brand-kit-backgrounds" className={fieldClass} />
+            <datalist id="brand-kit-backgrounds">
+              {BACKGROUND_PRESETS.map(bg => <option key={bg} value={bg} />)}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <label className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 ml-3">Font Style</label>
+            <select value={kit.fontStyle} onChange={(e) => patch({ fontStyle: e.target.value })} className={`${fieldClass} cursor-pointer appearance-none`}>
+              {FONT_OPTIONS.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-[9px] font-bold uppercase tracking-widest text-zinc-600 ml-3">Text Placement</label>
+            <select value={kit.textPlacement} onChange={(e) => patch({ textPlacement: e.target.value })} className={`${fieldClass} cursor-pointer appearance-none`}>
+              {PLACEMENT_OPTIONS.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">Brand Images</h3>
+          <div className="grid grid-cols-3 gap-3">
+            {KIT_IMAGES.map(({ field, label, hint }) => (
+              <div key={field} className="space-y-1.5">
+                <label className="relative block aspect-square rounded-xl overflow-hidden bg-[#050506] border border-white/5 hover:border-blue-500/40 cursor-pointer transition-colors group" title={hint}>
+                  <input type="file" accept="image/*" className="hidden" onChange={(e) => pickImage(field, e)} />
+                  {kit[field] ? (
+                    <img src={kit[field]!} className={`w-full h-full ${field === 'logo' ? 'object-contain p-3' : 'object-cover'}`} />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center opacity-40 group-hover:opacity-100 transition-opacity">
+                      <i className="fa-solid fa-plus text-zinc-400"></i>
+                    </div>
+                  )}
+                  {kit[field] && (
+                    <button
+                      onClick={(e) => { e.preventDefault(); patch({ [field]: null }); }}
+                      className="absolute top-1.5 right-1.5 w-6 h-6 rounded-full bg-black/70 text-zinc-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title={`Remove ${label.toLowerCase()}`}
+                    >
+                      <i className="fa-solid fa-xmark text-[9px]"></i>
+                    </button>
+                  )}
+                </label>
+                <p className="text-[9px] font-black uppercase tracking-wider text-zinc-500 text-center">{label}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">Brand Colors</h3>
+            {kit.colors.length < MAX_BRAND_COLORS && (
+              <button onClick={() => patch({ colors: [...kit.colors, '#ffffff'] })} className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">
+                <i className="fa-solid fa-plus mr-1.5"></i>Add Color
+              </button>
+            )}
+          </div>
+          {kit.colors.length === 0 ? (
+            <p className="text-[9px] text-zinc-600 uppercase tracking-widest">No brand colors</p>
+          ) : (
+            <div className="flex flex-wrap gap-3">
+              {kit.colors.map((color, i) => (
+                <div key={i} className="flex items-center gap-2 bg-[#050506] border border-white/10 rounded-full pl-1.5 pr-3 py-1.5">
+                  <input
+                    type="color"
+                    value={color}
+                    onChange={(e) => patch({ colors: kit.colors.map((c, j) => j === i ? e.target.value : c) })}
+                    className="w-6 h-6 rounded-full bg-transparent cursor-pointer"
+                  />
+                  <span className="text-[9px] font-mono text-zinc-400">{color}</span>
+                  <button onClick={() => patch({ colors: kit.colors.filter((_, j) => j !== i) })} className="text-zinc-600 hover:text-red-400 transition-colors" title="Remove color">
+                    <i className="fa-solid fa-xmark text-[9px]"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          {!isNew && (
+            <button
+              onClick={() => confirm(`Delete brand kit "${initial.name}"? Projects using it keep their copy.`) && run(onDelete)}
+              disabled={busy}
+              className="px-6 py-3 rounded-full border border-red-500/30 text-red-400 hover:bg-red-600/20 disabled:opacity-30 text-[10px] font-black uppercase tracking-widest transition-colors"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={() => run(() => onSave({ ...kit, name: kit.name.trim() }))}
+            disabled={busy || !kit.name.trim()}
+            className="flex-1 bg-[#1d4ed8] hover:bg-blue-600 disabled:opacity-20 py-3 rounded-full text-[10px] font-black uppercase tracking-widest transition-colors"
+          >
+            Save Brand Kit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// REFINE step: saved brand kits. Applying one sets the creative direction and
+// sends the kit's logo, colors and reference photos with branding and the grid.
+export const BrandKitLibrary: React.FC<{
+  selected: BrandKit | null;
+  settings: BrandSettings;
+  onApply: (kit: BrandKit | null) => void;
+  onError: (error: GenerationError) => void;
+}> = ({ selected, settings, onApply, onError }) => {
+  const [kits, setKits] = useState<BrandKit[]>([]);
+  const [editing, setEditing] = useState<{ kit: BrandKit; isNew: boolean; apply?: boolean } | null>(null);
+
+  useEffect(() => {
+    const refresh = () => { void listBrandKits().then(setKits); };
+    refresh();
+    return subscribeBrandKits(refresh);
+  }, []);
+
+  const save = async (kit: BrandKit) => {
+    try {
+      const saved = await saveBrandKit(kit);
+      // The open project picks up edits to its kit
+      if (selected?.id === saved.id || editing?.apply) onApply(saved);
+      setEditing(null);
+    } catch (e) {
+      onError(toGenerationError(e));
+    }
+  };
+
+  const remove = async (kit: BrandKit) => {
+    try {
+      await deleteBrandKit(kit.id);
+      setEditing(null);
+    } catch (e) {
+      onError(toGenerationError(e));
+    }
+  };
+
+  return (
+    <div className="bg-[#050506] border border-white/5 rounded-[2rem] px-5 py-4 mb-8 space-y-3">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-600">Brand Kits</p>
+          <p className="text-[12px] font-black uppercase tracking-tight mt-1">{selected ? selected.name : 'No kit applied'}</p>
+        </div>
+        <button
+          onClick={() => setEditing({ kit: newBrandKit(settings), isNew: true, apply: true })}
+          className="px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 text-[9px] font-black uppercase tracking-widest transition-colors"
+          title="Start a kit from the settings below"
+        >
+          <i className="fa-solid fa-plus mr-1.5"></i>Save Current as Kit
+        </button>
+      </div>
+
+      {kits.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {kits.map(kit => {
+            const active = selected?.id === kit.id;
+            return (
+              <div key={kit.id} className={`flex-shrink-0 flex items-center gap-2 rounded-full border pl-1.5 pr-3 py-1.5 transition-colors ${active ? 'border-blue-500 bg-blue-600/10' : 'border-white/10 hover:border-white/20'}`}>
+                <button onClick={() => onApply(active ? null : kit)} className="flex items-center gap-2" title={active ? 'Stop sending this kit\'s brand images' : `Apply ${kit.name}`}>
+                  <div className="w-7 h-7 rounded-full overflow-hidden bg-[#0c0c0e] flex items-center justify-center">
+                    {kit.logo ? <img src={kit.logo} className="w-full h-full object-contain" /> : <i className="fa-solid fa-swatchbook text-[10px] text-zinc-600"></i>}
+                  </div>
+                  <span className="text-[9px] font-black uppercase tracking-wider">{kit.name}</span>
+                  <span className="flex -space-x-1">
+                    {kit.colors.map((color, i) => <span key={i} className="w-3 h-3 rounded-full border border-black" style={{ backgroundColor: color }} />)}
+                  </span>
+                </button>
+                <button onClick={() => setEditing({ kit, isNew: false })} className="text-zinc-600 hover:text-white transition-colors" title="Edit kit">
+                  <i className="fa-solid fa-pen text-[9px]"></i>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editing && (
+        <BrandKitEditor
+          initial={editing.kit}
+          isNew={editing.isNew}
+          onSave={save}
+          onDelete={() => remove(editing.kit)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { ProductCategory } from '../services/categories.ts';
+import { GenerationError, toGenerationError } from '../services/errors.ts';
+import { CATALOG_COLUMNS, CatalogRow, importCatalog } from '../services/catalog.ts';
+import { addBatchProducts } from '../services/batch.ts';
+
+// Directory picking isn't in React's input typings.
+const folderInputProps = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+const pickerClass = "px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 text-[9px] font-black uppercase tracking-widest cursor-pointer transition-colors";
+
+// Batch dashboard: checks a CSV / JSON catalog against the picked images and
+// adds the rows that pass as batch products.
+export const CatalogImport: React.FC<{
+  categories: ProductCategory[];
+  onError: (error: GenerationError) => void;
+  onDone: () => void;
+}> = ({ categories, onError, onDone }) => {
+  const [catalog, setCatalog] = useState<File | null>(null);
+  const [images, setImages] = useState<File[]>([]);
+  const [rows, setRows] = useState<CatalogRow[] | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const valid = rows?.filter(r => r.product) ?? [];
+  const invalid = rows?.filter(r => !r.product) ?? [];
+
+  const pickImages = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    setImages(prev => [...prev, ...files]);
+    setRows(null);
+  };
+
+  const check = async () => {
+    if (!catalog) return;
+    setChecking(true);
+    try {
+      setRows(await importCatalog(catalog, images, categories));
+    } catch (e) {
+      setRows(null);
+      onError(toGenerationError(e));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const add = () => {
+    addBatchProducts(valid.map(r => r.product!));
+    onDone();
+  };
+
+  return (
+    <div className="bg-[#070708] border border-white/5 rounded-2xl p-5 space-y-4">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">Import Catalog</h3>
+          <p className="text-[9px] text-zinc-600 mt-1">CSV or JSON with columns <span className="font-mono text-zinc-400">{CATALOG_COLUMNS.join(', ')}</span> · only image is required</p>
+        </div>
+        <button onClick={onDone} className="text-[9px] font-black uppercase tracking-widest text-zinc-600 hover:text-white transition-colors">Cancel</button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className={pickerClass}>
+          <i className="fa-solid fa-table mr-2"></i>{catalog ? catalog.name : 'Catalog File'}
+          <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={(e) => { setCatalog(e.target.files?.[0] ?? null); e.target.value = ''; setRows(null); }} />
+        </label>
+        <label className={pickerClass}>
+          <i className="fa-solid fa-folder-open mr-2"></i>Images Folder
+          <input type="file" className="hidden" onChange={pickImages} {...folderInputProps} />
+        </label>
+        <label className={pickerClass}>
+          <i className="fa-solid fa-images mr-2"></i>Image Files
+          <input type="file" accept="image/*" multiple className="hidden" onChange={pickImages} />
+        </label>
+        {images.length > 0 && (
+          <button onClick={() => { setImages([]); setRows(null); }} className="text-[9px] font-mono text-zinc-500 hover:text-red-400 transition-colors" title="Clear picked images">
+            {images.length} files <i className="fa-solid fa-xmark ml-1"></i>
+          </button>
+        )}
+        <button onClick={check} disabled={!catalog || checking} className="ml-auto px-5 py-2 rounded-full bg-blue-600/20 hover:bg-blue-600 text-blue-300 hover:text-white disabled:opacity-20 text-[9px] font-black uppercase tracking-widest transition-colors">
+          {checking ? <i className="fa-solid fa-circle-notch fa-spin"></i> : 'Check Catalog'}
+        </button>
+      </div>
+
+      {rows && (
+        <div className="space-y-3">
+          <p className="text-[9px] font-mono text-zinc-500">{valid.length} ready · {invalid.length} with errors</p>
+          {invalid.length > 0 && (
+            <div className="max-h-48 overflow-y-auto border border-red-500/20 rounded-xl divide-y divide-white/5">
+              {invalid.flatMap(r => r.issues).map((issue, i) => (
+                <div key={i} className="flex gap-3 px-3 py-2 text-[9px]">
+                  <span className="font-mono text-zinc-500 w-12 flex-shrink-0">Row {issue.row}</span>
+                  <span className="font-black uppercase tracking-widest text-red-400 w-20 flex-shrink-0">{issue.field ?? ''}</span>
+                  <span className="text-zinc-400">{issue.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <button onClick={add} disabled={valid.length === 0} className="w-full bg-[#1d4ed8] hover:bg-blue-600 disabled:opacity-20 py-3 rounded-full text-[10px] font-black uppercase tracking-widest transition-colors">
+            Add {valid.length} Product{valid.length === 1 ? '' : 's'} to Batch{invalid.length > 0 && ` · Skip ${invalid.length}`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import {
+  CategoryShot,
+  deleteCustomCategory,
+  listCategories,
+  ProductCategory,
+  saveCustomCategory,
+  subscribeCategories,
+  toCategoryId
+} from '../services/categories.ts';
+
+const emptyShots = (count: number): CategoryShot[] => Array.from({ length: count }, () => ({ title: '', text: '' }));
+
+const blankCategory = (): ProductCategory => ({
+  id: '',
+  label: '',
+  keywords: [],
+  priority: 20,
+  strategy: '',
+  shots: emptyShots(3)
+});
+
+const inputClass = "w-full bg-[#050506] border border-white/10 rounded-xl px-4 py-2.5 text-[11px] outline-none focus:border-blue-600/50 transition-colors placeholder:text-zinc-700";
+
+export const CategoryEditor: React.FC = () => {
+  const [categories, setCategories] = useState<ProductCategory[]>(listCategories());
+  const [draft, setDraft] = useState<ProductCategory | null>(null);
+  const [keywordText, setKeywordText] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => subscribeCategories(() => setCategories(listCategories())), []);
+
+  const edit = (category: ProductCategory, asCopy = false) => {
+    setDraft(asCopy
+      ? { ...category, id: '', label: `${category.label} (Copy)`, builtin: false, shots: category.shots.map(s => ({ ...s })) }
+      : { ...category, shots: category.shots.map(s => ({ ...s })) });
+    setKeywordText(category.keywords.join(', '));
+    setError('');
+  };
+
+  const setShotCount = (count: number) => {
+    if (!draft) return;
+    const shots = count === 9
+      // Expand each row into three cells so the existing wording isn't lost
+      ? draft.shots.length === 3 ? draft.shots.flatMap(s => [0, 1, 2].map(() => ({ ...s }))) : emptyShots(9)
+      : draft.shots.length === 9 ? [0, 3, 6].map(i => ({ ...draft.shots[i] })) : emptyShots(3);
+    setDraft({ ...draft, shots });
+  };
+
+  const updateShot = (index: number, patch: Partial<CategoryShot>) => {
+    if (!draft) return;
+    setDraft({ ...draft, shots: draft.shots.map((s, i) => i === index ? { ...s, ...patch } : s) });
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const category: ProductCategory = {
+      ...draft,
+      id: draft.id || toCategoryId(draft.label),
+      keywords: keywordText.split(',').map(k => k.trim()).filter(Boolean),
+      shots: draft.shots.map(s => ({ title: s.title?.trim() || undefined, text: s.text.trim() }))
+    };
+    if (!draft.id && categories.some(c => c.id === category.id)) {
+      setError(`A category with the id ${category.id} already exists.`);
+      return;
+    }
+    try {
+      saveCustomCategory(category);
+      setDraft(null);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const remove = (category: ProductCategory) => {
+    if (confirm(`Delete the category "${category.label}"?`)) deleteCustomCategory(category.id);
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_120px] gap-3">
+          <label className="space-y-1">
+            <span className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">Name</span>
+            <input value={draft.label} onChange={(e) => setDraft({ ...draft, label: e.target.value })} placeholder="e.g. Pet Supplies" className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <span className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">Priority</span>
+            <input type="number" value={draft.priority} onChange={(e) => setDraft({ ...draft, priority: Number(e.target.value) || 0 })} className={inputClass} />
+          </label>
+        </div>
+        <label className="space-y-1 block">
+          <span className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">Keywords (comma separated, any language)</span>
+          <textarea value={keywordText} onChange={(e) => setKeywordText(e.target.value)} rows={2} placeholder="pet, hewan, kucing, cat food, dog" className={`${inputClass} resize-none`} />
+        </label>
+        <label className="space-y-1 block">
+          <span className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">Campaign Strategy</span>
+          <input value={draft.strategy} onChange={(e) => setDraft({ ...draft, strategy: e.target.value })} placeholder="PET PRODUCT CAMPAIGN (FOCUS ON ...)." className={inputClass} />
+        </label>
+
+        <div className="flex items-center justify-between">
+          <span className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">Shot List</span>
+          <div className="flex bg-[#050506] border border-white/5 rounded-full p-1">
+            {[3, 9].map(count => (
+              <button key={count} onClick={() => setShotCount(count)} className={`px-3 py-1 rounded-full text-[8px] font-black uppercase tracking-widest transition-colors ${draft.shots.length === count ? 'bg-blue-600 text-white' : 'text-zinc-500 hover:text-white'}`}>
+                {count === 3 ? '3 Rows' : '9 Cells'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2 max-h-[32vh] overflow-y-auto pr-1">
+          {draft.shots.map((shot, i) => (
+            <div key={i} className="grid grid-cols-[64px_140px_1fr] gap-2 items-center">
+              <span className="text-[9px] font-mono text-zinc-600">{draft.shots.length === 9 ? 'Cell' : 'Row'} {i + 1}</span>
+              <input value={shot.title ?? ''} onChange={(e) => updateShot(i, { title: e.target.value })} placeholder="TITLE" className={inputClass} />
+              <input value={shot.text} onChange={(e) => updateShot(i, { text: e.target.value })} placeholder="What this shot shows" className={inputClass} />
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="text-[9px] font-bold uppercase tracking-widest text-red-400">{error}</p>}
+        <div className="flex gap-2">
+          <button onClick={save} className="bg-[#1d4ed8] hover:bg-blue-600 px-6 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-colors">Save Category</button>
+          <button onClick={() => setDraft(null)} className="border border-white/10 hover:bg-white/5 px-6 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-400 transition-colors">Cancel</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center gap-4">
+        <p className="text-[9px] text-zinc-500 leading-relaxed">Checked top to bottom; the first category with a matching keyword shapes the storyboard. Built-ins can be copied, not edited.</p>
+        <button onClick={() => edit(blankCategory())} className="bg-[#1d4ed8] hover:bg-blue-600 px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-widest transition-colors flex-shrink-0">
+          <i className="fa-solid fa-plus mr-2"></i>New
+        </button>
+      </div>
+      <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+        {categories.map(c => (
+          <div key={c.id} className="bg-[#070708] border border-white/5 rounded-xl px-4 py-3 flex items-center gap-4">
+            <span className="text-[9px] font-mono text-zinc-600 w-8 text-right">{c.priority}</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] font-bold uppercase tracking-tight">
+                {c.label} {!c.builtin && <span className="text-[8px] text-amber-400 ml-1">Custom</span>}
+              </p>
+              <p className="text-[9px] text-zinc-600 truncate">{c.keywords.join(', ') || 'Manual only'} · {c.shots.length === 9 ? '9 cells' : '3 rows'}</p>
+            </div>
+            {c.builtin ? (
+              <button onClick={() => edit(c, true)} className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">Copy</button>
+            ) : (
+              <>
+                <button onClick={() => edit(c)} className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">Edit</button>
+                <button onClick={() => remove(c)} className="text-[9px] font-black uppercase tracking-widest text-red-500/70 hover:text-red-400 transition-colors">Delete</button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
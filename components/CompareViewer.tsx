@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export interface CompareImage {
+  id: string;
+  label: string;
+  image: string;
+}
+
+type CompareMode = 'split' | 'side' | 'flicker';
+
+const COMPARE_MODES: Record<CompareMode, string> = {
+  split: 'Split',
+  side: 'Side by Side',
+  flicker: 'Flicker'
+};
+
+interface View {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const RESET_VIEW: View = { scale: 1, x: 0, y: 0 };
+const MAX_SCALE = 8;
+const FLICKER_MS = 600;
+
+const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(1, scale));
+
+// Both images sit in the same box with the same zoom / pan, so any pixel lines
+// up with the same pixel of the other image.
+const Layer: React.FC<{ image: string; view: View; style?: React.CSSProperties }> = ({ image, view, style }) => (
+  <img
+    src={image}
+    draggable={false}
+    className="absolute inset-0 w-full h-full object-contain select-none"
+    style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`, ...style }}
+  />
+);
+
+// Before / after split with a draggable divider; used inline in the scene card.
+export const SplitCompare: React.FC<{ before: string; after: string; view?: View; className?: string; style?: React.CSSProperties }> = ({ before, after, view = RESET_VIEW, className, style }) => {
+  const [position, setPosition] = useState(50);
+  return (
+    <div className={`relative overflow-hidden bg-black ${className ?? ''}`} style={style}>
+      <Layer image={after} view={view} />
+      <Layer image={before} view={view} style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }} />
+      <div className="absolute inset-y-0 w-px bg-white/80 pointer-events-none shadow-[0_0_8px_rgba(0,0,0,0.8)]" style={{ left: `${position}%` }}></div>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="absolute bottom-16 left-1/2 -translate-x-1/2 w-2/3 accent-blue-500 z-10"
+        title="Drag to compare"
+      />
+    </div>
+  );
+};
+
+// Full-screen comparison of a scene against an earlier version or the master
+// reference, with synchronized zoom (wheel / buttons) and pan (drag).
+export const CompareViewer: React.FC<{
+  title: string;
+  current: CompareImage;
+  baselines: CompareImage[];
+  onClose: () => void;
+}> = ({ title, current, baselines, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('split');
+  const [baselineId, setBaselineId] = useState(baselines[0]?.id);
+  const [view, setView] = useState<View>(RESET_VIEW);
+  const [flickerOn, setFlickerOn] = useState(true);
+  const [showBaseline, setShowBaseline] = useState(false);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const baseline = baselines.find(b => b.id === baselineId) ?? baselines[0];
+
+  useEffect(() => {
+    if (mode !== 'flicker' || !flickerOn) return;
+    const timer = setInterval(() => setShowBaseline(v => !v), FLICKER_MS);
+    return () => clearInterval(timer);
+  }, [mode, flickerOn]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const zoom = (factor: number) => setView(v => {
+    const scale = clampScale(v.scale * factor);
+    // Zooming out all the way recenters
+    return scale === 1 ? RESET_VIEW : { scale, x: v.x * scale / v.scale, y: v.y * scale / v.scale };
+  });
+
+  const panHandlers = {
+    onWheel: (e: React.WheelEvent) => zoom(Math.pow(1.1, -e.deltaY / 100)),
+    onPointerDown: (e: React.PointerEvent) => {
+      if ((e.target as HTMLElement).tagName === 'INPUT') return;
+      dragRef.current = { x: e.clientX, y: e.clientY };
+      (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const start = dragRef.current;
+      if (!start) return;
+      dragRef.current = { x: e.clientX, y: e.clientY };
+      setView(v => v.scale === 1 ? v : { ...v, x: v.x + e.clientX - start.x, y: v.y + e.clientY - start.y });
+    },
+    onPointerUp: () => { dragRef.current = null; }
+  };
+
+  const paneLabel = (text: string) => (
+    <span className="absolute top-3 left-3 z-10 bg-black/70 px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest pointer-events-none">{text}</span>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[260] bg-black/95 backdrop-blur-2xl flex flex-col p-4 md:p-6 gap-4 animate-in">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-lg font-black uppercase tracking-tighter italic mr-auto">{title} <span className="text-[#4dabf7] not-italic">Compare</span></h2>
+        <div className="flex bg-[#0c0c0e] border border-white/10 rounded-full p-1">
+          {(Object.keys(COMPARE_MODES) as CompareMode[]).map(m => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-colors ${mode === m ? 'bg-blue-600 text-white' : 'text-zinc-500 hover:text-white'}`}
+            >
+              {COMPARE_MODES[m]}
+            </button>
+          ))}
+        </div>
+        {baselines.length > 1 && (
+          <select
+            value={baseline?.id}
+            onChange={(e) => setBaselineId(e.target.value)}
+            className="bg-[#0c0c0e] border border-white/10 rounded-full px-4 py-2 text-[9px] font-black uppercase tracking-widest outline-none"
+            title="Compare against"
+          >
+            {baselines.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+          </select>
+        )}
+        <div className="flex items-center gap-1">
+          <button onClick={() => zoom(1 / 1.5)} className="w-8 h-8 rounded-full border border-white/10 hover:bg-white/10 transition-colors" title="Zoom out"><i className="fa-solid fa-minus text-[10px]"></i></button>
+          <span className="w-12 text-center text-[10px] font-mono text-zinc-400">{Math.round(view.scale * 100)}%</span>
+          <button onClick={() => zoom(1.5)} className="w-8 h-8 rounded-full border border-white/10 hover:bg-white/10 transition-colors" title="Zoom in"><i className="fa-solid fa-plus text-[10px]"></i></button>
+          <button onClick={() => setView(RESET_VIEW)} className="w-8 h-8 rounded-full border border-white/10 hover:bg-white/10 transition-colors" title="Fit"><i className="fa-solid fa-expand text-[10px]"></i></button>
+        </div>
+        <button onClick={onClose} className="w-10 h-10 rounded-full border border-white/10 hover:bg-white/10 flex items-center justify-center transition-colors" title="Close">
+          <i className="fa-solid fa-xmark text-zinc-400"></i>
+        </button>
+      </div>
+
+      {!baseline ? (
+        <p className="flex-1 flex items-center justify-center text-[10px] uppercase tracking-widest text-zinc-600">Nothing to compare against yet</p>
+      ) : (
+        <div className={`flex-1 min-h-0 ${view.scale > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`} style={{ touchAction: 'none' }} {...panHandlers}>
+          {mode === 'split' && (
+            <div className="relative w-full h-full">
+              {paneLabel(`${baseline.label} ◂ ▸ ${current.label}`)}
+              <SplitCompare before={baseline.image} after={current.image} view={view} className="w-full h-full rounded-2xl" />
+            </div>
+          )}
+          {mode === 'side' && (
+            <div className="grid grid-cols-2 gap-2 w-full h-full">
+              {[baseline, current].map(item => (
+                <div key={item.id} className="relative overflow-hidden bg-black rounded-2xl">
+                  {paneLabel(item.label)}
+                  <Layer image={item.image} view={view} />
+                </div>
+              ))}
+            </div>
+          )}
+          {mode === 'flicker' && (
+            <div className="relative w-full h-full overflow-hidden bg-black rounded-2xl">
+              {paneLabel(showBaseline ? baseline.label : current.label)}
+              <Layer image={current.image} view={view} />
+              <Layer image={baseline.image} view={view} style={{ opacity: showBaseline ? 1 : 0 }} />
+              <button
+                onClick={() => setFlickerOn(v => !v)}
+                onPointerDown={(e) => e.stopPropagation()}
+                className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-black/70 border border-white/10 px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-widest"
+              >
+                <i className={`fa-solid ${flickerOn ? 'fa-pause' : 'fa-play'} mr-2`}></i>{flickerOn ? 'Pause' : 'Flicker'}
+              </button>
+              {!flickerOn && (
+                <button
+                  onClick={() => setShowBaseline(v => !v)}
+                  onPointerDown={(e) => e.stopPropagation()}
+                  className="absolute bottom-4 right-4 z-10 bg-black/70 border border-white/10 px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-widest"
+                >
+                  Toggle
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+      <p className="text-[9px] text-zinc-600 text-center uppercase tracking-widest">Scroll to zoom · drag to pan · Esc to close</p>
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useRef, useState } from 'react';
+import { CellSpan, cutHandlePositions, GridCuts, moveCutHandle } from '../services/gridSlicer.ts';
+
+type Axis = 'columns' | 'rows';
+
+// Storyboard grid with draggable cut lines. Blue boxes are the areas that will
+// become scenes; everything outside them (dividers, borders) is discarded.
+export const GridCutEditor: React.FC<{
+  image: string;
+  cuts: GridCuts;
+  onChange: (cuts: GridCuts) => void;
+}> = ({ image, cuts, onChange }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<{ axis: Axis; handle: number } | null>(null);
+
+  const positionFromEvent = (e: React.PointerEvent, axis: Axis) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return axis === 'columns' ? (e.clientX - rect.left) / rect.width : (e.clientY - rect.top) / rect.height;
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    const spans: CellSpan[] = moveCutHandle(cuts[dragging.axis], dragging.handle, positionFromEvent(e, dragging.axis));
+    onChange({ ...cuts, [dragging.axis]: spans });
+  };
+
+  const startDrag = (e: React.PointerEvent, axis: Axis, handle: number) => {
+    e.preventDefault();
+    containerRef.current?.setPointerCapture(e.pointerId);
+    setDragging({ axis, handle });
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative select-none touch-none"
+      onPointerMove={onPointerMove}
+      onPointerUp={() => setDragging(null)}
+      onPointerCancel={() => setDragging(null)}
+    >
+      <img src={image} className="w-full h-auto block rounded-[1.5rem]" draggable={false} />
+
+      {/* Cells that will be extracted */}
+      {cuts.rows.map(([top, bottom], r) => cuts.columns.map(([left, right], c) => (
+        <div
+          key={`${r}-${c}`}
+          className="absolute border border-blue-400/70 bg-blue-500/5 pointer-events-none"
+          style={{ left: `${left * 100}%`, top: `${top * 100}%`, width: `${(right - left) * 100}%`, height: `${(bottom - top) * 100}%` }}
+        >
+          <span className="absolute top-1 left-1 text-[8px] font-black bg-black/70 text-blue-300 px-1.5 py-0.5 rounded">
+            {r * cuts.columns.length + c + 1}
+          </span>
+        </div>
+      )))}
+
+      {/* Draggable cut handles */}
+      {(['columns', 'rows'] as Axis[]).map(axis => cutHandlePositions(cuts[axis]).map((position, handle) => {
+        const active = dragging?.axis === axis && dragging.handle === handle;
+        return (
+          <div
+            key={`${axis}-${handle}`}
+            onPointerDown={(e) => startDrag(e, axis, handle)}
+            className={`absolute group ${axis === 'columns' ? 'top-0 bottom-0 w-3 -ml-1.5 cursor-col-resize' : 'left-0 right-0 h-3 -mt-1.5 cursor-row-resize'}`}
+            style={axis === 'columns' ? { left: `${position * 100}%` } : { top: `${position * 100}%` }}
+          >
+            <div className={`absolute ${axis === 'columns' ? 'left-1/2 -translate-x-1/2 top-0 bottom-0 w-0.5' : 'top-1/2 -translate-y-1/2 left-0 right-0 h-0.5'} ${active ? 'bg-amber-400' : 'bg-blue-400/60 group-hover:bg-amber-400'}`}></div>
+          </div>
+        );
+      }))}
+    </div>
+  );
+};
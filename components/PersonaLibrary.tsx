@@ -0,0 +1,245 @@
+import React, { useEffect, useState } from 'react';
+import { GenerationError, toGenerationError } from '../services/errors.ts';
+import { blobToDataUrl } from '../services/projectFile.ts';
+import {
+  deletePersona,
+  listPersonas,
+  ModelPersona,
+  primaryPhoto,
+  REFERENCE_ANGLES,
+  ReferenceAngle,
+  savePersona,
+  subscribePersonas
+} from '../services/personas.ts';
+
+const ANGLES = Object.keys(REFERENCE_ANGLES) as ReferenceAngle[];
+
+const newPersona = (image?: string): ModelPersona => ({
+  id: crypto.randomUUID(),
+  name: '',
+  notes: '',
+  photos: image ? [{ image, angle: 'front' }] : [],
+  updatedAt: Date.now()
+});
+
+const PersonaEditor: React.FC<{
+  initial: ModelPersona;
+  isNew: boolean;
+  onSave: (persona: ModelPersona) => Promise<void>;
+  onDelete: () => Promise<void>;
+  onClose: () => void;
+}> = ({ initial, isNew, onSave, onDelete, onClose }) => {
+  const [persona, setPersona] = useState(initial);
+  const [busy, setBusy] = useState(false);
+
+  const addPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const images = await Promise.all(files.map(blobToDataUrl));
+    setPersona(prev => {
+      const photos = [...prev.photos];
+      // New photos take the angles still missing, in order
+      images.forEach(image => photos.push({ image, angle: ANGLES.find(a => !photos.some(p => p.angle === a)) ?? null }));
+      return { ...prev, photos };
+    });
+  };
+
+  const setAngle = (index: number, angle: ReferenceAngle | null) =>
+    setPersona(prev => ({ ...prev, photos: prev.photos.map((p, i) => i === index ? { ...p, angle } : p) }));
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const missing = ANGLES.filter(a => !persona.photos.some(p => p.angle === a));
+
+  return (
+    <div className="fixed inset-0 z-[250] bg-black/90 backdrop-blur-2xl flex items-start md:items-center justify-center p-4 overflow-y-auto animate-in">
+      <div className="bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] w-full max-w-2xl p-6 md:p-10 shadow-2xl space-y-6 relative">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h2 className="text-2xl font-black uppercase tracking-tighter italic">Model <span className="text-[#4dabf7] not-italic">Persona</span></h2>
+            <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-zinc-600 mt-1">Reference photos keep the face consistent across shots</p>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 rounded-full border border-white/10 hover:bg-white/10 flex items-center justify-center transition-colors" title="Close">
+            <i className="fa-solid fa-xmark text-zinc-400"></i>
+          </button>
+        </div>
+
+        <input
+          value={persona.name}
+          onChange={(e) => setPersona(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Persona name, e.g. ALANA"
+          className="w-full bg-[#050506] border border-white/10 rounded-full px-6 py-3 text-[12px] font-bold tracking-widest outline-none focus:border-blue-600/50 placeholder:text-zinc-800"
+        />
+
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">Reference Photos</h3>
+            <label className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white cursor-pointer transition-colors">
+              <i className="fa-solid fa-plus mr-1.5"></i>Add Photos
+              <input type="file" accept="image/*" multiple className="hidden" onChange={addPhotos} />
+            </label>
+          </div>
+          {persona.photos.length === 0 ? (
+            <p className="text-[9px] text-zinc-600 uppercase tracking-widest py-6 text-center">Add front, three-quarter, profile and full body photos</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {persona.photos.map((photo, i) => (
+                <div key={i} className="space-y-1.5">
+                  <div className="relative aspect-[3/4] rounded-xl overflow-hidden bg-[#050506] group">
+                    <img src={photo.image} className="w-full h-full object-cover" />
+                    <button
+                      onClick={() => setPersona(prev => ({ ...prev, photos: prev.photos.filter((_, j) => j !== i) }))}
+                      className="absolute top-1.5 right-1.5 w-6 h-6 rounded-full bg-black/70 text-zinc-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove photo"
+                    >
+                      <i className="fa-solid fa-xmark text-[9px]"></i>
+                    </button>
+                  </div>
+                  <select
+                    value={photo.angle ?? ''}
+                    onChange={(e) => setAngle(i, (e.target.value || null) as ReferenceAngle | null)}
+                    className="w-full bg-[#050506] border border-white/10 rounded-lg px-2 py-1 text-[9px] font-bold uppercase tracking-wider outline-none"
+                  >
+                    <option value="">Untagged</option>
+                    {ANGLES.map(a => <option key={a} value={a}>{REFERENCE_ANGLES[a]}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+          {persona.photos.length > 0 && missing.length > 0 && (
+            <p className="text-[9px] text-amber-500/80">Missing: {missing.map(a => REFERENCE_ANGLES[a]).join(', ')}. Shots at those angles fall back to the closest photo.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">Notes</h3>
+          <textarea
+            value={persona.notes}
+            onChange={(e) => setPersona(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder="Identity details the model should keep, e.g. mole under left eye, shoulder-length black hair"
+            className="w-full bg-[#050506] text-[11px] rounded-xl p-4 border border-white/10 outline-none focus:border-blue-600/50 h-20 resize-none placeholder:text-zinc-700/50"
+          />
+          <p className="text-[9px] text-zinc-600">Sent with every identity-preserving request.</p>
+        </div>
+
+        <div className="flex gap-3">
+          {!isNew && (
+            <button
+              onClick={() => confirm(`Delete persona "${initial.name}"? Projects using it keep their copy.`) && run(onDelete)}
+              disabled={busy}
+              className="px-6 py-3 rounded-full border border-red-500/30 text-red-400 hover:bg-red-600/20 disabled:opacity-30 text-[10px] font-black uppercase tracking-widest transition-colors"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={() => run(() => onSave({ ...persona, name: persona.name.trim() }))}
+            disabled={busy || !persona.name.trim() || persona.photos.length === 0}
+            className="flex-1 bg-[#1d4ed8] hover:bg-blue-600 disabled:opacity-20 py-3 rounded-full text-[10px] font-black uppercase tracking-widest transition-colors"
+          >
+            Save Persona
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// UPLOAD step: saved model personas. Picking one sets the project's model.
+export const PersonaLibrary: React.FC<{
+  selected: ModelPersona | null;
+  modelImage: string | null;
+  onSelect: (persona: ModelPersona | null) => void;
+  onError: (error: GenerationError) => void;
+}> = ({ selected, modelImage, onSelect, onError }) => {
+  const [personas, setPersonas] = useState<ModelPersona[]>([]);
+  const [editing, setEditing] = useState<{ persona: ModelPersona; isNew: boolean; select?: boolean } | null>(null);
+
+  useEffect(() => {
+    const refresh = () => { void listPersonas().then(setPersonas); };
+    refresh();
+    return subscribePersonas(refresh);
+  }, []);
+
+  const save = async (persona: ModelPersona) => {
+    try {
+      const saved = await savePersona(persona);
+      // The open project picks up edits to its persona
+      if (selected?.id === saved.id || editing?.select) onSelect(saved);
+      setEditing(null);
+    } catch (e) {
+      onError(toGenerationError(e));
+    }
+  };
+
+  const remove = async (persona: ModelPersona) => {
+    try {
+      await deletePersona(persona.id);
+      setEditing(null);
+    } catch (e) {
+      onError(toGenerationError(e));
+    }
+  };
+
+  return (
+    <div className="w-full bg-[#0c0c0e] border border-white/5 rounded-[2rem] px-6 py-5 mb-8 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-600">Model Personas</p>
+          <p className="text-[12px] font-black uppercase tracking-tight mt-1">{selected ? selected.name : 'Single uploaded photo'}</p>
+        </div>
+        <div className="flex gap-2">
+          {modelImage && !selected && (
+            <button onClick={() => setEditing({ persona: newPersona(modelImage), isNew: true, select: true })} className="px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 text-[9px] font-black uppercase tracking-widest transition-colors">
+              Save Upload as Persona
+            </button>
+          )}
+          <button onClick={() => setEditing({ persona: newPersona(), isNew: true })} className="px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 text-[9px] font-black uppercase tracking-widest transition-colors">
+            <i className="fa-solid fa-plus mr-1.5"></i>New Persona
+          </button>
+        </div>
+      </div>
+
+      {personas.length > 0 && (
+        <div className="flex gap-3 overflow-x-auto pb-1">
+          {personas.map(persona => {
+            const active = selected?.id === persona.id;
+            const photo = primaryPhoto(persona);
+            return (
+              <div key={persona.id} className={`flex-shrink-0 w-24 rounded-2xl border p-1.5 transition-colors group ${active ? 'border-blue-500 bg-blue-600/10' : 'border-white/5 hover:border-white/20'}`}>
+                <button onClick={() => onSelect(active ? null : persona)} className="block w-full" title={active ? 'Use a single uploaded photo instead' : `Use ${persona.name}`}>
+                  <div className="aspect-[3/4] rounded-xl overflow-hidden bg-[#050506]">
+                    {photo && <img src={photo} className="w-full h-full object-cover" />}
+                  </div>
+                  <p className="text-[9px] font-black uppercase tracking-wider truncate mt-1.5">{persona.name}</p>
+                  <p className="text-[8px] text-zinc-600 uppercase tracking-widest">{persona.photos.length} photos</p>
+                </button>
+                <button onClick={() => setEditing({ persona, isNew: false })} className="text-[8px] font-black uppercase tracking-widest text-zinc-600 hover:text-white transition-colors">
+                  Edit
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editing && (
+        <PersonaEditor
+          initial={editing.persona}
+          isNew={editing.isNew}
+          onSave={save}
+          onDelete={() => remove(editing.persona)}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { blobToDataUrl } from '../services/projectFile.ts';
+import {
+  MAX_PRODUCT_PHOTOS,
+  newProductItem,
+  PRODUCT_VIEWS,
+  ProductItem,
+  ProductView
+} from '../services/productRefs.ts';
+
+const VIEWS = Object.keys(PRODUCT_VIEWS) as ProductView[];
+
+// UPLOAD step: extra angles of the product and further products for the same
+// look. The first photo of the first product is the project's product image.
+export const ProductReferences: React.FC<{
+  productImage: string | null;
+  items: ProductItem[];
+  onChange: (items: ProductItem[]) => void;
+}> = ({ productImage, items, onChange }) => {
+  const total = items.reduce((sum, item) => sum + item.photos.length, 0);
+
+  const patchItem = (index: number, patch: Partial<ProductItem>) =>
+    onChange(items.map((item, i) => i === index ? { ...item, ...patch } : item));
+
+  const addPhotos = async (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    const images = await Promise.all(files.map(blobToDataUrl));
+    const photos = [...items[index].photos];
+    // New photos take the views still missing, in order
+    images.forEach(image => photos.push({ image, view: VIEWS.find(v => !photos.some(p => p.view === v)) ?? 'detail' }));
+    patchItem(index, { photos });
+  };
+
+  const setView = (index: number, photoIndex: number, view: ProductView) =>
+    patchItem(index, { photos: items[index].photos.map((p, j) => j === photoIndex ? { ...p, view } : p) });
+
+  // Starting a set keeps the uploaded photo as the first product's front view
+  const startSet = (): ProductItem[] => items.length > 0 ? items : [newProductItem(0, productImage ?? undefined)];
+
+  return (
+    <div className="w-full bg-[#0c0c0e] border border-white/5 rounded-[2rem] px-6 py-5 mb-8 space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div>
+          <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-600">Product References</p>
+          <p className="text-[12px] font-black uppercase tracking-tight mt-1">
+            {items.length === 0 ? 'Single uploaded photo' : `${items.length} product${items.length === 1 ? '' : 's'} · ${total} photos`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {items.length === 0 && productImage && (
+            <button onClick={() => onChange(startSet())} className="px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 text-[9px] font-black uppercase tracking-widest transition-colors">
+              Add Angles
+            </button>
+          )}
+          <button
+            onClick={() => { const set = startSet(); onChange([...set, newProductItem(set.length)]); }}
+            className="px-4 py-2 rounded-full border border-white/10 hover:bg-white/10 text-[9px] font-black uppercase tracking-widest transition-colors"
+            title="Style another product in the same look"
+          >
+            <i className="fa-solid fa-plus mr-1.5"></i>Add Product
+          </button>
+        </div>
+      </div>
+
+      {items.map((item, i) => (
+        <div key={item.id} className="bg-[#070708] border border-white/5 rounded-2xl p-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <input
+              value={item.name}
+              onChange={(e) => patchItem(i, { name: e.target.value })}
+              placeholder="Product name, e.g. Tote bag"
+              className="flex-1 min-w-0 bg-[#050506] border border-white/10 rounded-full px-4 py-2 text-[10px] font-bold tracking-widest outline-none focus:border-blue-600/50 placeholder:text-zinc-800"
+            />
+            <label className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white cursor-pointer transition-colors">
+              <i className="fa-solid fa-plus mr-1.5"></i>Photos
+              <input type="file" accept="image/*" multiple className="hidden" onChange={(e) => addPhotos(i, e)} />
+            </label>
+            <button onClick={() => onChange(items.filter((_, j) => j !== i))} className="text-zinc-600 hover:text-red-400 transition-colors" title="Remove product">
+              <i className="fa-solid fa-trash-can text-[10px]"></i>
+            </button>
+          </div>
+          {item.photos.length === 0 ? (
+            <p className="text-[9px] text-zinc-600 uppercase tracking-widest py-3 text-center">Add front, back, detail and logo photos</p>
+          ) : (
+            <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+              {item.photos.map((photo, j) => (
+                <div key={j} className="space-y-1.5">
+                  <div className="relative aspect-square rounded-xl overflow-hidden bg-[#050506] group">
+                    <img src={photo.image} className="w-full h-full object-cover" />
+                    <button
+                      onClick={() => patchItem(i, { photos: item.photos.filter((_, k) => k !== j) })}
+                      className="absolute top-1.5 right-1.5 w-6 h-6 rounded-full bg-black/70 text-zinc-400 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove photo"
+                    >
+                      <i className="fa-solid fa-xmark text-[9px]"></i>
+                    </button>
+                  </div>
+                  <select
+                    value={photo.view}
+                    onChange={(e) => setView(i, j, e.target.value as ProductView)}
+                    className="w-full bg-[#050506] border border-white/10 rounded-lg px-2 py-1 text-[9px] font-bold uppercase tracking-wider outline-none"
+                  >
+                    {VIEWS.map(v => <option key={v} value={v}>{PRODUCT_VIEWS[v]}</option>)}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {total > MAX_PRODUCT_PHOTOS && (
+        <p className="text-[9px] text-amber-500/80">Only {MAX_PRODUCT_PHOTOS} photos are sent per request: every product's first photo, then the other angles in order.</p>
+      )}
+    </div>
+  );
+};
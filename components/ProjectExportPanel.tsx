@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { GenerationError, toGenerationError } from '../services/errors.ts';
+import {
+  applyNamingPattern,
+  countExportAssets,
+  DEFAULT_NAMING_PATTERN,
+  EXPORT_ASSET_KINDS,
+  ExportAssetKind,
+  ExportContext,
+  ExportSettings,
+  exportProject,
+  getExportSettings,
+  NAMING_TOKENS,
+  saveExportSettings
+} from '../services/projectExport.ts';
+
+// "Export All": picks which deliverables go into the ZIP and how they're named.
+export const ProjectExportPanel: React.FC<{
+  context: ExportContext;
+  onError: (error: GenerationError) => void;
+  onDownload: (url: string, filename: string) => void;
+  onClose: () => void;
+}> = ({ context, onError, onDownload, onClose }) => {
+  const [settings, setSettings] = useState<ExportSettings>(getExportSettings);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const update = (next: ExportSettings) => {
+    setSettings(next);
+    saveExportSettings(next);
+  };
+
+  const fileCount = countExportAssets(context.state, settings.include);
+  const example = applyNamingPattern(settings.namingPattern, {
+    project: context.state.projectName.trim() || 'project',
+    asset: 'shot-01-still',
+    ratio: context.state.aspectRatio.replace(':', 'x'),
+    date: new Date().toISOString().slice(0, 10)
+  });
+
+  const run = async () => {
+    setProgress({ done: 0, total: fileCount });
+    try {
+      const archive = await exportProject(context, settings, (done, total) => setProgress({ done, total }));
+      const url = URL.createObjectURL(archive.blob);
+      onDownload(url, archive.filename);
+      // The click has started the download by the next tick
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      onClose();
+    } catch (e) {
+      onError(toGenerationError(e));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[250] bg-black/90 backdrop-blur-2xl flex items-start md:items-center justify-center p-4 overflow-y-auto animate-in">
+      <div className="bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] w-full max-w-xl p-6 md:p-10 shadow-2xl space-y-8 relative">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h2 className="text-2xl font-black uppercase tracking-tighter italic">Export <span className="text-[#4dabf7] not-italic">All</span></h2>
+            <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-zinc-600 mt-1">One ZIP · built in this browser</p>
+          </div>
+          <button onClick={onClose} disabled={progress !== null} className="w-10 h-10 rounded-full border border-white/10 hover:bg-white/10 disabled:opacity-30 flex items-center justify-center transition-colors" title="Close">
+            <i className="fa-solid fa-xmark text-zinc-400"></i>
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">Include</h3>
+          {(Object.keys(EXPORT_ASSET_KINDS) as ExportAssetKind[]).map(kind => (
+            <label key={kind} className="flex items-center gap-3 text-[11px] font-bold uppercase tracking-widest text-zinc-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.include[kind]}
+                disabled={progress !== null}
+                onChange={(e) => update({ ...settings, include: { ...settings.include, [kind]: e.target.checked } })}
+                className="accent-blue-500"
+              />
+              {EXPORT_ASSET_KINDS[kind]}
+            </label>
+          ))}
+          <p className="text-[9px] text-zinc-600">manifest.json with prompts, style, branding, category and timestamps is always included.</p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">File Names</h3>
+            <button
+              onClick={() => update({ ...settings, namingPattern: DEFAULT_NAMING_PATTERN })}
+              disabled={progress !== null || settings.namingPattern === DEFAULT_NAMING_PATTERN}
+              className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white disabled:opacity-30 transition-colors"
+            >
+              Reset
+            </button>
+          </div>
+          <input
+            type="text"
+            value={settings.namingPattern}
+            disabled={progress !== null}
+            onChange={(e) => update({ ...settings, namingPattern: e.target.value })}
+            className="w-full bg-[#050506] border border-white/10 rounded-xl px-4 py-3 text-[11px] font-mono outline-none focus:border-blue-600/50"
+          />
+          <p className="text-[9px] font-mono text-zinc-500">e.g. {example}.png</p>
+          <div className="space-y-1">
+            {Object.entries(NAMING_TOKENS).map(([token, description]) => (
+              <p key={token} className="text-[9px] text-zinc-600"><span className="font-mono text-zinc-400">{token}</span> {description}</p>
+            ))}
+            <p className="text-[9px] text-zinc-600"><span className="font-mono text-zinc-400">/</span> starts a folder</p>
+          </div>
+        </div>
+
+        {progress !== null ? (
+          <div className="flex items-center gap-4">
+            <div className="flex-1 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress.total ? progress.done / progress.total * 100 : 100}%` }}></div>
+            </div>
+            <span className="text-[9px] font-mono text-zinc-500">{progress.done}/{progress.total} files</span>
+          </div>
+        ) : (
+          <button
+            onClick={run}
+            className="w-full bg-[#1d4ed8] hover:bg-blue-600 py-4 rounded-full text-[10px] font-black uppercase tracking-widest transition-colors"
+          >
+            <i className="fa-solid fa-file-zipper mr-2"></i>Download ZIP · {fileCount + 1} files
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
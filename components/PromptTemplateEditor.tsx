@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  exportPromptTemplates,
+  findUnknownVariables,
+  getPromptTemplate,
+  importPromptTemplates,
+  listPromptTemplates,
+  PromptTemplate,
+  PromptTemplateId,
+  resetPromptOverride,
+  savePromptOverride,
+  subscribePromptTemplates
+} from '../services/promptTemplates.ts';
+
+export const PromptTemplateEditor: React.FC = () => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(listPromptTemplates());
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(templates[0].id);
+  const [draft, setDraft] = useState(templates[0].body);
+  const [message, setMessage] = useState<{ tone: 'error' | 'ok'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => subscribePromptTemplates(() => setTemplates(listPromptTemplates())), []);
+
+  const selected = templates.find(t => t.id === selectedId)!;
+  const dirty = draft !== selected.body;
+  const unknown = findUnknownVariables(selectedId, draft);
+
+  const select = (id: PromptTemplateId) => {
+    if (dirty && !confirm("Discard unsaved changes to this template?")) return;
+    setSelectedId(id);
+    setDraft(getPromptTemplate(id).body);
+    setMessage(null);
+  };
+
+  const insertVariable = (name: string) => {
+    const el = textareaRef.current;
+    const token = `{{${name}}}`;
+    if (!el) return setDraft(prev => prev + token);
+    const { selectionStart, selectionEnd } = el;
+    setDraft(prev => prev.slice(0, selectionStart) + token + prev.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(selectionStart + token.length, selectionStart + token.length);
+    });
+  };
+
+  const save = () => {
+    try {
+      savePromptOverride(selectedId, draft);
+      setMessage({ tone: 'ok', text: `Saved as ${getPromptTemplate(selectedId).version}.` });
+    } catch (e) {
+      setMessage({ tone: 'error', text: (e as Error).message });
+    }
+  };
+
+  const revert = () => {
+    if (!confirm("Revert this template to the built-in wording?")) return;
+    resetPromptOverride(selectedId);
+    setDraft(selected.defaultBody);
+    setMessage({ tone: 'ok', text: 'Reverted to default.' });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportPromptTemplates()], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `prompt-templates-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const ids = importPromptTemplates(await file.text());
+      setDraft(getPromptTemplate(selectedId).body);
+      setMessage({ tone: 'ok', text: `Imported ${ids.length} template${ids.length === 1 ? '' : 's'}.` });
+    } catch (err) {
+      setMessage({ tone: 'error', text: (err as Error).message });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+      <div className="space-y-1 max-h-[55vh] overflow-y-auto pr-1">
+        {templates.map(t => (
+          <button
+            key={t.id}
+            onClick={() => select(t.id)}
+            className={`w-full text-left px-4 py-2.5 rounded-xl border transition-colors ${t.id === selectedId ? 'bg-[#0f172a] border-blue-600/50' : 'border-transparent hover:bg-white/5'}`}
+          >
+            <p className="text-[10px] font-bold uppercase tracking-tight truncate">{t.label}</p>
+            <p className={`text-[8px] font-mono ${t.custom ? 'text-amber-400' : 'text-zinc-600'}`}>
+              {t.id}@{t.version}{t.outdated ? ' · outdated' : ''}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-3 min-w-0">
+        <p className="text-[9px] text-zinc-500 leading-relaxed">{selected.description}</p>
+        {selected.outdated && (
+          <p className="text-[9px] text-amber-400 leading-relaxed">
+            The built-in wording changed to v{selected.builtinVersion} since this override was written. Revert to pick up the new default.
+          </p>
+        )}
+        {selected.variables.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {selected.variables.map(v => (
+              <button key={v} onClick={() => insertVariable(v)} className="px-2.5 py-1 rounded-full bg-blue-950/40 border border-blue-900/40 text-[9px] font-mono text-blue-300 hover:bg-blue-900/40 transition-colors" title="Insert at cursor">
+                {`{{${v}}}`}
+              </button>
+            ))}
+          </div>
+        )}
+        <textarea
+          ref={textareaRef}
+          value={draft}
+          onChange={(e) => { setDraft(e.target.value); setMessage(null); }}
+          spellCheck={false}
+          className="w-full h-[38vh] bg-[#050506] border border-white/10 rounded-2xl p-4 text-[11px] font-mono text-zinc-300 leading-relaxed outline-none focus:border-blue-600/50 resize-none"
+        />
+        {unknown.length > 0 && (
+          <p className="text-[9px] text-red-400 font-mono">Unknown variables: {unknown.map(v => `{{${v}}}`).join(', ')}</p>
+        )}
+        {message && (
+          <p className={`text-[9px] font-bold uppercase tracking-widest ${message.tone === 'error' ? 'text-red-400' : 'text-green-500'}`}>{message.text}</p>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <button onClick={save} disabled={!dirty || unknown.length > 0} className="bg-[#1d4ed8] hover:bg-blue-600 disabled:opacity-30 px-6 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-colors">Save Override</button>
+          <button onClick={revert} disabled={!selected.custom} className="border border-white/10 hover:bg-white/5 disabled:opacity-30 px-6 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-400 transition-colors">Revert</button>
+          <div className="flex-1"></div>
+          <button onClick={handleExport} className="border border-white/10 hover:bg-white/5 px-5 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-300 transition-colors">
+            <i className="fa-solid fa-file-export mr-2"></i>Export
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="border border-white/10 hover:bg-white/5 px-5 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-300 transition-colors">
+            <i className="fa-solid fa-file-import mr-2"></i>Import
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { AppStep } from '../types.ts';
+import { deleteSavedProject, listRecentProjects, ProjectSummary, subscribeRecentProjects } from '../services/projectStore.ts';
+
+const STEP_LABEL: Record<AppStep, string> = {
+  [AppStep.UPLOAD]: 'Upload',
+  [AppStep.REFINE]: 'Refine',
+  [AppStep.STORYBOARD]: 'Storyboard',
+  [AppStep.RESULTS]: 'Final Render'
+};
+
+const formatSavedAt = (timestamp: number) => new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+// Start screen list of autosaved projects in this browser.
+export const RecentProjects: React.FC<{
+  currentId: string;
+  onOpen: (project: ProjectSummary) => void;
+}> = ({ currentId, onOpen }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const refresh = () => { void listRecentProjects().then(setProjects); };
+    refresh();
+    return subscribeRecentProjects(refresh);
+  }, []);
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    projects.forEach(p => { if (p.thumbnail) urls[p.id] = URL.createObjectURL(p.thumbnail); });
+    setThumbnails(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [projects]);
+
+  const others = projects.filter(p => p.id !== currentId);
+  if (others.length === 0) return null;
+
+  const remove = (project: ProjectSummary) => {
+    if (confirm(`Delete "${project.name}" and its saved videos from this browser?`)) void deleteSavedProject(project.id);
+  };
+
+  return (
+    <div className="w-full bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] p-6 md:p-8 space-y-4 mb-8">
+      <div>
+        <h3 className="text-[13px] font-black uppercase tracking-[0.3em] text-blue-500">Recent Projects</h3>
+        <p className="text-[10px] font-bold uppercase tracking-widest text-zinc-600 mt-1">Autosaved in this browser</p>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+        {others.map(project => (
+          <div key={project.id} className="bg-[#070708] border border-white/5 rounded-2xl p-3 flex items-center gap-3 group">
+            <div className="w-14 h-14 rounded-xl bg-[#050506] overflow-hidden flex-shrink-0 flex items-center justify-center">
+              {thumbnails[project.id]
+                ? <img src={thumbnails[project.id]} className="w-full h-full object-cover" />
+                : <i className="fa-solid fa-image text-zinc-700"></i>}
+            </div>
+            <button onClick={() => onOpen(project)} className="flex-1 min-w-0 text-left">
+              <p className="text-[11px] font-bold uppercase tracking-tight truncate group-hover:text-blue-400 transition-colors">{project.name}</p>
+              <p className="text-[9px] text-zinc-600 truncate">{formatSavedAt(project.updatedAt)}</p>
+              <p className="text-[8px] font-black uppercase tracking-widest text-zinc-500 mt-0.5">
+                {STEP_LABEL[project.step] ?? project.step} · {project.stills} stills · {project.videos} videos
+              </p>
+            </button>
+            <button onClick={() => remove(project)} className="w-8 h-8 rounded-lg hover:bg-red-600/20 text-zinc-600 hover:text-red-400 transition-colors flex-shrink-0" title="Delete">
+              <i className="fa-solid fa-trash text-[10px]"></i>
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
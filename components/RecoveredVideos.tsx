@@ -0,0 +1,74 @@
+import React from 'react';
+import { PendingVideoJob } from '../services/videoStore.ts';
+
+export interface RecoveredVideo {
+  job: PendingVideoJob;
+  status: 'rendering' | 'ready' | 'failed' | 'waiting';
+  progress: number;
+  url?: string;
+  error?: string;
+}
+
+const STATUS_LABEL: Record<RecoveredVideo['status'], string> = {
+  rendering: 'Finishing',
+  ready: 'Saved',
+  failed: 'Failed',
+  waiting: 'Retry on next load'
+};
+
+// Veo renders that were still running when the page was closed, picked up on
+// this load. Clips of the open project go straight to their scene; the rest
+// are listed here so a paid render is never lost.
+export const RecoveredVideos: React.FC<{
+  videos: RecoveredVideo[];
+  onDownload: (video: RecoveredVideo) => void;
+  onDiscard: (video: RecoveredVideo) => void;
+  onDismiss: () => void;
+}> = ({ videos, onDownload, onDiscard, onDismiss }) => {
+  if (videos.length === 0) return null;
+  const busy = videos.some(v => v.status === 'rendering');
+
+  return (
+    <div className="mb-8 p-6 bg-blue-600/10 border border-blue-500/30 rounded-[2rem] animate-in">
+      <div className="flex items-center gap-6">
+        <div className="w-12 h-12 bg-blue-600/20 rounded-full flex items-center justify-center flex-shrink-0">
+          <i className={`fa-solid ${busy ? 'fa-spinner fa-spin' : 'fa-film'} text-blue-400`}></i>
+        </div>
+        <div className="flex-1 min-w-0">
+          <h4 className="text-[12px] font-black uppercase tracking-widest text-blue-400 mb-1">Recovered Video Renders</h4>
+          <p className="text-[11px] text-zinc-400 font-bold uppercase tracking-tight leading-relaxed">
+            {busy ? 'Finishing renders started before the page was closed.' : 'Renders started before the page was closed.'}
+          </p>
+        </div>
+        {!busy && (
+          <button onClick={onDismiss} className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-white/10 text-zinc-500 hover:text-white transition-colors flex-shrink-0" title="Dismiss">
+            <i className="fa-solid fa-xmark text-xs"></i>
+          </button>
+        )}
+      </div>
+
+      <div className="mt-4 space-y-2">
+        {videos.map(video => (
+          <div key={video.job.key} className="bg-[#070708] border border-white/5 rounded-xl px-4 py-3 flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] font-bold uppercase tracking-tight truncate">
+                {video.job.projectName} · Shot {String(video.job.sceneId + 1).padStart(2, '0')}
+              </p>
+              <p className={`text-[9px] truncate ${video.status === 'failed' ? 'text-red-400' : 'text-zinc-600'}`}>
+                {STATUS_LABEL[video.status]}
+                {video.status === 'rendering' && ` · ${video.progress}%`}
+                {video.error && ` · ${video.error}`}
+              </p>
+            </div>
+            {video.status === 'ready' && (
+              <>
+                <button onClick={() => onDownload(video)} className="text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white transition-colors">Download</button>
+                <button onClick={() => onDiscard(video)} className="text-[9px] font-black uppercase tracking-widest text-red-500/70 hover:text-red-400 transition-colors">Discard</button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
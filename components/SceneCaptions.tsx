@@ -0,0 +1,96 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SceneFrame } from '../types.ts';
+import { TargetAspectRatio } from '../services/aspectRatio.ts';
+import { CaptionFormat, captionFile, CaptionStyle, sceneClipSeconds, sceneCues, sceneScript } from '../services/captions.ts';
+import { CancelledError, GenerationError, toGenerationError } from '../services/errors.ts';
+import { assembleVideo, DEFAULT_STILL_SECONDS } from '../services/videoAssembler.ts';
+
+const buttonClass = "flex-1 bg-white/5 hover:bg-blue-600/20 disabled:opacity-20 rounded-lg py-1.5 text-[8px] font-black uppercase tracking-widest text-zinc-400 hover:text-blue-400 transition-colors";
+
+// Scene card: subtitles of the scene's dialogue timed to its clip, as files or
+// burned into a copy of the clip. The style is set under Assemble Ad.
+export const SceneCaptions: React.FC<{
+  scene: SceneFrame;
+  style: CaptionStyle;
+  aspectRatio: TargetAspectRatio;
+  projectName: string;
+  onError: (error: GenerationError) => void;
+  onDownload: (url: string, filename: string) => void;
+}> = ({ scene, style, aspectRatio, projectName, onError, onDownload }) => {
+  const [progress, setProgress] = useState<number | null>(null);
+  const [burnedUrl, setBurnedUrl] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+  useEffect(() => () => { if (burnedUrl) URL.revokeObjectURL(burnedUrl); }, [burnedUrl]);
+
+  const script = sceneScript(scene);
+  if (!script) return null;
+
+  const baseName = `${projectName || 'ad'}-shot-${scene.id + 1}`;
+
+  const downloadCues = (format: CaptionFormat) => {
+    const url = URL.createObjectURL(captionFile(sceneCues(script, sceneClipSeconds(scene)), format));
+    onDownload(url, `${baseName}.${format}`);
+    // The click has started the download by the next tick
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const burnIn = async () => {
+    if (!scene.videoUrl) return;
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress(0);
+    try {
+      const video = await assembleVideo(
+        [{ kind: 'video', src: scene.videoUrl, stillSeconds: DEFAULT_STILL_SECONDS, transition: 'cut', volume: scene.isVideoMuted ? 0 : 1, musicLevel: 1, caption: script }],
+        { aspectRatio, captionStyle: style },
+        setProgress,
+        controller.signal
+      );
+      setBurnedUrl(video.url);
+      onDownload(video.url, `${baseName}-captioned.${video.extension}`);
+    } catch (e) {
+      const error = toGenerationError(e);
+      if (!(error instanceof CancelledError)) onError(error);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const cancel = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setProgress(null);
+  };
+
+  return (
+    <div className="bg-[#070708] rounded-2xl p-4 border border-white/5 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">Captions</span>
+        <span className="text-[8px] font-mono text-zinc-600">{sceneClipSeconds(scene).toFixed(1)}s</span>
+      </div>
+      {progress !== null ? (
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-1 bg-zinc-800 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress}%` }}></div>
+          </div>
+          <span className="text-[8px] font-mono text-zinc-500">{progress}%</span>
+          <button onClick={cancel} className="text-[8px] font-black uppercase tracking-widest text-red-400 hover:text-red-300">Cancel</button>
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <button onClick={() => downloadCues('srt')} className={buttonClass}>SRT</button>
+          <button onClick={() => downloadCues('vtt')} className={buttonClass}>VTT</button>
+          <button onClick={burnIn} disabled={!scene.videoUrl || scene.isGeneratingVideo} className={buttonClass} title="Render a copy of the clip with captions">
+            <i className="fa-solid fa-closed-captioning mr-1"></i>Burn In
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
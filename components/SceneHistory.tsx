@@ -0,0 +1,54 @@
+import React from 'react';
+import { SceneFrame } from '../types.ts';
+import { formatPromptRef } from '../services/promptTemplates.ts';
+import { redoTarget, SCENE_OPERATIONS, undoTarget } from '../services/sceneHistory.ts';
+
+const navButtonClass = "w-7 h-7 flex-shrink-0 rounded-lg bg-white/5 hover:bg-white/10 disabled:opacity-20 text-zinc-400 hover:text-white transition-colors";
+
+// RESULTS scene card: earlier images of the scene, undo / redo and pinning.
+export const SceneHistory: React.FC<{
+  scene: SceneFrame;
+  disabled: boolean;
+  onPin: (versionId: string) => void;
+}> = ({ scene, disabled, onPin }) => {
+  const history = scene.history ?? [];
+  if (history.length < 2) return null;
+  const undo = undoTarget(scene);
+  const redo = redoTarget(scene);
+
+  return (
+    <div className="flex items-center gap-2">
+      <button onClick={() => undo && onPin(undo.id)} disabled={disabled || !undo} className={navButtonClass} title="Undo">
+        <i className="fa-solid fa-rotate-left text-[9px]"></i>
+      </button>
+      <div className="flex-1 flex gap-1.5 overflow-x-auto py-0.5">
+        {history.map(version => {
+          const current = version.id === scene.versionId;
+          const details = [
+            `${SCENE_OPERATIONS[version.operation]} · ${new Date(version.createdAt).toLocaleTimeString()}`,
+            version.instruction,
+            version.prompt && formatPromptRef(version.prompt),
+            current ? 'Current' : 'Click to use this version'
+          ].filter(Boolean).join('\n');
+          return (
+            <button
+              key={version.id}
+              onClick={() => onPin(version.id)}
+              disabled={disabled || current}
+              className={`relative w-9 h-9 flex-shrink-0 rounded-lg overflow-hidden border transition-colors ${current ? 'border-blue-500' : 'border-white/5 hover:border-white/30 opacity-60 hover:opacity-100'}`}
+              title={details}
+            >
+              <img src={version.image} className="w-full h-full object-cover" />
+              <span className="absolute bottom-0 inset-x-0 bg-black/70 text-[6px] font-black uppercase tracking-wider text-zinc-300 text-center">
+                {SCENE_OPERATIONS[version.operation]}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <button onClick={() => redo && onPin(redo.id)} disabled={disabled || !redo} className={navButtonClass} title="Redo">
+        <i className="fa-solid fa-rotate-right text-[9px]"></i>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import {
+  CACHE_SIZE_OPTIONS,
+  CacheSettings,
+  CacheStats,
+  clearResultCache,
+  getCacheSettings,
+  getCacheStats,
+  saveCacheSettings,
+  subscribeCache
+} from '../services/resultCache.ts';
+import { clearSavedVideos, getSavedVideoStats, SavedVideoStats, subscribeSavedVideos } from '../services/videoStore.ts';
+import { PromptTemplateEditor } from './PromptTemplateEditor.tsx';
+import { CategoryEditor } from './CategoryEditor.tsx';
+
+export type SettingsTab = 'general' | 'prompts' | 'categories';
+
+const TABS: { id: SettingsTab; label: string }[] = [
+  { id: 'general', label: 'General' },
+  { id: 'prompts', label: 'Prompt Templates' },
+  { id: 'categories', label: 'Product Categories' }
+];
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+
+const Toggle: React.FC<{ checked: boolean; onChange: (value: boolean) => void }> = ({ checked, onChange }) => (
+  <button
+    onClick={() => onChange(!checked)}
+    className={`w-10 h-5 rounded-full relative transition-colors flex-shrink-0 ${checked ? 'bg-blue-600' : 'bg-zinc-800'}`}
+  >
+    <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-all ${checked ? 'left-[22px]' : 'left-0.5'}`}></span>
+  </button>
+);
+
+export const SettingsPanel: React.FC<{
+  initialTab?: SettingsTab;
+  forceFresh: boolean;
+  onForceFreshChange: (value: boolean) => void;
+  onClose: () => void;
+}> = ({ initialTab = 'general', forceFresh, onForceFreshChange, onClose }) => {
+  const [tab, setTab] = useState<SettingsTab>(initialTab);
+  const [settings, setSettings] = useState<CacheSettings>(getCacheSettings());
+  const [stats, setStats] = useState<CacheStats>({ entries: 0, bytes: 0 });
+  const [videoStats, setVideoStats] = useState<SavedVideoStats>({ clips: 0, bytes: 0 });
+
+  useEffect(() => {
+    const refresh = () => {
+      setSettings(getCacheSettings());
+      getCacheStats().then(setStats);
+    };
+    refresh();
+    return subscribeCache(refresh);
+  }, []);
+
+  useEffect(() => {
+    const refresh = () => { getSavedVideoStats().then(setVideoStats); };
+    refresh();
+    return subscribeSavedVideos(refresh);
+  }, []);
+
+  const update = (patch: Partial<CacheSettings>) => saveCacheSettings({ ...settings, ...patch });
+
+  return (
+    <div className="fixed inset-0 z-[250] bg-black/90 backdrop-blur-2xl flex items-start md:items-center justify-center p-4 overflow-y-auto animate-in">
+      <div className={`bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] w-full ${tab === 'general' ? 'max-w-xl' : 'max-w-5xl'} p-6 md:p-10 shadow-2xl space-y-8 transition-[max-width]`}>
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h2 className="text-2xl font-black uppercase tracking-tighter italic">Studio <span className="text-[#4dabf7] not-italic">Settings</span></h2>
+            <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-zinc-600 mt-1">Stored in this browser only</p>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 rounded-full border border-white/10 hover:bg-white/10 flex items-center justify-center transition-colors" title="Close">
+            <i className="fa-solid fa-xmark text-zinc-400"></i>
+          </button>
+        </div>
+
+        <div className="flex bg-[#050506] border border-white/5 rounded-full p-1 w-fit">
+          {TABS.map(t => (
+            <button key={t.id} onClick={() => setTab(t.id)} className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-colors ${tab === t.id ? 'bg-blue-600 text-white' : 'text-zinc-500 hover:text-white'}`}>
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'prompts' && <PromptTemplateEditor />}
+        {tab === 'categories' && <CategoryEditor />}
+
+        {/* Result cache */}
+        {tab === 'general' && (
+        <div className="bg-[#070708] border border-white/5 rounded-2xl p-5 space-y-5">
+          <div className="flex justify-between items-center">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">Result Cache</h3>
+            <span className="text-[9px] font-mono text-zinc-500">{stats.entries} items · {formatBytes(stats.bytes)} / {formatBytes(settings.maxBytes)}</span>
+          </div>
+          <div className="h-1 bg-zinc-800 rounded-full overflow-hidden">
+            <div className="h-full bg-blue-500" style={{ width: `${Math.min(100, stats.bytes / settings.maxBytes * 100)}%` }}></div>
+          </div>
+
+          <div className="flex justify-between items-center gap-4">
+            <div>
+              <p className="text-[11px] font-bold uppercase tracking-tight">Reuse Identical Results</p>
+              <p className="text-[9px] text-zinc-600 leading-relaxed">Same model, prompt, images and settings are served from disk instead of billed again.</p>
+            </div>
+            <Toggle checked={settings.enabled} onChange={(enabled) => update({ enabled })} />
+          </div>
+
+          <div className="flex justify-between items-center gap-4">
+            <div>
+              <p className="text-[11px] font-bold uppercase tracking-tight">Force Fresh Generation</p>
+              <p className="text-[9px] text-zinc-600 leading-relaxed">Always call the model this session. New results still refresh the cache.</p>
+            </div>
+            <Toggle checked={forceFresh} onChange={onForceFreshChange} />
+          </div>
+
+          <div className="flex justify-between items-center gap-4">
+            <p className="text-[11px] font-bold uppercase tracking-tight">Maximum Size</p>
+            <select
+              value={settings.maxBytes}
+              onChange={(e) => update({ maxBytes: Number(e.target.value) })}
+              className="bg-[#050506] border border-white/10 rounded-xl px-4 py-2 text-[10px] font-bold uppercase outline-none focus:border-blue-600/50"
+            >
+              {CACHE_SIZE_OPTIONS.map(bytes => <option key={bytes} value={bytes}>{formatBytes(bytes)}</option>)}
+            </select>
+          </div>
+
+          <button
+            onClick={() => confirm("Delete all cached results? Identical requests will be billed again.") && clearResultCache()}
+            disabled={stats.entries === 0}
+            className="border border-red-500/20 hover:bg-red-600/10 disabled:opacity-30 px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-widest text-red-400 transition-colors"
+          >
+            Clear Cache
+          </button>
+        </div>
+        )}
+
+        {/* Scene videos kept across reloads */}
+        {tab === 'general' && (
+        <div className="bg-[#070708] border border-white/5 rounded-2xl p-5 space-y-4">
+          <div className="flex justify-between items-center">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">Saved Videos</h3>
+            <span className="text-[9px] font-mono text-zinc-500">{videoStats.clips} clips · {formatBytes(videoStats.bytes)}</span>
+          </div>
+          <p className="text-[9px] text-zinc-600 leading-relaxed">Every rendered scene video is kept here so it outlives the tab. Renders still running when the page closes are finished on the next load.</p>
+          <button
+            onClick={() => confirm("Delete all saved scene videos? Clips not downloaded yet are lost.") && clearSavedVideos()}
+            disabled={videoStats.clips === 0}
+            className="border border-red-500/20 hover:bg-red-600/10 disabled:opacity-30 px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-widest text-red-400 transition-colors"
+          >
+            Clear Saved Videos
+          </button>
+        </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ProjectRef } from '../types.ts';
+import {
+  BudgetCaps,
+  clearUsage,
+  getBudgetCaps,
+  getPriceTable,
+  ModelPrice,
+  listUsage,
+  PriceTable,
+  resetPriceTable,
+  saveBudgetCaps,
+  savePriceTable,
+  spentOnProject,
+  spentToday,
+  subscribeUsage,
+  usageToCsv
+} from '../services/usage.ts';
+import { ImageSize } from '../services/providers/types.ts';
+
+const IMAGE_SIZES: ImageSize[] = ['1K', '2K', '4K'];
+const MAX_ROWS = 150;
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 3 : 2)}`;
+
+const parseCap = (value: string): number | null => {
+  const n = parseFloat(value);
+  return value.trim() === '' || isNaN(n) || n < 0 ? null : n;
+};
+
+// Re-renders whenever the ledger, prices or caps change.
+export const useUsageLedger = () => {
+  const [version, setVersion] = useState(0);
+  useEffect(() => subscribeUsage(() => setVersion(v => v + 1)), []);
+  return useMemo(() => listUsage(), [version]);
+};
+
+const Stat: React.FC<{ label: string; value: number; cap?: number | null }> = ({ label, value, cap }) => {
+  const ratio = cap ? Math.min(1, value / cap) : 0;
+  return (
+    <div className="bg-[#050506] border border-white/5 rounded-2xl p-4 space-y-2">
+      <p className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">{label}</p>
+      <p className="text-xl font-black tracking-tight">
+        {formatUsd(value)}
+        {cap != null && <span className="text-[11px] text-zinc-600 font-bold"> / {formatUsd(cap)}</span>}
+      </p>
+      {cap != null && (
+        <div className="h-1 bg-zinc-800 rounded-full overflow-hidden">
+          <div className={`h-full ${ratio >= 1 ? 'bg-red-500' : ratio > 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${ratio * 100}%` }}></div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const UsagePanel: React.FC<{ project: ProjectRef; onClose: () => void }> = ({ project, onClose }) => {
+  const records = useUsageLedger();
+  const [scope, setScope] = useState<'project' | 'all'>('project');
+  const [caps, setCaps] = useState<BudgetCaps>(getBudgetCaps());
+  const [capInputs, setCapInputs] = useState({
+    projectCap: caps.projectCap?.toString() ?? '',
+    dailyCap: caps.dailyCap?.toString() ?? ''
+  });
+  const [prices, setPrices] = useState<PriceTable>(getPriceTable());
+
+  const visible = useMemo(
+    () => (scope === 'project' ? records.filter(r => r.projectId === project.id) : records).slice().reverse(),
+    [records, scope, project.id]
+  );
+
+  const saveCaps = () => {
+    const next = { projectCap: parseCap(capInputs.projectCap), dailyCap: parseCap(capInputs.dailyCap) };
+    saveBudgetCaps(next);
+    setCaps(next);
+  };
+
+  const updatePrice = (model: string, path: 'inputPerMillionTokens' | 'perVideoSecond' | ImageSize, value: string) => {
+    const n = parseFloat(value);
+    setPrices(prev => {
+      const entry = { ...prev[model], perImage: { ...prev[model]?.perImage } };
+      if (path === 'inputPerMillionTokens' || path === 'perVideoSecond') entry[path] = isNaN(n) ? undefined : n;
+      else entry.perImage[path] = isNaN(n) ? undefined : n;
+      return { ...prev, [model]: entry };
+    });
+  };
+
+  const exportCsv = () => {
+    const blob = new Blob([usageToCsv(visible.slice().reverse())], { type: 'text/csv' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `usage-${scope === 'project' ? project.name.replace(/\W+/g, '-').toLowerCase() : 'all'}-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleClear = () => {
+    if (confirm("Delete the entire usage history? Budgets are computed from it.")) clearUsage();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[250] bg-black/90 backdrop-blur-2xl flex items-start md:items-center justify-center p-4 overflow-y-auto animate-in">
+      <div className="bg-[#0c0c0e] border border-white/5 rounded-[2.5rem] w-full max-w-5xl p-6 md:p-10 shadow-2xl space-y-8 relative">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h2 className="text-2xl font-black uppercase tracking-tighter italic">Usage <span className="text-[#4dabf7] not-italic">& Budget</span></h2>
+            <p className="text-[10px] font-bold uppercase tracking-[0.3em] text-zinc-600 mt-1">Estimated from the local ledger · Not an invoice</p>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 rounded-full border border-white/10 hover:bg-white/10 flex items-center justify-center transition-colors" title="Close">
+            <i className="fa-solid fa-xmark text-zinc-400"></i>
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Stat label={`Project · ${project.name}`} value={spentOnProject(project.id, records)} cap={caps.projectCap} />
+          <Stat label="Today" value={spentToday(records)} cap={caps.dailyCap} />
+          <Stat label="All Time" value={records.reduce((sum, r) => sum + r.estimatedCost, 0)} />
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Budget caps */}
+          <div className="bg-[#070708] border border-white/5 rounded-2xl p-5 space-y-4">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">Budget Caps (USD)</h3>
+            <p className="text-[9px] text-zinc-600 leading-relaxed">New jobs are refused once a cap would be exceeded. Leave empty for no cap.</p>
+            <div className="grid grid-cols-2 gap-3">
+              {(['projectCap', 'dailyCap'] as const).map(key => (
+                <label key={key} className="space-y-1">
+                  <span className="text-[9px] font-bold uppercase tracking-widest text-zinc-500">{key === 'projectCap' ? 'Per Project' : 'Per Day'}</span>
+                  <input
+                    type="number" min="0" step="0.5"
+                    value={capInputs[key]}
+                    onChange={(e) => setCapInputs(prev => ({ ...prev, [key]: e.target.value }))}
+                    placeholder="No cap"
+                    className="w-full bg-[#050506] border border-white/10 rounded-xl px-4 py-2.5 text-[11px] font-mono outline-none focus:border-blue-600/50"
+                  />
+                </label>
+              ))}
+            </div>
+            <button onClick={saveCaps} className="bg-[#1d4ed8] hover:bg-blue-600 px-6 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-colors">Save Caps</button>
+          </div>
+
+          {/* Price table */}
+          <div className="bg-[#070708] border border-white/5 rounded-2xl p-5 space-y-4">
+            <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-zinc-400">Price Table (USD)</h3>
+            {Object.entries<ModelPrice>(prices).map(([model, price]) => (
+              <div key={model} className="space-y-2">
+                <p className="text-[9px] font-mono text-blue-300/80">{model}</p>
+                <div className="grid grid-cols-5 gap-2">
+                  {IMAGE_SIZES.map(size => (
+                    <label key={size} className="space-y-1">
+                      <span className="text-[8px] font-bold uppercase text-zinc-600">Img {size}</span>
+                      <input type="number" min="0" step="0.001" value={price.perImage?.[size] ?? ''} onChange={(e) => updatePrice(model, size, e.target.value)} className="w-full bg-[#050506] border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-mono outline-none focus:border-blue-600/50" />
+                    </label>
+                  ))}
+                  <label className="space-y-1">
+                    <span className="text-[8px] font-bold uppercase text-zinc-600">In /1M tok</span>
+                    <input type="number" min="0" step="0.01" value={price.inputPerMillionTokens ?? ''} onChange={(e) => updatePrice(model, 'inputPerMillionTokens', e.target.value)} className="w-full bg-[#050506] border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-mono outline-none focus:border-blue-600/50" />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-[8px] font-bold uppercase text-zinc-600">Video /s</span>
+                    <input type="number" min="0" step="0.01" value={price.perVideoSecond ?? ''} onChange={(e) => updatePrice(model, 'perVideoSecond', e.target.value)} className="w-full bg-[#050506] border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-mono outline-none focus:border-blue-600/50" />
+                  </label>
+                </div>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <button onClick={() => savePriceTable(prices)} className="bg-[#1d4ed8] hover:bg-blue-600 px-6 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-colors">Save Prices</button>
+              <button onClick={() => { resetPriceTable(); setPrices(getPriceTable()); }} className="border border-white/10 hover:bg-white/5 px-6 py-2.5 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-400 transition-colors">Reset</button>
+            </div>
+          </div>
+        </div>
+
+        {/* Ledger */}
+        <div className="space-y-4">
+          <div className="flex flex-wrap justify-between items-center gap-3">
+            <div className="flex bg-[#050506] border border-white/5 rounded-full p-1">
+              {(['project', 'all'] as const).map(s => (
+                <button key={s} onClick={() => setScope(s)} className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-colors ${scope === s ? 'bg-blue-600 text-white' : 'text-zinc-500 hover:text-white'}`}>
+                  {s === 'project' ? 'This Project' : 'All Projects'}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button onClick={exportCsv} disabled={visible.length === 0} className="border border-white/10 hover:bg-white/5 disabled:opacity-30 px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-widest text-zinc-300 transition-colors">
+                <i className="fa-solid fa-file-csv mr-2"></i>Export CSV
+              </button>
+              <button onClick={handleClear} className="border border-red-500/20 hover:bg-red-600/10 px-5 py-2 rounded-full text-[9px] font-black uppercase tracking-widest text-red-400 transition-colors">Clear</button>
+            </div>
+          </div>
+
+          <div className="border border-white/5 rounded-2xl overflow-x-auto max-h-[40vh]">
+            <table className="w-full text-left text-[10px]">
+              <thead className="bg-[#070708] sticky top-0">
+                <tr className="text-[8px] font-black uppercase tracking-widest text-zinc-500">
+                  <th className="px-4 py-3">Time</th>
+                  {scope === 'all' && <th className="px-4 py-3">Project</th>}
+                  <th className="px-4 py-3">Stage</th>
+                  <th className="px-4 py-3">Model</th>
+                  <th className="px-4 py-3">Size</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3 text-right">Tokens</th>
+                  <th className="px-4 py-3 text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.slice(0, MAX_ROWS).map(r => (
+                  <tr key={r.id} className="border-t border-white/5 text-zinc-400">
+                    <td className="px-4 py-2 font-mono whitespace-nowrap">{new Date(r.timestamp).toLocaleString()}</td>
+                    {scope === 'all' && <td className="px-4 py-2">{r.projectName}</td>}
+                    <td className="px-4 py-2 uppercase font-bold">{r.stage}</td>
+                    <td className="px-4 py-2 font-mono text-zinc-500">{r.model}</td>
+                    <td className="px-4 py-2 font-mono">{r.videoSeconds ? `${r.videoSeconds}s` : r.imageSize}</td>
+                    <td className={`px-4 py-2 font-bold uppercase ${r.status === 'success' ? 'text-green-500' : r.status === 'cancelled' ? 'text-amber-500' : r.status === 'cached' ? 'text-blue-400' : 'text-red-500'}`}>
+                      {r.status}{r.errorCode ? ` · ${r.errorCode}` : ''}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-right">{r.totalTokens ?? '—'}</td>
+                    <td className="px-4 py-2 font-mono text-right text-white">{formatUsd(r.estimatedCost)}</td>
+                  </tr>
+                ))}
+                {visible.length === 0 && (
+                  <tr><td colSpan={8} className="px-4 py-8 text-center text-zinc-600 uppercase tracking-widest text-[9px] font-bold">No usage recorded yet</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          {visible.length > MAX_ROWS && (
+            <p className="text-[9px] text-zinc-600 uppercase tracking-widest">Showing latest {MAX_ROWS} of {visible.length}. Export CSV for the full list.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
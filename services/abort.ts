@@ -0,0 +1,26 @@
+import { CancelledError } from './errors.ts';
+
+// --- CANCELLATION HELPERS ---
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError();
+};
+
+// setTimeout-based sleep that rejects with CancelledError as soon as `signal` aborts.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
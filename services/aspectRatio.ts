@@ -0,0 +1,75 @@
+// --- TARGET ASPECT RATIO ---
+// The project's output format. Every image step renders at this ratio, the grid
+// is requested so its cells come out at it, and the slicer crops to it. Veo only
+// renders 16:9 and 9:16, so video uses the closest of the two.
+
+export type TargetAspectRatio = '9:16' | '4:5' | '1:1' | '16:9';
+
+// Fractions of the frame covered by the platform's own UI (buttons, captions,
+// progress bar); burned-in captions stay out of them.
+export interface SafeZone {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface AspectRatioPreset {
+  id: TargetAspectRatio;
+  label: string;
+  platforms: string;
+  cropSize: { width: number; height: number }; // pixels of a sliced grid cell
+  video: '9:16' | '16:9';
+  safeZone: SafeZone;
+}
+
+export const ASPECT_RATIOS: Record<TargetAspectRatio, AspectRatioPreset> = {
+  '9:16': {
+    id: '9:16', label: 'Vertical', platforms: 'TikTok · Reels · Shorts', cropSize: { width: 1024, height: 1792 }, video: '9:16',
+    safeZone: { top: 0.12, bottom: 0.22, left: 0.06, right: 0.16 }
+  },
+  '4:5': {
+    id: '4:5', label: 'Portrait', platforms: 'Instagram Feed', cropSize: { width: 1440, height: 1800 }, video: '9:16',
+    safeZone: { top: 0.06, bottom: 0.1, left: 0.06, right: 0.06 }
+  },
+  '1:1': {
+    id: '1:1', label: 'Square', platforms: 'Marketplace Listings', cropSize: { width: 1536, height: 1536 }, video: '9:16',
+    safeZone: { top: 0.05, bottom: 0.08, left: 0.05, right: 0.05 }
+  },
+  '16:9': {
+    id: '16:9', label: 'Landscape', platforms: 'YouTube', cropSize: { width: 1792, height: 1024 }, video: '16:9',
+    safeZone: { top: 0.06, bottom: 0.14, left: 0.05, right: 0.05 }
+  }
+};
+
+export const DEFAULT_ASPECT_RATIO: TargetAspectRatio = '9:16';
+
+export const getAspectRatio = (id: TargetAspectRatio): AspectRatioPreset => ASPECT_RATIOS[id] ?? ASPECT_RATIOS[DEFAULT_ASPECT_RATIO];
+
+// Aspect ratios the image model accepts, as width / height.
+const SUPPORTED_ASPECT_RATIOS: Record<string, number> = {
+  '1:1': 1,
+  '2:3': 2 / 3,
+  '3:2': 3 / 2,
+  '3:4': 3 / 4,
+  '4:3': 4 / 3,
+  '4:5': 4 / 5,
+  '5:4': 5 / 4,
+  '9:16': 9 / 16,
+  '16:9': 16 / 9,
+  '21:9': 21 / 9
+};
+
+export const parseAspectRatio = (ratio: string): number => {
+  const [w, h] = ratio.split(':').map(Number);
+  return w / h;
+};
+
+// The supported ratio closest (on a log scale) to the given width / height.
+export const nearestAspectRatio = (target: number): string =>
+  Object.entries(SUPPORTED_ASPECT_RATIOS)
+    .reduce((best, [name, value]) =>
+      Math.abs(Math.log(value / target)) < Math.abs(Math.log(SUPPORTED_ASPECT_RATIOS[best] / target)) ? name : best, '9:16');
+
+// Value for the CSS `aspect-ratio` property, e.g. "4 / 5".
+export const cssAspectRatio = (ratio: string): string => ratio.replace(':', ' / ');
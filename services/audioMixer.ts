@@ -0,0 +1,103 @@
+import { GenerationError } from './errors.ts';
+
+// --- AUDIO MIX FOR ASSEMBLED ADS ---
+// Uploaded music beds / voiceovers and the scene clips' own sound are mixed
+// with the Web Audio API into a MediaStream track the assembler records next to
+// the canvas. The graph is never connected to the speakers, so an export runs
+// silently.
+
+export type AudioTrackKind = 'music' | 'voiceover';
+
+// Stored with the project; `src` is the uploaded file as a data URL.
+export interface AudioTrack {
+  id: string;
+  name: string;
+  kind: AudioTrackKind;
+  src: string;
+  offsetSeconds: number; // where on the ad timeline the track starts
+  volume: number;        // 0..1
+  loop: boolean;         // repeat until the ad ends (music beds)
+}
+
+export const AUDIO_TRACK_KINDS: Record<AudioTrackKind, string> = {
+  music: 'Music',
+  voiceover: 'Voiceover'
+};
+
+// Music level while a clip is on screen, as a factor of the track volume.
+export const MUSIC_LEVELS = [1, 0.5, 0.25, 0];
+
+const DUCK_RAMP_SECONDS = 0.3;
+
+// A span of the output timeline and the music level wanted during it.
+export interface DuckSpan {
+  start: number;
+  end: number;
+  musicLevel: number;
+}
+
+export interface AudioMix {
+  track: MediaStreamTrack;
+  // Routes a clip's sound into the mix at `volume`.
+  addVideo: (video: HTMLVideoElement, volume: number) => void;
+  // Starts the uploaded tracks; call when recording starts.
+  start: () => void;
+  close: () => Promise<void>;
+}
+
+const decodeTrack = async (ctx: AudioContext, track: AudioTrack): Promise<AudioBuffer> => {
+  try {
+    const data = await (await fetch(track.src)).arrayBuffer();
+    return await ctx.decodeAudioData(data);
+  } catch (e) {
+    throw new GenerationError('ASSEMBLY', `The audio file "${track.name}" could not be decoded.`, { cause: e });
+  }
+};
+
+export const createAudioMix = async (tracks: AudioTrack[], spans: DuckSpan[], totalSeconds: number): Promise<AudioMix> => {
+  if (typeof AudioContext === 'undefined') {
+    throw new GenerationError('ASSEMBLY', "This browser cannot mix audio (Web Audio unavailable).");
+  }
+  const ctx = new AudioContext();
+  const destination = ctx.createMediaStreamDestination();
+  const buffers = await Promise.all(tracks.map(track => decodeTrack(ctx, track)));
+
+  const addVideo = (video: HTMLVideoElement, volume: number) => {
+    // The element's sound now only reaches the graph, not the speakers
+    video.muted = false;
+    const gain = ctx.createGain();
+    gain.gain.value = volume;
+    ctx.createMediaElementSource(video).connect(gain).connect(destination);
+  };
+
+  const start = () => {
+    const t0 = ctx.currentTime;
+    tracks.forEach((track, i) => {
+      if (track.offsetSeconds >= totalSeconds) return;
+      const source = ctx.createBufferSource();
+      source.buffer = buffers[i];
+      source.loop = track.loop;
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(track.volume, t0);
+      if (track.kind === 'music') {
+        spans.forEach(span => {
+          const level = track.volume * span.musicLevel;
+          gain.gain.setTargetAtTime(level, t0 + span.start, DUCK_RAMP_SECONDS / 3);
+        });
+      }
+      source.connect(gain).connect(destination);
+      source.start(t0 + track.offsetSeconds);
+      source.stop(t0 + totalSeconds);
+    });
+  };
+
+  // Browsers keep a new context suspended until resumed
+  await ctx.resume();
+
+  return {
+    track: destination.stream.getAudioTracks()[0],
+    addVideo,
+    start,
+    close: () => ctx.close()
+  };
+};
@@ -0,0 +1,250 @@
+import { AuthError, BudgetExceededError, CancelledError, QuotaError, toGenerationError } from './errors.ts';
+import { throwIfAborted } from './abort.ts';
+import { extractCell, generateRefinementVariations, generateStoryboardGrid } from './geminiService.ts';
+import { resolveCategory } from './categories.ts';
+import { cellCount, getGridLayout, GridLayoutId } from './gridLayout.ts';
+import { detectGridCuts, GridCuts } from './gridSlicer.ts';
+import { TargetAspectRatio } from './aspectRatio.ts';
+import { PromptRef } from './promptTemplates.ts';
+import { ModelPersona, projectIdentity, selectReferences } from './personas.ts';
+import { productSet } from './productRefs.ts';
+import { BrandKit } from './brandKits.ts';
+
+// --- BATCH CAMPAIGNS ---
+// One model photographed with many products. Every product runs the same
+// pipeline as a single project (refinement, grid, extraction) without anyone
+// clicking through the steps; the dashboard then picks candidates, retries
+// failures and opens a finished product as a normal project. Each product is
+// metered as its own project, so its spend shows up separately in the usage
+// ledger and its id is reused when it's opened. The batch lives in memory for
+// the session and survives closing the dashboard.
+
+export type BatchStatus = 'queued' | 'refining' | 'grid' | 'extracting' | 'done' | 'failed' | 'cancelled';
+
+export const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: 'Queued',
+  refining: 'Refining',
+  grid: 'Grid',
+  extracting: 'Slicing',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+export interface BatchItem {
+  id: string; // project id of this product
+  name: string;
+  sku: string | null;
+  productImage: string;
+  promptInstruction: string;
+  categoryOverride: string | null; // null = auto-detect
+  // Per product creative direction (catalog import); null = the batch's
+  brandingText: string | null;
+  stylePrompt: string | null;
+  status: BatchStatus;
+  candidates: string[];
+  combinedImage: string | null; // picked candidate, the grid's reference
+  combinedPrompt: PromptRef | null;
+  storyboardGrid: string | null;
+  storyboardPrompt: PromptRef | null;
+  gridCuts: GridCuts | null;
+  scenes: string[];
+  error: string | null;
+}
+
+// A product to add: a picked photo or a catalog row.
+export interface BatchProduct {
+  name: string;
+  image: string;
+  sku?: string | null;
+  promptInstruction?: string;
+  categoryOverride?: string | null;
+  brandingText?: string | null;
+  stylePrompt?: string | null;
+}
+
+// Shared by every product; taken from the open project when the batch starts.
+export interface BatchSettings {
+  name: string;
+  modelImage: string;
+  persona: ModelPersona | null; // extra reference photos of the model, when picked from the library
+  brandingText: string;
+  stylePrompt: string;
+  brandKit: BrandKit | null; // logo, colors and reference photos shared by every product
+  gridLayout: GridLayoutId;
+  aspectRatio: TargetAspectRatio;
+  forceFresh: boolean;
+}
+
+// Products in flight at once. Their model calls still queue per model in
+// jobQueue.ts; this only keeps a few products moving instead of all starting
+// their refinement together.
+const BATCH_CONCURRENCY = 2;
+const ACTIVE: BatchStatus[] = ['refining', 'grid', 'extracting'];
+
+let items: BatchItem[] = [];
+let settings: BatchSettings | null = null;
+const controllers = new Map<string, AbortController>();
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeBatch = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const listBatchItems = (): BatchItem[] => items;
+export const getBatchSettings = (): BatchSettings | null => settings;
+export const isBatchItemActive = (item: BatchItem) => ACTIVE.includes(item.status);
+
+const patchItem = (id: string, patch: Partial<BatchItem>) => {
+  items = items.map(item => item.id === id ? { ...item, ...patch } : item);
+  notify();
+};
+
+export const addBatchProducts = (products: BatchProduct[]) => {
+  items = [...items, ...products.map((product): BatchItem => ({
+    id: crypto.randomUUID(),
+    name: product.name,
+    sku: product.sku ?? null,
+    productImage: product.image,
+    promptInstruction: product.promptInstruction ?? '',
+    categoryOverride: product.categoryOverride ?? null,
+    brandingText: product.brandingText ?? null,
+    stylePrompt: product.stylePrompt ?? null,
+    status: 'queued',
+    candidates: [],
+    combinedImage: null,
+    combinedPrompt: null,
+    storyboardGrid: null,
+    storyboardPrompt: null,
+    gridCuts: null,
+    scenes: [],
+    error: null
+  }))];
+  notify();
+};
+
+// Instruction / category edits start the product over on its next run.
+export const updateBatchItem = (id: string, patch: Pick<Partial<BatchItem>, 'name' | 'promptInstruction' | 'categoryOverride'>) => {
+  const item = items.find(i => i.id === id);
+  if (!item || isBatchItemActive(item)) return;
+  const restart = patch.promptInstruction !== undefined || patch.categoryOverride !== undefined;
+  patchItem(id, restart && item.status !== 'queued'
+    ? { ...patch, status: 'queued', candidates: [], combinedImage: null, combinedPrompt: null, storyboardGrid: null, storyboardPrompt: null, gridCuts: null, scenes: [], error: null }
+    : patch);
+};
+
+export const removeBatchItem = (id: string) => {
+  controllers.get(id)?.abort();
+  items = items.filter(item => item.id !== id);
+  notify();
+};
+
+export const clearBatch = () => {
+  controllers.forEach(controller => controller.abort());
+  items = [];
+  notify();
+};
+
+// Stops running products and keeps the rest from starting.
+export const cancelBatch = () => {
+  controllers.forEach(controller => controller.abort());
+  items = items.map(item => item.status === 'queued' || isBatchItemActive(item) ? { ...item, status: 'cancelled' } : item);
+  notify();
+};
+
+export const batchBranding = (item: BatchItem, shared: Pick<BatchSettings, 'brandingText'>) => item.brandingText ?? shared.brandingText;
+export const batchStyle = (item: BatchItem, shared: Pick<BatchSettings, 'stylePrompt'>) => item.stylePrompt ?? shared.stylePrompt;
+
+const runItem = async (item: BatchItem, shared: BatchSettings, signal: AbortSignal) => {
+  const options = {
+    signal,
+    forceFresh: shared.forceFresh,
+    aspectRatio: shared.aspectRatio,
+    project: { id: item.id, name: `${shared.name} · ${item.name}` },
+    // Interactive work on the open project goes first
+    priority: 'low' as const
+  };
+  const products = productSet(item.productImage, []);
+  let combinedImage = item.combinedImage;
+  if (!combinedImage) {
+    patchItem(item.id, { status: 'refining', error: null });
+    const identity = selectReferences(projectIdentity(shared.modelImage, shared.persona), item.promptInstruction);
+    const candidates = await generateRefinementVariations(shared.modelImage, products, item.promptInstruction, identity, options);
+    combinedImage = candidates[0].image;
+    patchItem(item.id, { candidates: candidates.map(c => c.image), combinedImage, combinedPrompt: candidates[0].prompt });
+  }
+
+  patchItem(item.id, { status: 'grid', error: null });
+  const layout = getGridLayout(shared.gridLayout);
+  const brandingText = batchBranding(item, shared);
+  const category = resolveCategory(`${item.promptInstruction} ${brandingText || ""}`, item.categoryOverride);
+  const grid = await generateStoryboardGrid(combinedImage, brandingText, batchStyle(item, shared) || "Cinematic", item.promptInstruction, category, layout, products, shared.brandKit, options);
+  const cuts = await detectGridCuts(grid.image, layout);
+  throwIfAborted(signal);
+  patchItem(item.id, { status: 'extracting', storyboardGrid: grid.image, storyboardPrompt: grid.prompt, gridCuts: cuts, scenes: [] });
+
+  const scenes: string[] = [];
+  for (let i = 0; i < cellCount(layout); i++) {
+    throwIfAborted(signal);
+    scenes.push(await extractCell(grid.image, i, cuts, shared.aspectRatio));
+    patchItem(item.id, { scenes: [...scenes] });
+  }
+  patchItem(item.id, { status: 'done' });
+};
+
+const pump = () => {
+  const shared = settings;
+  if (!shared) return;
+  while (controllers.size < BATCH_CONCURRENCY) {
+    const next = items.find(item => item.status === 'queued' && !controllers.has(item.id));
+    if (!next) return;
+    const controller = new AbortController();
+    controllers.set(next.id, controller);
+    void runItem(next, shared, controller.signal)
+      .catch(e => {
+        const error = toGenerationError(e);
+        if (!items.some(item => item.id === next.id)) return;
+        if (error instanceof CancelledError) {
+          patchItem(next.id, { status: 'cancelled' });
+          return;
+        }
+        patchItem(next.id, { status: 'failed', error: error.message });
+        // The next product would fail the same way (a project cap only stops this product)
+        const fatal = error instanceof QuotaError || error instanceof AuthError || (error instanceof BudgetExceededError && error.scope === 'daily');
+        if (fatal) cancelBatch();
+      })
+      .finally(() => {
+        controllers.delete(next.id);
+        pump();
+      });
+  }
+};
+
+// Runs every queued product with `shared`; also used to resume after a cancel.
+export const runBatch = (shared: BatchSettings) => {
+  settings = shared;
+  items = items.map(item => item.status === 'cancelled' ? { ...item, status: 'queued' } : item);
+  notify();
+  pump();
+};
+
+// Failed products pick up where they stopped: a product that already has its
+// refinement candidates only redoes the grid.
+export const retryBatchItems = (ids: string[]) => {
+  items = items.map(item => ids.includes(item.id) && (item.status === 'failed' || item.status === 'cancelled')
+    ? { ...item, status: 'queued', error: null }
+    : item);
+  notify();
+  pump();
+};
+
+// A different candidate needs a new grid built from it.
+export const pickBatchCandidate = (id: string, image: string) => {
+  const item = items.find(i => i.id === id);
+  if (!item || isBatchItemActive(item) || item.combinedImage === image) return;
+  patchItem(id, { combinedImage: image, storyboardGrid: null, storyboardPrompt: null, gridCuts: null, scenes: [], status: 'queued', error: null });
+  pump();
+};
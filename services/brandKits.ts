@@ -0,0 +1,75 @@
+import { dbDelete, dbGetAll, dbPut } from './db.ts';
+import { CustomizationOptions, GenerationState } from '../types.ts';
+
+// --- BRAND KITS ---
+// A brand kit is a named CustomizationOptions: style, font, placement and
+// branding text plus a logo, brand colors and background / lighting reference
+// photos. Applying one fills REFINE's creative direction in one click; the
+// project keeps a copy so its images still reach branding and the grid after
+// the kit is edited or deleted, and project files stay self-contained.
+
+export interface BrandKit extends CustomizationOptions {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+// What branding and the grid receive besides the text settings.
+export type BrandAssets = Pick<CustomizationOptions, 'logo' | 'colors' | 'backgroundRef' | 'lightingRef'>;
+
+export const MAX_BRAND_COLORS = 6;
+
+export type BrandSettings = Pick<GenerationState, 'brandingText' | 'stylePrompt' | 'fontStyle' | 'textPlacement'>;
+
+export const newBrandKit = (settings: BrandSettings): BrandKit => ({
+  id: crypto.randomUUID(),
+  name: '',
+  background: settings.stylePrompt,
+  backgroundRef: null,
+  lightingRef: null,
+  neonText: settings.brandingText,
+  fontStyle: settings.fontStyle,
+  textPlacement: settings.textPlacement,
+  logo: null,
+  colors: [],
+  updatedAt: Date.now()
+});
+
+// Project fields a kit sets when applied.
+export const brandSettings = (kit: BrandKit): BrandSettings => ({
+  brandingText: kit.neonText,
+  stylePrompt: kit.background,
+  fontStyle: kit.fontStyle,
+  textPlacement: kit.textPlacement
+});
+
+// --- LIBRARY ---
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeBrandKits = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  try {
+    const kits = await dbGetAll<BrandKit>('brandKits');
+    return kits.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (e) {
+    console.warn('Brand kit storage unavailable:', e);
+    return [];
+  }
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<BrandKit> => {
+  const saved = { ...kit, updatedAt: Date.now() };
+  await dbPut('brandKits', saved);
+  notify();
+  return saved;
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  await dbDelete('brandKits', id);
+  notify();
+};
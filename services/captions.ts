@@ -0,0 +1,192 @@
+import { SceneFrame } from '../types.ts';
+import { SafeZone } from './aspectRatio.ts';
+
+// --- CAPTIONS / SUBTITLES ---
+// A scene's dialogue is treated as its script: split into short lines and timed
+// across the clip in proportion to their length. Cues export as SRT / WebVTT or
+// are drawn onto the frames by the assembler (burned in).
+
+export interface CaptionCue {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export type CaptionPosition = 'top' | 'middle' | 'bottom';
+export type CaptionSize = 'small' | 'medium' | 'large';
+
+export interface CaptionStyle {
+  font: string;
+  size: CaptionSize;
+  position: CaptionPosition;
+  color: string;
+  outline: boolean;
+}
+
+export const CAPTION_FONTS = ['Plus Jakarta Sans', 'Arial', 'Impact', 'Georgia', 'Courier New'];
+
+export const CAPTION_POSITIONS: Record<CaptionPosition, string> = {
+  top: 'Top',
+  middle: 'Middle',
+  bottom: 'Bottom'
+};
+
+// Font size as a fraction of the frame width.
+const CAPTION_SIZES: Record<CaptionSize, number> = {
+  small: 0.042,
+  medium: 0.055,
+  large: 0.07
+};
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  font: 'Plus Jakarta Sans',
+  size: 'medium',
+  position: 'bottom',
+  color: '#ffffff',
+  outline: true
+};
+
+// Length of a Veo clip, for scenes whose video duration hasn't been measured.
+const FALLBACK_CLIP_SECONDS = 8;
+
+const MAX_LINE_CHARS = 42;
+const LEAD_IN_SECONDS = 0.2;
+const MIN_CUE_SECONDS = 0.8;
+
+// "mm:ss" as shown on the scene card; null when not measured yet.
+export const parseDuration = (value?: string): number | null => {
+  if (!value) return null;
+  const [m, s] = value.split(':').map(Number);
+  const seconds = m * 60 + s;
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+};
+
+// The dialogue a scene's clip was asked to speak. In JSON mode it's read from
+// the prompt's "dialogue" field when the JSON parses.
+export const sceneScript = (scene: SceneFrame): string => {
+  if (!scene.jsonMode) return scene.dialoguePrompt?.trim() ?? '';
+  try {
+    const dialogue = JSON.parse(scene.jsonPrompt || '{}')?.dialogue;
+    return typeof dialogue === 'string' ? dialogue.trim() : '';
+  } catch {
+    return '';
+  }
+};
+
+export const sceneClipSeconds = (scene: SceneFrame): number =>
+  parseDuration(scene.videoDuration) ?? FALLBACK_CLIP_SECONDS;
+
+// Sentences of the script, broken further so no cue is longer than one line.
+export const scriptLines = (script: string): string[] =>
+  script
+    .replace(/^["'“]+|["'”]+$/g, '')
+    .split(/\n+|(?<=[.!?…])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+    .flatMap(sentence => {
+      const lines: string[] = [];
+      let line = '';
+      sentence.split(/\s+/).forEach(word => {
+        if (line && (line + ' ' + word).length > MAX_LINE_CHARS) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = line ? `${line} ${word}` : word;
+        }
+      });
+      if (line) lines.push(line);
+      return lines;
+    });
+
+// Spreads the script over a clip of `durationSeconds` starting at `offset`.
+export const sceneCues = (script: string, durationSeconds: number, offset = 0): CaptionCue[] => {
+  const lines = scriptLines(script);
+  if (lines.length === 0 || durationSeconds <= 0) return [];
+  const available = Math.max(durationSeconds - LEAD_IN_SECONDS, MIN_CUE_SECONDS);
+  const totalChars = lines.reduce((sum, line) => sum + line.length, 0);
+  let cursor = offset + Math.min(LEAD_IN_SECONDS, durationSeconds / 10);
+  return lines.map(line => {
+    const length = Math.max(MIN_CUE_SECONDS, available * line.length / totalChars);
+    const cue = { start: cursor, end: Math.min(cursor + length, offset + durationSeconds), text: line };
+    cursor = cue.end;
+    return cue;
+  }).filter(cue => cue.end > cue.start);
+};
+
+export const activeCue = (cues: CaptionCue[], time: number): CaptionCue | undefined =>
+  cues.find(cue => time >= cue.start && time < cue.end);
+
+const timestamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export const toSrt = (cues: CaptionCue[]): string =>
+  cues.map((cue, i) => `${i + 1}\n${timestamp(cue.start, ',')} --> ${timestamp(cue.end, ',')}\n${cue.text}\n`).join('\n');
+
+export const toVtt = (cues: CaptionCue[]): string =>
+  `WEBVTT\n\n${cues.map(cue => `${timestamp(cue.start, '.')} --> ${timestamp(cue.end, '.')}\n${cue.text}\n`).join('\n')}`;
+
+export const captionFile = (cues: CaptionCue[], format: CaptionFormat): Blob =>
+  format === 'srt'
+    ? new Blob([toSrt(cues)], { type: 'application/x-subrip' })
+    : new Blob([toVtt(cues)], { type: 'text/vtt' });
+
+const wrap = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Draws one cue inside the frame's safe zone.
+export const drawCaption = (ctx: CanvasRenderingContext2D, text: string, style: CaptionStyle, safeZone: SafeZone) => {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.round(width * CAPTION_SIZES[style.size]);
+  const left = width * safeZone.left;
+  const right = width * (1 - safeZone.right);
+  const top = height * safeZone.top;
+  const bottom = height * (1 - safeZone.bottom);
+
+  ctx.save();
+  ctx.font = `800 ${fontSize}px "${style.font}", sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const lines = wrap(ctx, text, right - left);
+  const lineHeight = fontSize * 1.25;
+  const blockHeight = lines.length * lineHeight;
+  const firstY = style.position === 'top'
+    ? top + lineHeight / 2
+    : style.position === 'middle'
+      ? (top + bottom) / 2 - blockHeight / 2 + lineHeight / 2
+      : bottom - blockHeight + lineHeight / 2;
+  const x = (left + right) / 2;
+
+  lines.forEach((line, i) => {
+    const y = firstY + i * lineHeight;
+    if (style.outline) {
+      ctx.lineWidth = Math.max(2, fontSize * 0.14);
+      ctx.lineJoin = 'round';
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.9)';
+      ctx.strokeText(line, x, y);
+    } else {
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.8)';
+      ctx.shadowBlur = fontSize * 0.3;
+    }
+    ctx.fillStyle = style.color;
+    ctx.fillText(line, x, y);
+  });
+  ctx.restore();
+};
@@ -0,0 +1,198 @@
+import { GenerationError } from './errors.ts';
+import { ProductCategory } from './categories.ts';
+import { BACKGROUND_PRESETS } from './stylePresets.ts';
+import { BatchProduct } from './batch.ts';
+import { blobToDataUrl } from './projectFile.ts';
+
+// --- PRODUCT CATALOG IMPORT ---
+// A CSV or JSON product list plus the image files it names become batch
+// products. Columns are matched by name in any order / case; every row is
+// checked on its own, so one bad row doesn't block the rest of the catalog.
+//
+//   name, sku, category, image, instruction, branding, style
+//
+// `image` is a file name from the selected images (folder paths are ignored).
+// `category` is a category id or label; empty means auto-detect. `style` is one
+// of the background presets; empty uses the batch's style.
+
+export type CatalogField = 'name' | 'sku' | 'category' | 'image' | 'instruction' | 'branding' | 'style';
+
+const FIELD_ALIASES: Record<CatalogField, string[]> = {
+  name: ['name', 'product', 'product name', 'title'],
+  sku: ['sku', 'id', 'code'],
+  category: ['category', 'kategori'],
+  image: ['image', 'image file', 'file', 'photo', 'gambar'],
+  instruction: ['instruction', 'placement', 'placement instruction', 'prompt', 'promptinstruction'],
+  branding: ['branding', 'branding text', 'brandingtext', 'brand'],
+  style: ['style', 'style prompt', 'styleprompt', 'background']
+};
+
+export const CATALOG_COLUMNS = Object.keys(FIELD_ALIASES) as CatalogField[];
+
+export interface CatalogIssue {
+  row: number; // 1-based product row (header and blank lines not counted)
+  field: CatalogField | null;
+  message: string;
+}
+
+export interface CatalogRow {
+  row: number;
+  product: BatchProduct | null; // null when the row has issues
+  issues: CatalogIssue[];
+}
+
+type RawRow = Partial<Record<CatalogField, string>>;
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+
+const fieldFor = (column: string): CatalogField | undefined => {
+  const key = normalizeKey(column);
+  return CATALOG_COLUMNS.find(field => FIELD_ALIASES[field].includes(key) || FIELD_ALIASES[field].includes(key.replace(/ /g, '')));
+};
+
+// RFC 4180: quoted fields may hold commas, quotes ("") and line breaks.
+// Semicolon-separated files (spreadsheet exports in some locales) are detected
+// from the header line.
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const readCsvRows = (text: string): RawRow[] => {
+  const [header, ...body] = parseCsv(text);
+  if (!header) throw new GenerationError('CATALOG', 'The catalog file is empty.');
+  const fields = header.map(fieldFor);
+  if (!fields.includes('image')) {
+    throw new GenerationError('CATALOG', `The catalog needs an "image" column. Found: ${header.join(', ')}.`);
+  }
+  return body.map(cells => {
+    const row: RawRow = {};
+    fields.forEach((field, i) => { if (field && cells[i] !== undefined) row[field] = cells[i].trim(); });
+    return row;
+  });
+};
+
+// An array of objects, or { products: [...] }.
+const readJsonRows = (text: string): RawRow[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new GenerationError('CATALOG', 'The catalog is not valid JSON.', { cause: e });
+  }
+  const list = Array.isArray(data) ? data : (data as { products?: unknown })?.products;
+  if (!Array.isArray(list)) throw new GenerationError('CATALOG', 'A JSON catalog must be a list of products (or { "products": [...] }).');
+  return list.map(entry => {
+    const row: RawRow = {};
+    if (entry && typeof entry === 'object') {
+      Object.entries(entry).forEach(([key, value]) => {
+        const field = fieldFor(key);
+        if (field && value !== null && value !== undefined) row[field] = String(value).trim();
+      });
+    }
+    return row;
+  });
+};
+
+const baseName = (path: string) => path.split(/[\\/]/).pop()!.toLowerCase();
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// Checks every row against the selected images and known categories / styles.
+// Images are only read for rows that pass.
+export const importCatalog = async (catalog: File, images: File[], categories: ProductCategory[]): Promise<CatalogRow[]> => {
+  const text = await catalog.text();
+  const raw = /\.json$/i.test(catalog.name) || text.trimStart().startsWith('[') || text.trimStart().startsWith('{')
+    ? readJsonRows(text)
+    : readCsvRows(text);
+  if (raw.length === 0) throw new GenerationError('CATALOG', 'The catalog has no product rows.');
+
+  const byName = new Map<string, File>();
+  const byStem = new Map<string, File>();
+  images.filter(f => f.type.startsWith('image/')).forEach(file => {
+    byName.set(baseName(file.name), file);
+    byStem.set(stripExtension(baseName(file.name)), file);
+  });
+  const seenSkus = new Set<string>();
+
+  return Promise.all(raw.map(async (values, i): Promise<CatalogRow> => {
+    const row = i + 1;
+    const issues: CatalogIssue[] = [];
+    const issue = (field: CatalogField | null, message: string) => issues.push({ row, field, message });
+
+    const imageName = values.image ? baseName(values.image) : '';
+    const file = imageName ? byName.get(imageName) ?? byStem.get(stripExtension(imageName)) : undefined;
+    if (!imageName) issue('image', 'No image file named.');
+    else if (!file) issue('image', `Image "${values.image}" is not among the selected files.`);
+
+    let categoryOverride: string | null = null;
+    if (values.category) {
+      const wanted = values.category.toLowerCase();
+      const category = categories.find(c => c.id.toLowerCase() === wanted || c.label.toLowerCase() === wanted);
+      if (category) categoryOverride = category.id;
+      else issue('category', `Unknown category "${values.category}".`);
+    }
+
+    let stylePrompt: string | null = null;
+    if (values.style) {
+      const preset = BACKGROUND_PRESETS.find(p => p.toLowerCase() === values.style!.toLowerCase());
+      if (preset) stylePrompt = preset;
+      else issue('style', `Unknown style "${values.style}". Use one of: ${BACKGROUND_PRESETS.join(', ')}.`);
+    }
+
+    if (values.sku) {
+      if (seenSkus.has(values.sku.toLowerCase())) issue('sku', `SKU "${values.sku}" appears more than once.`);
+      seenSkus.add(values.sku.toLowerCase());
+    }
+
+    if (issues.length > 0 || !file) return { row, product: null, issues };
+    const name = values.name || values.sku || stripExtension(file.name);
+    let image: string;
+    try {
+      image = await blobToDataUrl(file);
+    } catch {
+      issue('image', `Image "${file.name}" could not be read.`);
+      return { row, product: null, issues };
+    }
+    return {
+      row,
+      issues,
+      product: {
+        name,
+        sku: values.sku || null,
+        image,
+        promptInstruction: values.instruction ?? '',
+        categoryOverride,
+        brandingText: values.branding || null,
+        stylePrompt
+      }
+    };
+  }));
+};
@@ -0,0 +1,246 @@
+import { cellCount, GridLayout } from './gridLayout.ts';
+
+// --- PRODUCT CATEGORIES ---
+// Category rules drive the storyboard's composition plan. Each category lists
+// keywords (any language) matched against the instruction and branding text;
+// when several match, the highest priority wins. Shot lists are either three
+// rows or nine individual cells. Built-ins are read-only; user categories are
+// stored in localStorage. A category without keywords can only be picked manually.
+
+export interface CategoryShot {
+  title?: string; // e.g. "PRODUCT MACRO"
+  text: string;
+}
+
+export interface ProductCategory {
+  id: string;
+  label: string;
+  keywords: string[];
+  priority: number;
+  strategy: string;
+  shots: CategoryShot[]; // 3 = one per row, 9 = one per cell
+  builtin?: boolean;
+}
+
+export const FALLBACK_CATEGORY_ID = 'GENERAL_FASHION';
+
+const CUSTOM_CATEGORIES_KEY = 'PRODUCT_CATEGORIES';
+
+const BUILTIN_CATEGORIES: ProductCategory[] = [
+  {
+    id: 'BEAUTY_COSMETIC',
+    label: 'Beauty & Cosmetics',
+    priority: 50,
+    keywords: ['lipstick', 'lipstik', 'mascara', 'eyeliner', 'blush', 'cosmetic', 'kosmetik', 'makeup', 'skincare', 'serum', 'cream', 'wajah', 'muka'],
+    strategy: 'COSMETIC ADVERTISING CAMPAIGN (FOCUS ON PIGMENT & APPLICATION).',
+    shots: [
+      { title: 'PRODUCT MACRO', text: 'Extreme close-up of the product (lipstick bullet, cream texture). Background blurred.' },
+      { title: 'APPLICATION', text: 'Model applying the product to lips/face. Focus strictly on the application area.' },
+      { title: 'FINAL LOOK', text: 'Model holding the product next to their face, showing the result.' }
+    ]
+  },
+  {
+    id: 'SUPPLEMENT_HEALTH',
+    label: 'Supplements & Health',
+    priority: 45,
+    keywords: ['supplement', 'suplemen', 'vitamin', 'capsule', 'kapsul', 'tablet vitamin', 'herbal', 'jamu', 'protein', 'collagen', 'kolagen', 'probiotic', 'probiotik', 'madu', 'honey'],
+    strategy: 'WELLNESS PRODUCT CAMPAIGN (FOCUS ON TRUST, LABEL & DAILY RITUAL).',
+    shots: [
+      { title: 'LABEL HERO', text: 'Clean close-up of the bottle/box with the label sharp and legible. Capsules or powder arranged beside it.' },
+      { title: 'DAILY RITUAL', text: 'Model taking the product with water or mixing it into a drink. Bright, fresh morning light.' },
+      { title: 'RESULT MOOD', text: 'Model looking energetic and healthy with the product visible in hand or on the table.' }
+    ]
+  },
+  {
+    id: 'LUXURY_ACCESSORY',
+    label: 'Luxury & Jewelry',
+    priority: 40,
+    keywords: ['watch', 'jam', 'jewelry', 'perhiasan', 'ring', 'cincin', 'necklace', 'kalung', 'earring', 'anting', 'glasses', 'kacamata', 'spectacles'],
+    strategy: 'HIGH-END LUXURY COMMERCIAL (FOCUS ON SHINE & DETAIL).',
+    shots: [
+      { title: 'HERO MACRO', text: 'Extreme close-up of the watch dial / jewelry detail. Show light reflections.' },
+      { title: 'ON BODY', text: 'Focused shot on the Wrist (for watch) or Neck/Ears (for jewelry). Shallow depth of field.' },
+      { title: 'ELEGANCE', text: 'Model posing elegantly with hand placement emphasizing the accessory.' }
+    ]
+  },
+  {
+    id: 'FOOD_BEVERAGE',
+    label: 'Food & Beverage',
+    priority: 35,
+    keywords: ['food', 'makanan', 'snack', 'camilan', 'cemilan', 'keripik', 'chips', 'coffee', 'kopi', 'tea', 'teh', 'drink', 'minuman', 'sauce', 'sambal', 'frozen food', 'cookies', 'kue', 'chocolate', 'coklat', 'cokelat', 'noodle', 'mie'],
+    strategy: 'FOOD COMMERCIAL (FOCUS ON APPETITE, TEXTURE & PACKAGING).',
+    shots: [
+      { title: 'APPETITE MACRO', text: 'Extreme close-up of the food/drink itself. Show texture, steam, crumbs or condensation. Packaging blurred behind.' },
+      { title: 'TASTING', text: 'Model taking a bite or a sip with a genuine reaction. Product packaging visible in the other hand.' },
+      { title: 'SERVING SCENE', text: 'Styled table or kitchen scene with the packaging as hero next to the served product.' }
+    ]
+  },
+  {
+    id: 'HANDHELD_PRODUCT',
+    label: 'Gadgets & Bags',
+    priority: 30,
+    keywords: ['phone', 'hp', 'handphone', 'mobile', 'gadget', 'tablet', 'camera', 'kamera', 'bag', 'tas', 'handbag', 'tote', 'purse', 'wallet', 'dompet'],
+    strategy: 'TECH & LIFESTYLE PROMOTION (FOCUS ON PRODUCT DESIGN).',
+    shots: [
+      { title: 'HERO PRODUCT', text: 'Clean shot of the product in hand or floating. Show logo and sleek design.' },
+      { title: 'INTERACTION', text: 'Model using the device (e.g. taking a selfie, scrolling). Product MUST be visible.' },
+      { title: 'LIFESTYLE', text: 'Model in environment, but the product is the clear focal point (in hand or on table).' }
+    ]
+  },
+  {
+    id: 'FURNITURE_HOME',
+    label: 'Furniture & Home',
+    priority: 25,
+    keywords: ['furniture', 'mebel', 'sofa', 'chair', 'kursi', 'dining table', 'coffee table', 'side table', 'desk', 'meja makan', 'meja kerja', 'meja rias', 'lemari', 'cabinet', 'shelf', 'rak', 'bed', 'kasur', 'lamp', 'lampu', 'pillow', 'bantal', 'rug', 'karpet', 'decor', 'dekorasi'],
+    strategy: 'HOME & INTERIOR CAMPAIGN (FOCUS ON MATERIAL, SCALE & LIVING SPACE).',
+    shots: [
+      { title: 'MATERIAL DETAIL', text: 'Close-up of the wood grain, fabric weave, stitching or joinery of the piece.' },
+      { title: 'IN USE', text: 'Model sitting on, leaning against or using the piece naturally, showing its real-world scale.' },
+      { title: 'ROOM SHOT', text: 'Wide interior shot with the piece as the focal point of a styled, lived-in room.' }
+    ]
+  },
+  {
+    id: 'FOOTWEAR',
+    label: 'Footwear',
+    priority: 20,
+    keywords: ['shoe', 'sepatu', 'sneaker', 'boots', 'sandal', 'heels', 'footwear'],
+    strategy: 'FOOTWEAR CAMPAIGN (FOCUS ON STYLE & GROUNDING).',
+    shots: [
+      { title: 'PRODUCT DETAIL', text: 'Close-up of the shoe on the ground or floating. Show texture/material.' },
+      { title: 'ON FEET', text: 'Low-angle shot of model walking or standing. Focus on legs and shoes.' },
+      { title: 'FULL LOOK', text: 'Full body shot where the shoes complement the outfit.' }
+    ]
+  },
+  {
+    id: 'TOYS_KIDS',
+    label: 'Toys & Kids',
+    priority: 15,
+    keywords: ['toy', 'mainan', 'lego', 'doll', 'boneka', 'puzzle', 'plush', 'action figure', 'stuffed animal', 'rc car'],
+    strategy: 'PLAYFUL TOY CAMPAIGN (FOCUS ON FUN, COLOUR & SAFE PLAY).',
+    shots: [
+      { title: 'TOY HERO', text: 'Bright close-up of the toy on a colourful surface. Show details, parts and the box.' },
+      { title: 'PLAYTIME', text: 'Model playing with the toy, hands-on interaction, joyful expression.' },
+      { title: 'SHARING', text: 'Cheerful lifestyle scene presenting or gifting the toy, box and toy both visible.' }
+    ]
+  },
+  {
+    id: 'APPAREL',
+    label: 'Apparel',
+    priority: 10,
+    keywords: ['mukena', 'hijab', 'kerudung', 'gamis', 'abaya', 'koko', 'shirt', 'kemeja', 't-shirt', 'kaos', 'jacket', 'jaket', 'hoodie', 'sweater', 'coat', 'blazer', 'dress', 'gaun', 'pants', 'celana', 'jeans', 'skirt', 'rok'],
+    strategy: 'FASHION CATALOG (FOCUS ON FABRIC, FIT & DRAPE).',
+    shots: [
+      { title: 'FABRIC DETAIL', text: 'Close-up on the collar, buttons, or fabric pattern/texture.' },
+      { title: 'UPPER BODY', text: 'Half-body shot showing how the garment fits the shoulders and chest.' },
+      { title: 'FULL SILHOUETTE', text: 'Full-body shot showing the movement and fall of the fabric.' }
+    ]
+  },
+  {
+    id: FALLBACK_CATEGORY_ID,
+    label: 'General (Fallback)',
+    priority: 0,
+    keywords: [],
+    strategy: 'COMMERCIAL PRODUCT SHOWCASE.',
+    shots: [
+      { text: 'Close-up details of the key product features.' },
+      { text: 'Model interacting with the product naturally.' },
+      { text: 'Dynamic lifestyle shot featuring the product.' }
+    ]
+  }
+].map(c => ({ ...c, builtin: true }));
+
+const listeners = new Set<() => void>();
+
+export const subscribeCategories = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const readCustomCategories = (): ProductCategory[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_CATEGORIES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeCustomCategories = (categories: ProductCategory[]) => {
+  localStorage.setItem(CUSTOM_CATEGORIES_KEY, JSON.stringify(categories));
+  listeners.forEach(listener => listener());
+};
+
+// Highest priority first; built-ins before custom ones on ties.
+export const listCategories = (): ProductCategory[] =>
+  [...BUILTIN_CATEGORIES, ...readCustomCategories()].sort((a, b) => b.priority - a.priority);
+
+export const getCategory = (id: string): ProductCategory | undefined =>
+  listCategories().find(c => c.id === id);
+
+const getFallbackCategory = () => BUILTIN_CATEGORIES.find(c => c.id === FALLBACK_CATEGORY_ID)!;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Keywords match whole words, plus an English plural: "tas" hits "tas kulit"
+// but not "kualitas", "table" hits "tables" but not "tablet".
+const matchesKeyword = (text: string, keyword: string) =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(keyword.toLowerCase())}(?:e?s)?(?![\\p{L}\\p{N}])`, 'u').test(text);
+
+const matchesCategory = (lower: string, category: ProductCategory) =>
+  category.keywords.some(k => k.trim() && matchesKeyword(lower, k.trim()));
+
+export const detectCategory = (text: string): ProductCategory => {
+  const lower = text.toLowerCase();
+  return listCategories().find(c => matchesCategory(lower, c)) ?? getFallbackCategory();
+};
+
+// Override wins when it still exists; otherwise auto-detect.
+export const resolveCategory = (text: string, overrideId?: string | null): ProductCategory =>
+  (overrideId && getCategory(overrideId)) || detectCategory(text);
+
+const formatShot = (unit: string, index: number, shot: CategoryShot) =>
+  `        - ${unit} ${index + 1}${shot.title ? ` (${shot.title})` : ''}: ${shot.text}`;
+
+// Renders the composition plan inserted into the storyboard prompt. A shot list
+// that matches the layout's cell count is used cell by cell; otherwise it is
+// reduced to three rows and spread over the layout's rows.
+export const formatShotList = (category: ProductCategory, layout: GridLayout): string => {
+  const cells = cellCount(layout);
+  let lines: string[];
+  if (category.shots.length === cells) {
+    lines = category.shots.map((shot, i) => formatShot('Cell', i, shot));
+  } else {
+    const rowShots = category.shots.length === 9 ? [0, 3, 6].map(i => category.shots[i]) : category.shots;
+    lines = Array.from({ length: layout.rows }, (_, row) => {
+      const index = layout.rows === 1 ? 0 : Math.round(row * (rowShots.length - 1) / (layout.rows - 1));
+      return formatShot('Row', row, rowShots[index]);
+    });
+  }
+  return `\n        STRATEGY: ${category.strategy}\n${lines.join('\n')}`;
+};
+
+// --- USER CATEGORIES ---
+export const toCategoryId = (label: string) =>
+  label.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'CUSTOM';
+
+export const validateCategory = (category: ProductCategory): string | null => {
+  if (!category.label.trim()) return 'Give the category a name.';
+  if (!category.strategy.trim()) return 'Describe the campaign strategy.';
+  if (category.shots.length !== 3 && category.shots.length !== 9) return 'A shot list needs 3 rows or 9 cells.';
+  if (category.shots.some(s => !s.text.trim())) return 'Every shot needs a description.';
+  return null;
+};
+
+export const saveCustomCategory = (category: ProductCategory) => {
+  if (BUILTIN_CATEGORIES.some(c => c.id === category.id)) {
+    throw new Error(`"${category.id}" is a built-in category. Pick another name.`);
+  }
+  const error = validateCategory(category);
+  if (error) throw new Error(error);
+  const custom = readCustomCategories().filter(c => c.id !== category.id);
+  writeCustomCategories([...custom, { ...category, builtin: false }]);
+};
+
+export const deleteCustomCategory = (id: string) => {
+  writeCustomCategories(readCustomCategories().filter(c => c.id !== id));
+};
@@ -0,0 +1,73 @@
+// --- INDEXEDDB STORAGE ---
+// Thin promise wrapper around the app's single IndexedDB database. Stores are
+// declared here so every upgrade path lives in one place.
+
+const DB_NAME = 'ugc-storyboard';
+const DB_VERSION = 5;
+
+export type StoreName = 'results' | 'resultIndex' | 'videoJobs' | 'sceneVideos' | 'projects' | 'projectIndex' | 'personas' | 'brandKits';
+
+const STORES: Record<StoreName, IDBObjectStoreParameters> = {
+  results: { keyPath: 'key' },
+  resultIndex: { keyPath: 'key' },
+  videoJobs: { keyPath: 'key' },   // v2
+  sceneVideos: { keyPath: 'key' }, // v2
+  projects: { keyPath: 'id' },     // v3
+  projectIndex: { keyPath: 'id' }, // v3
+  personas: { keyPath: 'id' },     // v4
+  brandKits: { keyPath: 'id' }     // v5
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(STORES) as StoreName[]).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, STORES[name]);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry (e.g. after the user leaves private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(store: StoreName, mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(fn(db.transaction(store, mode).objectStore(store)));
+};
+
+export const dbGet = <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+  withStore(store, 'readonly', s => s.get(key) as IDBRequest<T | undefined>);
+
+export const dbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  withStore(store, 'readonly', s => s.getAll() as IDBRequest<T[]>);
+
+export const dbPut = async (store: StoreName, value: unknown): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.put(value));
+};
+
+export const dbDelete = async (store: StoreName, key: IDBValidKey | IDBKeyRange): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.delete(key));
+};
+
+export const dbClear = async (store: StoreName): Promise<void> => {
+  await withStore(store, 'readwrite', s => s.clear());
+};
@@ -0,0 +1,134 @@
+// --- SERVICE ERROR TAXONOMY ---
+// Everything the service layer throws is a GenerationError subclass, so the UI
+// can branch with `instanceof` instead of inspecting message strings.
+
+export type GenerationErrorCode =
+  | 'AUTH'
+  | 'QUOTA'
+  | 'RATE_LIMIT'
+  | 'SAFETY_BLOCKED'
+  | 'EMPTY_RESPONSE'
+  | 'NETWORK'
+  | 'SERVICE'
+  | 'CANCELLED'
+  | 'BUDGET'
+  | 'EXTRACTION'
+  | 'ASSEMBLY'
+  | 'EXPORT'
+  | 'PROJECT'
+  | 'CATALOG';
+
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  // Whether the same request may succeed if sent again later.
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(code: GenerationErrorCode, message: string, options: { retryable?: boolean; cause?: unknown } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+  }
+}
+
+// Key missing, rejected or lacking permission for the model.
+export class AuthError extends GenerationError {
+  readonly reason: 'missing' | 'invalid' | 'permission';
+
+  constructor(reason: AuthError['reason'], message: string, cause?: unknown) {
+    super('AUTH', message, { cause });
+    this.reason = reason;
+  }
+}
+
+// Hard quota: the project has no allowance (e.g. free tier, limit 0). Waiting won't help.
+export class QuotaError extends GenerationError {
+  constructor(message: string, cause?: unknown) {
+    super('QUOTA', message, { cause });
+  }
+}
+
+// Temporary throttling. `retryAfterMs` carries the server's retry hint when it sent one.
+export class RateLimitError extends GenerationError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number, cause?: unknown) {
+    super('RATE_LIMIT', message, { retryable: true, cause });
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SafetyBlockedError extends GenerationError {
+  readonly finishReason?: string;
+  readonly blockedCategories: string[];
+
+  constructor(message: string, finishReason?: string, blockedCategories: string[] = [], cause?: unknown) {
+    super('SAFETY_BLOCKED', message, { cause });
+    this.finishReason = finishReason;
+    this.blockedCategories = blockedCategories;
+  }
+}
+
+// The call succeeded but carried no image/video.
+export class EmptyResponseError extends GenerationError {
+  readonly stage?: string;
+
+  constructor(message: string, stage?: string, cause?: unknown) {
+    super('EMPTY_RESPONSE', message, { retryable: true, cause });
+    this.stage = stage;
+  }
+}
+
+// Request never reached the service, or a download failed in transit.
+export class NetworkError extends GenerationError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number, cause?: unknown) {
+    super('NETWORK', message, { retryable: true, cause });
+    this.status = status;
+  }
+}
+
+// Server-side failure (5xx, unknown model, malformed request).
+export class ServiceError extends GenerationError {
+  readonly status?: number;
+
+  constructor(message: string, status?: number, cause?: unknown) {
+    super('SERVICE', message, { retryable: status !== undefined && status >= 500, cause });
+    this.status = status;
+  }
+}
+
+export class CancelledError extends GenerationError {
+  constructor(message = 'Generation cancelled.') {
+    super('CANCELLED', message);
+  }
+}
+
+// Refused locally before calling the model: the job would exceed a spending cap.
+export class BudgetExceededError extends GenerationError {
+  readonly scope: 'project' | 'daily';
+  readonly limit: number;
+  readonly spent: number;
+
+  constructor(scope: BudgetExceededError['scope'], limit: number, spent: number) {
+    super('BUDGET', `The ${scope} budget of $${limit.toFixed(2)} is used up ($${spent.toFixed(2)} spent).`);
+    this.scope = scope;
+    this.limit = limit;
+    this.spent = spent;
+  }
+}
+
+export const isGenerationError = (error: unknown): error is GenerationError =>
+  error instanceof GenerationError;
+
+// Last-resort wrapper for anything a backend throws that it didn't classify itself.
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  if (error instanceof DOMException && error.name === 'AbortError') return new CancelledError();
+  if (error instanceof TypeError) return new NetworkError(error.message, undefined, error);
+  const message = error instanceof Error ? error.message : String(error);
+  return new ServiceError(message || 'Unknown error', undefined, error);
+};
@@ -1,498 +1,505 @@
+import { getBackend, GenerationStage, ImageGenerationRequest, ModelLimits, TokenUsage, VideoGenerationRequest } from './providers/index.ts';
+import { AuthError, BudgetExceededError, CancelledError, GenerationError, NetworkError, RateLimitError, toGenerationError } from './errors.ts';
+import { throwIfAborted } from './abort.ts';
+import { enqueueJob, JobOptions, JobPriority } from './jobQueue.ts';
+import { assertWithinBudget, estimateCost, recordUsage, UNASSIGNED_PROJECT, UsageRecord } from './usage.ts';
+import {
+  getCachedImage,
+  getCachedVideo,
+  imageCacheKey,
+  putCachedImage,
+  putCachedVideo,
+  videoCacheKey
+} from './resultCache.ts';
+import { detectCategory, formatShotList, ProductCategory } from './categories.ts';
+import { DEFAULT_ASPECT_RATIO, getAspectRatio, TargetAspectRatio } from './aspectRatio.ts';
+import { cellCount, DEFAULT_GRID_LAYOUT, getGridLayout, GridLayout, gridAspectRatio } from './gridLayout.ts';
+import { cropCell, GridCuts } from './gridSlicer.ts';
+import { formatPromptRef, PromptRef, renderPrompt, RenderedPrompt } from './promptTemplates.ts';
+import {
+  clearPendingVideo,
+  listPendingVideos,
+  PendingVideoJob,
+  saveSceneVideo,
+  savePendingVideo,
+  sceneVideoKey
+} from './videoStore.ts';
+import { Identity, IdentityReference, REFERENCE_ANGLES } from './personas.ts';
+import { LabeledProductPhoto, labelProductPhotos, ProductItem } from './productRefs.ts';
+import { BrandAssets } from './brandKits.ts';
+import { ProjectRef } from '../types.ts';
+
+export { validateApiKey } from './providers/index.ts';
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  priority?: JobPriority;
+  project?: ProjectRef; // who pays: usage is recorded and budget-checked per project
+  forceFresh?: boolean; // skip the result cache lookup (the new result still replaces the cached one)
+  variant?: number;     // cache slot for deliberately repeated identical requests
+  aspectRatio?: TargetAspectRatio; // project output format, 9:16 when not set
+}
 
-import { GoogleGenAI } from "@google/genai";
+export interface VideoOptions extends GenerationOptions {
+  sceneId?: number; // persist the render for this scene of `project` so it survives a reload
+}
 
-const PRO_IMAGE_MODEL = 'gemini-3-pro-image-preview';
-const VEO_MODEL = 'veo-3.1-fast-generate-preview';
+// Every generated asset carries the template id + version of the prompt that produced it.
+export interface GeneratedImage {
+  image: string;
+  prompt: PromptRef;
+}
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+export interface GeneratedVideo {
+  url: string;
+  prompt: PromptRef;
+}
 
-// Helper to get the best available API Key
-const getEffectiveApiKey = (): string => {
-  if (typeof window !== 'undefined') {
-    const stored = localStorage.getItem('USER_GEMINI_API_KEY');
-    if (stored && stored.length > 5) return stored;
-  }
-  return process.env.API_KEY as string;
+// A render from an earlier session, picked up again by resumePendingVideos.
+export interface ResumedVideoHandlers {
+  onResuming?: (jobs: PendingVideoJob[]) => void;
+  onProgress?: (job: PendingVideoJob, progress: number) => void;
+  onFinished: (job: PendingVideoJob, video: GeneratedVideo) => void;
+  onFailed: (job: PendingVideoJob, error: GenerationError, willRetry: boolean) => void;
+}
+
+// Veo 3.1 renders 8 second clips by default.
+const VIDEO_SECONDS = 8;
+
+// Steps that block the whole UI behind the loading screen jump ahead of per-scene work.
+const STAGE_PRIORITY: Record<GenerationStage, JobPriority> = {
+  tryOn: 'high',
+  branding: 'high',
+  grid: 'high',
+  upscale: 'normal',
+  repair: 'normal',
+  edit: 'normal',
+  regenerate: 'normal'
 };
 
-// --- NEW: VALIDATION FUNCTION ---
-export const validateApiKey = async (apiKey: string): Promise<boolean> => {
-  if (!apiKey) return false;
+type MeterEntry = Pick<UsageRecord, 'model' | 'stage' | 'imageSize' | 'videoSeconds' | 'promptTemplate'> & { project: ProjectRef };
+
+// Queues one provider call, checking the budget whenever an attempt starts, and
+// writes the job's final outcome to the usage ledger once, however many
+// attempts the queue needed.
+const metered = async <T>(
+  entry: MeterEntry,
+  limits: ModelLimits,
+  call: (signal?: AbortSignal, commit?: () => void) => Promise<T>,
+  jobOptions: JobOptions,
+  tokensOf?: (result: T) => TokenUsage | undefined
+): Promise<T> => {
+  const { project, ...usage } = entry;
+  const base = { ...usage, projectId: project.id, projectName: project.name, backend: getBackend().id };
   try {
-    const ai = new GoogleGenAI({ apiKey });
-    // Perform a lightweight "ping" to check if the key is valid.
-    // Using 'gemini-3-flash-preview' ensures the key works with the newer model series
-    // required by the app.
-    await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: { parts: [{ text: 'Ping' }] },
-    });
-    return true;
-  } catch (error) {
-    console.error("API Key Validation Failed:", error);
-    return false;
+    const result = await enqueueJob(entry.model, limits, (signal, commit) => {
+      assertWithinBudget(project.id, estimateCost(usage));
+      return call(signal, commit);
+    }, jobOptions);
+    recordUsage({ ...base, status: 'success', tokens: tokensOf?.(result) });
+    return result;
+  } catch (e) {
+    const error = toGenerationError(e);
+    // Refused before anything was sent: nothing to record
+    if (error instanceof BudgetExceededError) throw e;
+    recordUsage({ ...base, status: error instanceof CancelledError ? 'cancelled' : 'failure', errorCode: error.code });
+    throw e;
   }
 };
 
-async function callWithRetry<T>(fn: (ai: GoogleGenAI) => Promise<T>, maxRetries = 3): Promise<T> {
-  let lastError: any;
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      // Create new instance with effective key (BYOK or Env)
-      const apiKey = getEffectiveApiKey();
-      if (!apiKey) throw new Error("API_KEY_MISSING");
-      
-      const ai = new GoogleGenAI({ apiKey });
-      return await fn(ai);
-    } catch (error: any) {
-      lastError = error;
-      const errorStr = (error.message || "").toLowerCase();
-      
-      if (errorStr.includes("429") || errorStr.includes("quota") || errorStr.includes("resource_exhausted")) {
-        if (errorStr.includes("limit: 0")) {
-          throw new Error("QUOTA_LIMIT_ZERO");
-        }
-        if (attempt < maxRetries - 1) {
-          await sleep((attempt + 1) * 10000);
-          continue;
-        }
-      }
-      
-      if (errorStr.includes("not found") || errorStr.includes("api key") || errorStr.includes("api_key_missing")) {
-        throw new Error("API_KEY_INVALID");
-      }
-      
-      throw error;
+// Cache hits are logged at zero cost so the ledger still shows what was reused.
+const recordCacheHit = (entry: MeterEntry) => {
+  const { project, ...usage } = entry;
+  recordUsage({ ...usage, projectId: project.id, projectName: project.name, backend: getBackend().id, status: 'cached' });
+};
+
+// --- SCHEDULED BACKEND CALLS ---
+const runImageGeneration = async (
+  prompt: RenderedPrompt,
+  settings: Omit<ImageGenerationRequest, 'prompt'>,
+  options: GenerationOptions = {}
+): Promise<GeneratedImage> => {
+  const request: ImageGenerationRequest = { ...settings, prompt: prompt.text };
+  const backend = getBackend();
+  const provider = backend.image;
+  const entry: MeterEntry = {
+    model: provider.modelName,
+    stage: request.stage,
+    imageSize: request.imageSize,
+    promptTemplate: formatPromptRef(prompt.ref),
+    project: options.project ?? UNASSIGNED_PROJECT
+  };
+  const cacheKey = await imageCacheKey(backend.id, provider.modelName, request, options.variant);
+  if (!options.forceFresh) {
+    const cached = await getCachedImage(cacheKey);
+    throwIfAborted(options.signal);
+    if (cached) {
+      recordCacheHit(entry);
+      return { image: cached, prompt: prompt.ref };
     }
   }
-  throw lastError;
-}
+  // Fail fast before queueing; checked again when the job actually starts
+  assertWithinBudget(entry.project.id, estimateCost(entry));
+  const result = await metered(
+    entry,
+    provider.limits,
+    (signal) => provider.generateImage(request, signal),
+    { signal: options.signal, priority: options.priority ?? STAGE_PRIORITY[request.stage], label: request.stage },
+    r => r.usage
+  );
+  void putCachedImage(cacheKey, provider.modelName, result.image);
+  return { image: result.image, prompt: prompt.ref };
+};
 
-// --- MANUAL CROP FUNCTION (Client-Side Canvas) ---
-const cropImageLocally = (base64Image: string, index: number): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    if (typeof window === 'undefined') {
-      reject(new Error("Manual crop requires browser environment."));
-      return;
+const runVideoGeneration = async (
+  prompt: RenderedPrompt,
+  settings: Omit<VideoGenerationRequest, 'prompt'>,
+  onProgress?: (progress: number) => void,
+  options: VideoOptions = {}
+): Promise<GeneratedVideo> => {
+  const request: VideoGenerationRequest = { ...settings, prompt: prompt.text };
+  const backend = getBackend();
+  const provider = backend.video;
+  const entry: MeterEntry = {
+    model: provider.modelName,
+    stage: 'video',
+    videoSeconds: request.durationSeconds,
+    promptTemplate: formatPromptRef(prompt.ref),
+    project: options.project ?? UNASSIGNED_PROJECT
+  };
+  // Only renders that belong to a scene of a real project are kept across reloads
+  const sceneKey = options.sceneId !== undefined && options.project
+    ? sceneVideoKey(options.project.id, options.sceneId)
+    : null;
+  const keepForScene = (url: string) => sceneKey && options.sceneId !== undefined
+    ? saveSceneVideo({ key: sceneKey, projectId: entry.project.id, sceneId: options.sceneId, prompt: prompt.ref }, url)
+    : Promise.resolve();
+
+  const cacheKey = await videoCacheKey(backend.id, provider.modelName, request, options.variant);
+  if (!options.forceFresh) {
+    const cached = await getCachedVideo(cacheKey);
+    throwIfAborted(options.signal);
+    if (cached) {
+      recordCacheHit(entry);
+      void keepForScene(cached);
+      onProgress?.(100);
+      return { url: cached, prompt: prompt.ref };
     }
+  }
+  assertWithinBudget(entry.project.id, estimateCost(entry));
+  const onStarted = (operationName: string) => {
+    if (!sceneKey || options.sceneId === undefined) return;
+    void savePendingVideo({
+      key: sceneKey,
+      projectId: entry.project.id,
+      projectName: entry.project.name,
+      sceneId: options.sceneId,
+      backend: backend.id,
+      model: provider.modelName,
+      operationName,
+      prompt: prompt.ref,
+      durationSeconds: request.durationSeconds,
+      startedAt: Date.now()
+    });
+  };
+  try {
+    const result = await metered(
+      entry,
+      provider.limits,
+      // Once Veo accepts the render a rerun would start (and bill) a second one
+      (signal, commit) => provider.generateVideo(request, onProgress, signal, (operationName) => {
+        commit?.();
+        onStarted(operationName);
+      }),
+      { signal: options.signal, priority: options.priority ?? 'normal', label: 'video' }
+    );
+    void putCachedVideo(cacheKey, provider.modelName, result.url);
+    await keepForScene(result.url);
+    return { url: result.url, prompt: prompt.ref };
+  } finally {
+    // Settled either way (a cancel is the user giving up on it); only a closed
+    // tab leaves the job behind for resumePendingVideos.
+    if (sceneKey) void clearPendingVideo(sceneKey);
+  }
+};
 
-    const img = new Image();
-    img.src = base64Image;
-    img.crossOrigin = "anonymous";
-
-    img.onload = () => {
-      const cols = 3;
-      const rows = 3;
-      const pieceWidth = img.width / cols;
-      const pieceHeight = img.height / rows;
-
-      // Use proportional padding to maintain aspect ratio and avoid distortion.
-      // 5% padding ensures we clear grid lines without squeezing the image content unproportionally.
-      const paddingX = pieceWidth * 0.05; 
-      const paddingY = pieceHeight * 0.05;
-
-      const colIndex = index % cols;
-      const rowIndex = Math.floor(index / cols);
-
-      const canvas = document.createElement('canvas');
-      canvas.width = 1024; 
-      canvas.height = 1792; 
-      const ctx = canvas.getContext('2d');
-
-      if (!ctx) {
-        reject(new Error("Failed to create canvas context"));
-        return;
-      }
-
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-
-      const sourceX = (colIndex * pieceWidth) + paddingX;
-      const sourceY = (rowIndex * pieceHeight) + paddingY;
-      const sourceW = pieceWidth - (paddingX * 2);
-      const sourceH = pieceHeight - (paddingY * 2);
-
-      ctx.drawImage(
-        img,
-        sourceX, sourceY, sourceW, sourceH, 
-        0, 0, canvas.width, canvas.height
-      );
-
-      resolve(canvas.toDataURL('image/png'));
+// Picks up Veo renders that were still running when the page was closed. The
+// render was already accepted and billed, so there is no budget check; usage is
+// recorded once it settles. Jobs of another backend are left for when it's
+// active again.
+export const resumePendingVideos = async (handlers: ResumedVideoHandlers): Promise<void> => {
+  const backend = getBackend();
+  const provider = backend.video;
+  const resumeVideo = provider.resumeVideo;
+  if (!resumeVideo) return;
+  const jobs = (await listPendingVideos()).filter(job => job.backend === backend.id);
+  if (jobs.length === 0) return;
+  handlers.onResuming?.(jobs);
+
+  await Promise.all(jobs.map(async (job) => {
+    const usage = {
+      model: job.model,
+      stage: 'video' as const,
+      videoSeconds: job.durationSeconds,
+      promptTemplate: formatPromptRef(job.prompt),
+      projectId: job.projectId,
+      projectName: job.projectName,
+      backend: backend.id
     };
-
-    img.onerror = () => reject(new Error("Failed to load source image for cropping."));
-  });
+    try {
+      const result = await enqueueJob(
+        job.model,
+        provider.limits,
+        // Poll-only: the render was submitted in an earlier session, so the queue
+        // must never treat this as a job it can start over
+        (signal, commit) => {
+          commit?.();
+          return resumeVideo(job.operationName, job.durationSeconds, p => handlers.onProgress?.(job, p), signal);
+        },
+        { priority: 'low', label: 'video (resumed)' }
+      );
+      recordUsage({ ...usage, status: 'success' });
+      await saveSceneVideo({ key: job.key, projectId: job.projectId, sceneId: job.sceneId, prompt: job.prompt }, result.url);
+      handlers.onFinished(job, { url: result.url, prompt: job.prompt });
+    } catch (e) {
+      const error = toGenerationError(e);
+      // No key / connection yet: the render may still be waiting on the server
+      const willRetry = error instanceof AuthError || error instanceof NetworkError || error instanceof RateLimitError;
+      if (!willRetry) {
+        recordUsage({ ...usage, status: 'failure', errorCode: error.code });
+        await clearPendingVideo(job.key);
+      }
+      handlers.onFailed(job, error, willRetry);
+      return;
+    }
+    await clearPendingVideo(job.key);
+  }));
 };
 
-export const generateCombinedImage = async (modelBase64: string, productBase64: string, instruction: string = ""): Promise<string> => {
-  return callWithRetry(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: PRO_IMAGE_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { data: modelBase64.split(',')[1], mimeType: 'image/png' } },
-          { inlineData: { data: productBase64.split(',')[1], mimeType: 'image/png' } },
-          {
-            text: `TASK: FLAWLESS VIRTUAL TRY-ON & PRODUCT INTEGRATION.
-1. INPUTS: Person (Image 1) + Product (Image 2).
-2. ACTION: Dress the person in the product OR place the product in their hand/scene naturally.
-3. STRICT REQUIREMENTS:
-   - ANATOMY: Perfect fingers, hands, and body proportions. NO GLITCHES, NO DISTORTED LIMBS, NO FLOATING PARTS.
-   - IDENTITY: The face MUST be the exact person from Image 1.
-   - TEXTURE: High-fidelity fabric/material rendering. Shadows must match the scene.
-   - INTEGRATION: No visible cut-out edges.
-4. INSTRUCTION: ${instruction || 'Ensure a realistic, high-quality fit'}.
-5. OUTPUT: Photorealistic 9:16 high-fashion catalog photo.` }
-        ]
-      },
-      config: { imageConfig: { aspectRatio: "9:16", imageSize: "1K" } }
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    throw new Error("FAILED_NO_IMAGE_RETURNED");
-  });
+// --- IDENTITY REFERENCES ---
+// Reference photos go first, numbered from Input 1, followed by the image being worked on.
+const referenceInputs = (references: IdentityReference[], label: string, bullet: string) =>
+  references.map((ref, i) => `${bullet}Input ${i + 1}: ${label}${ref.angle ? ` (${REFERENCE_ANGLES[ref.angle].toUpperCase()})` : ''}.`).join('\n');
+
+const identityNotes = (identity: Identity | undefined, bullet: string) =>
+  identity?.notes.trim() ? `\n${bullet}IDENTITY NOTES: ${identity.notes.trim()}` : '';
+
+// --- PRODUCT REFERENCES ---
+const productImageList = (photos: LabeledProductPhoto[], firstImage: number) =>
+  photos.map((photo, i) => `Image ${firstImage + i} = ${photo.label}`).join(', ');
+
+// Extra product photos after the image a step works from (Image 1), or nothing.
+const productReferenceLine = (photos: LabeledProductPhoto[], bullet: string) => photos.length
+  ? `\n${bullet}PRODUCT REFERENCES: ${productImageList(photos, 2)}. Exact product photos: copy every side, detail and logo from them, never invent unseen parts.`
+  : '';
+
+// `products` is the product set (several angles / several items, at least one
+// photo); `identity` adds further photos of the same person after them.
+export const generateCombinedImage = async (modelBase64: string, products: ProductItem[], instruction: string = "", identity?: Identity, options: GenerationOptions = {}): Promise<GeneratedImage> => {
+  const aspectRatio = options.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+  const productPhotos = labelProductPhotos(products);
+  const productInputs = productPhotos.length === 1 ? 'Product (Image 2)' : `Products (${productImageList(productPhotos, 2)})`;
+  const notes: string[] = [];
+  if (products.length > 1) notes.push(`ONE LOOK: all ${products.length} products must appear together on / with the person.`);
+  if (products.some(item => item.photos.length > 1)) notes.push('Several images of the same product show its other sides; keep every side exactly as photographed.');
+  const productNotes = notes.map(note => `\n   - ${note}`).join('');
+
+  const extras = (identity?.references ?? []).filter(ref => ref.image !== modelBase64);
+  const firstExtra = 2 + productPhotos.length;
+  const morePhotos = extras.length
+    ? `\n   - MORE OF THE SAME PERSON: ${extras.map((ref, i) => `Image ${firstExtra + i}${ref.angle ? ` (${REFERENCE_ANGLES[ref.angle].toUpperCase()})` : ''}`).join(', ')}. Use them only to keep face and body identical.`
+    : '';
+  const extraReferences = morePhotos + identityNotes(identity, '   - ');
+  return runImageGeneration(renderPrompt('tryOn', { instruction: instruction || 'Ensure a realistic, high-quality fit', aspectRatio, productInputs, productNotes, extraReferences }), {
+    stage: 'tryOn',
+    images: [modelBase64, ...productPhotos.map(photo => photo.image), ...extras.map(ref => ref.image)],
+    aspectRatio,
+    imageSize: "1K"
+  }, options);
 };
 
-export const generateRefinementVariations = async (modelBase64: string, productBase64: string, instruction: string = ""): Promise<string[]> => {
-  const promises = Array(3).fill(null).map(() => generateCombinedImage(modelBase64, productBase64, instruction));
+export const generateRefinementVariations = async (modelBase64: string, products: ProductItem[], instruction: string = "", identity?: Identity, options: GenerationOptions = {}): Promise<GeneratedImage[]> => {
+  const promises = Array(3).fill(null).map((_, variant) => generateCombinedImage(modelBase64, products, instruction, identity, { ...options, variant }));
   const results = await Promise.allSettled(promises);
+  throwIfAborted(options.signal);
   const successful = results
     .filter(r => r.status === 'fulfilled')
-    .map(r => (r as PromiseFulfilledResult<string>).value);
+    .map(r => (r as PromiseFulfilledResult<GeneratedImage>).value);
   
-  if (successful.length === 0) throw new Error("Generation failed");
+  // All three failed: surface the first cause rather than a generic message
+  if (successful.length === 0) throw toGenerationError((results[0] as PromiseRejectedResult).reason);
   return successful;
 };
 
-export const generateBrandingVariations = async (baseImage: string, text: string, style: string, fontStyle: string, placement: string): Promise<string[]> => {
-  const generateOne = () => callWithRetry(async (ai) => {
-    
+// --- BRAND KIT ---
+// Brand kit images go after everything else a step sends, numbered from
+// `firstImage`; colors are named in the prompt only.
+const brandInputs = (brand: BrandAssets | null | undefined, firstImage: number, bullet: string) => {
+  const refs = [
+    { image: brand?.logo, text: 'BRAND LOGO. Wherever the brand appears (sign, packaging, wall), use exactly this mark: same shape, colors and proportions, never redrawn' },
+    { image: brand?.backgroundRef, text: 'BACKGROUND REFERENCE. Match its setting, materials and mood; nothing in it is a subject' },
+    { image: brand?.lightingRef, text: 'LIGHTING REFERENCE. Match only its light direction, softness, color temperature and contrast' }
+  ].filter((ref): ref is { image: string; text: string } => !!ref.image);
+  const lines = refs.map((ref, i) => `\n${bullet}Image ${firstImage + i} = ${ref.text}.`);
+  if (brand?.colors.length) {
+    lines.push(`\n${bullet}BRAND COLORS: ${brand.colors.join(', ')}. Use them for props, accents, light tints and signage; keep the product's own colors unchanged.`);
+  }
+  return { images: refs.map(ref => ref.image), text: lines.join('') };
+};
+
+export const generateBrandingVariations = async (baseImage: string, text: string, style: string, fontStyle: string, placement: string, brand?: BrandAssets | null, options: GenerationOptions = {}): Promise<GeneratedImage[]> => {
+  const aspectRatio = options.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+  const brandRefs = brandInputs(brand, 2, '- ');
+  const generateOne = (variant: number) => {
     // Check if branding text is provided. If not, explicitly ask to NOT generate text.
     const brandingLine = text && text.trim().length > 0 
-      ? `- BRANDING: Neon sign "${text}" (${fontStyle}) placed ${placement}.`
-      : `- BRANDING: NO TEXT. Do not generate any text or neon signs in the background.`;
-
-    const response = await ai.models.generateContent({
-      model: PRO_IMAGE_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { data: baseImage.split(',')[1], mimeType: 'image/png' } },
-          { text: `SCENE MASTERING (LOCK SUBJECT):
-- SUBJECT: Keep person/product EXACTLY as input.
-- FACE: Do not change the facial features.
-- BACKGROUND: ${style}.
-${brandingLine}
-- QUALITY: Photorealistic, 9:16, 1K.` }
-        ]
-      },
-      config: { imageConfig: { aspectRatio: "9:16", imageSize: "1K" } }
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    throw new Error("FAILED_STYLE_PREVIEW");
-  });
-
-  const promises = Array(3).fill(null).map(() => generateOne());
+      ? renderPrompt('brandingSign', { text, fontStyle, placement }).text
+      : renderPrompt('brandingNone', {}).text;
+
+    return runImageGeneration(renderPrompt('branding', { style, brandingLine, aspectRatio, brandReferences: brandRefs.text }), {
+      stage: 'branding',
+      images: [baseImage, ...brandRefs.images],
+      aspectRatio,
+      imageSize: "1K"
+    }, { ...options, variant });
+  };
+
+  const promises = Array(3).fill(null).map((_, variant) => generateOne(variant));
   const results = await Promise.allSettled(promises);
-  const successful = results.filter(r => r.status === 'fulfilled').map(r => (r as PromiseFulfilledResult<string>).value);
+  throwIfAborted(options.signal);
+  const successful = results.filter(r => r.status === 'fulfilled').map(r => (r as PromiseFulfilledResult<GeneratedImage>).value);
   
-  if (successful.length === 0) throw new Error("Failed to generate branding variations");
+  if (successful.length === 0) throw toGenerationError((results[0] as PromiseRejectedResult).reason);
   return successful;
 };
 
-export const generateStoryboardGrid = async (baseImage: string, text: string, style: string, instruction: string = ""): Promise<string> => {
-  return callWithRetry(async (ai) => {
-    
+export const generateStoryboardGrid = async (
+  baseImage: string,
+  text: string,
+  style: string,
+  instruction: string = "",
+  category: ProductCategory = detectCategory(`${instruction} ${text || ""}`),
+  layout: GridLayout = getGridLayout(DEFAULT_GRID_LAYOUT),
+  products: ProductItem[] = [], // product references, sent after the master image
+  brand?: BrandAssets | null, // brand kit images, sent last
+  options: GenerationOptions = {}
+): Promise<GeneratedImage> => {
     const brandingLine = text && text.trim().length > 0
-      ? `- BRANDING: Neon sign "${text}" in background.`
-      : `- BRANDING: NO TEXT. Do not generate any text or neon signs in the background.`;
-
-    const lowerInstr = (instruction + " " + (text || "")).toLowerCase();
-    
-    // --- SMART CATEGORIZATION ---
-    let category = 'GENERAL_FASHION';
-    
-    // 1. BEAUTY & COSMETICS (Lipstick, Makeup, Skincare) - Needs Extreme Macro
-    if (/lipstick|lipstik|mascara|eyeliner|blush|cosmetic|kosmetik|makeup|skincare|serum|cream|wajah|muka/i.test(lowerInstr)) {
-        category = 'BEAUTY_COSMETIC';
-    } 
-    // 2. LUXURY & JEWELRY (Watch, Ring, Necklace, Glasses) - Needs Macro & Elegance
-    else if (/watch|jam|jewelry|perhiasan|ring|cincin|necklace|kalung|earring|anting|glasses|kacamata|spectacles/i.test(lowerInstr)) {
-         category = 'LUXURY_ACCESSORY';
-    }
-    // 3. HANDHELD GADGETS & BAGS (Phone, Bag, Wallet) - Needs Hand Interaction
-    else if (/phone|hp|handphone|mobile|gadget|tablet|camera|kamera|bag|tas|handbag|tote|purse|wallet|dompet/i.test(lowerInstr)) {
-        category = 'HANDHELD_PRODUCT';
-    } 
-    // 4. FOOTWEAR (Shoes, Sandals) - Needs Low angles
-    else if (/shoe|sepatu|sneaker|boots|sandal|heels|footwear/i.test(lowerInstr)) {
-        category = 'FOOTWEAR';
-    }
-    // 5. APPAREL (Clothes, Hijab, Jackets) - Needs Fit & Texture
-    else if (/mukena|hijab|kerudung|gamis|abaya|koko|shirt|kemeja|t-shirt|kaos|jacket|jaket|hoodie|sweater|coat|blazer|dress|gaun|pants|celana|jeans|skirt|rok/i.test(lowerInstr)) {
-        category = 'APPAREL';
-    }
-    
-    // --- TAILORED SHOT LISTS FOR PROMOTION ---
-    let shotList = "";
-    
-    if (category === 'BEAUTY_COSMETIC') {
-        shotList = `
-        STRATEGY: COSMETIC ADVERTISING CAMPAIGN (FOCUS ON PIGMENT & APPLICATION).
-        - Row 1 (PRODUCT MACRO): Extreme close-up of the product (lipstick bullet, cream texture). Background blurred.
-        - Row 2 (APPLICATION): Model applying the product to lips/face. Focus strictly on the application area.
-        - Row 3 (FINAL LOOK): Model holding the product next to their face, showing the result.`;
-    } else if (category === 'LUXURY_ACCESSORY') {
-        shotList = `
-        STRATEGY: HIGH-END LUXURY COMMERCIAL (FOCUS ON SHINE & DETAIL).
-        - Row 1 (HERO MACRO): Extreme close-up of the watch dial / jewelry detail. Show light reflections.
-        - Row 2 (ON BODY): Focused shot on the Wrist (for watch) or Neck/Ears (for jewelry). Shallow depth of field.
-        - Row 3 (ELEGANCE): Model posing elegantly with hand placement emphasizing the accessory.`;
-    } else if (category === 'HANDHELD_PRODUCT') {
-        shotList = `
-        STRATEGY: TECH & LIFESTYLE PROMOTION (FOCUS ON PRODUCT DESIGN).
-        - Row 1 (HERO PRODUCT): Clean shot of the product in hand or floating. Show logo and sleek design.
-        - Row 2 (INTERACTION): Model using the device (e.g. taking a selfie, scrolling). Product MUST be visible.
-        - Row 3 (LIFESTYLE): Model in environment, but the product is the clear focal point (in hand or on table).`;
-    } else if (category === 'FOOTWEAR') {
-        shotList = `
-        STRATEGY: FOOTWEAR CAMPAIGN (FOCUS ON STYLE & GROUNDING).
-        - Row 1 (PRODUCT DETAIL): Close-up of the shoe on the ground or floating. Show texture/material.
-        - Row 2 (ON FEET): Low-angle shot of model walking or standing. Focus on legs and shoes.
-        - Row 3 (FULL LOOK): Full body shot where the shoes complement the outfit.`;
-    } else if (category === 'APPAREL') {
-        shotList = `
-        STRATEGY: FASHION CATALOG (FOCUS ON FABRIC, FIT & DRAPE).
-        - Row 1 (FABRIC DETAIL): Close-up on the collar, buttons, or fabric pattern/texture.
-        - Row 2 (UPPER BODY): Half-body shot showing how the garment fits the shoulders and chest.
-        - Row 3 (FULL SILHOUETTE): Full-body shot showing the movement and fall of the fabric.`;
-    } else {
-        // Fallback
-        shotList = `
-        STRATEGY: COMMERCIAL PRODUCT SHOWCASE.
-        - Row 1: Close-up details of the key product features.
-        - Row 2: Model interacting with the product naturally.
-        - Row 3: Dynamic lifestyle shot featuring the product.`;
-    }
-
-    const contextInstruction = instruction ? `USER CONTEXT: ${instruction}` : "";
-
-    const basePrompt = `
-    COMMERCIAL PRODUCT PHOTOGRAPHY STORYBOARD (3x3 GRID)
-    
-    INPUT IMAGE: This is the **MASTER REFERENCE (Source of Truth)**.
-    GOAL: Create a promotional storyboard CAMPAIGN for the specific PRODUCT shown in the Input Image.
-    
-    ${contextInstruction}
-    
-    CRITICAL CONSISTENCY RULES:
-    1. **PRODUCT INTEGRITY**: The product in the Input Image MUST NOT CHANGE. Use the EXACT same design, color, and logo in all 9 panels.
-    2. **MODEL IDENTITY**: The model's face and hair must remain consistent with the Input Image.
-    3. **PROMOTIONAL FOCUS**: This is NOT a generic photoshoot. It is an ADVERTISEMENT for the product.
-    
-    COMPOSITION PLAN (${category}):
-    ${shotList}
-    
-    STYLE: ${style}. High-end Commercial Advertisement. Professional Studio Lighting.
-    ${brandingLine}
-    
-    OUTPUT SPEC: High-resolution 3x3 grid image with thin black dividers. Aspect Ratio 9:16.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: PRO_IMAGE_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { data: baseImage.split(',')[1], mimeType: 'image/png' } },
-          { text: basePrompt }
-        ]
-      },
-      config: { imageConfig: { aspectRatio: "9:16", imageSize: "1K" } }
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    throw new Error("FAILED_NO_GRID_RETURNED");
-  });
+      ? renderPrompt('storyboardSign', { text }).text
+      : renderPrompt('brandingNone', {}).text;
+
+    const shotList = formatShotList(category, layout);
+    const aspectRatio = gridAspectRatio(layout, options.aspectRatio);
+
+    const context = instruction ? renderPrompt('storyboardContext', { instruction }).text : "";
+    const productPhotos = labelProductPhotos(products);
+    const brandRefs = brandInputs(brand, 2 + productPhotos.length, '    - ');
+
+    return runImageGeneration(renderPrompt('storyboard', {
+      layout: layout.id,
+      cellCount: String(cellCount(layout)),
+      aspectRatio,
+      context,
+      category: category.id,
+      shotList,
+      style,
+      brandingLine,
+      productReferences: productReferenceLine(productPhotos, '    '),
+      brandReferences: brandRefs.text
+    }), {
+      stage: 'grid',
+      images: [baseImage, ...productPhotos.map(photo => photo.image), ...brandRefs.images],
+      aspectRatio,
+      imageSize: "1K",
+      grid: { cols: layout.cols, rows: layout.rows }
+    }, options);
 };
 
 // --- MAIN EXTRACTION LOGIC ---
-export const extractCell = async (gridImage: string, index: number, referenceImage?: string): Promise<string> => {
+export const extractCell = async (
+  gridImage: string,
+  index: number,
+  cuts: GridCuts,
+  aspectRatio: TargetAspectRatio = DEFAULT_ASPECT_RATIO
+): Promise<string> => {
   try {
     // DIRECT CROP ONLY to prevent hallucinations during slice.
-    return await cropImageLocally(gridImage, index);
+    return await cropCell(gridImage, cuts, index, aspectRatio);
   } catch (error) {
     console.error("Extract error:", error);
-    throw new Error("FAILED_EXTRACTION");
+    throw new GenerationError('EXTRACTION', `Could not slice shot ${index + 1} from the storyboard grid.`, { cause: error });
   }
 };
 
-export const upscaleScene = async (imageBase64: string, size: '2K' | '4K'): Promise<string> => {
-  return callWithRetry(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: PRO_IMAGE_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { data: imageBase64.split(',')[1], mimeType: 'image/png' } },
-          { text: `UPSCALE TASK: Increase resolution to ${size}. Enhance textures and sharpen details. Maintain facial identity.` }
-        ]
-      },
-      config: { imageConfig: { aspectRatio: "9:16", imageSize: size } }
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    throw new Error("FAILED_UPSCALE");
-  });
+export const upscaleScene = async (imageBase64: string, size: '2K' | '4K', options: GenerationOptions = {}): Promise<GeneratedImage> => {
+  return runImageGeneration(renderPrompt('upscale', { size }), {
+    stage: 'upscale',
+    images: [imageBase64],
+    aspectRatio: options.aspectRatio ?? DEFAULT_ASPECT_RATIO,
+    imageSize: size
+  }, options);
 };
 
-export const repairImage = async (imageBase64: string, prompt: string, referenceImage?: string): Promise<string> => {
-  return callWithRetry(async (ai) => {
-    const parts: any[] = [];
-    if (referenceImage) {
-        parts.push({ inlineData: { data: referenceImage.split(',')[1], mimeType: 'image/png' } });
-    }
-    parts.push({ inlineData: { data: imageBase64.split(',')[1], mimeType: 'image/png' } });
-    
-    const textPrompt = referenceImage
-        ? `AI IMAGE REPAIR:
-Input 1: REFERENCE IDENTITY.
-Input 2: IMAGE TO REPAIR.
-INSTRUCTION: ${prompt}.
-CRITICAL: Ensure the face matches Input 1. Correct anatomy and lighting.`
-        : `AI IMAGE REPAIR: ${prompt}. Correct anatomy and lighting while maintaining identity.`;
-
-    parts.push({ text: textPrompt });
-
-    const response = await ai.models.generateContent({
-      model: PRO_IMAGE_MODEL,
-      contents: { parts },
-      config: { imageConfig: { aspectRatio: "9:16", imageSize: "1K" } }
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    throw new Error("FAILED_REPAIR");
-  });
+export const repairImage = async (imageBase64: string, prompt: string, identity?: Identity, options: GenerationOptions = {}): Promise<GeneratedImage> => {
+    const references = identity?.references ?? [];
+    const textPrompt = references.length
+        ? renderPrompt('repairWithReference', { prompt, references: referenceInputs(references, 'REFERENCE IDENTITY', ''), target: String(references.length + 1), notes: identityNotes(identity, '') })
+        : renderPrompt('repair', { prompt });
+
+    return runImageGeneration(textPrompt, {
+      stage: 'repair',
+      images: [...references.map(ref => ref.image), imageBase64],
+      aspectRatio: options.aspectRatio ?? DEFAULT_ASPECT_RATIO,
+      imageSize: "1K"
+    }, options);
 };
 
 // --- NEW: REGENERATE SCENE WITH REFERENCE (For Fixing Inconsistent Products) ---
 export const regenerateSceneFromReference = async (
   referenceBase64: string, 
   prompt: string, 
-  style: string
-): Promise<string> => {
-  return callWithRetry(async (ai) => {
-    const response = await ai.models.generateContent({
-      model: PRO_IMAGE_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { data: referenceBase64.split(',')[1], mimeType: 'image/png' } },
-          { text: `REGENERATE SCENE WITH REFERENCE:
-- REFERENCE IMAGE: Use this object/person as the PRIMARY SUBJECT.
-- TASK: Create a new scene featuring this subject.
-- CONTEXT: ${prompt}
-- STYLE: ${style}
-- CONSTRAINT: The subject from the image must be clearly visible and preserved.
-- OUTPUT: Photorealistic 9:16 image.` }
-        ]
-      },
-      config: { imageConfig: { aspectRatio: "9:16", imageSize: "1K" } }
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    throw new Error("FAILED_REGEN");
-  });
+  style: string,
+  products: ProductItem[] = [], // product references, sent after the uploaded image
+  options: GenerationOptions = {}
+): Promise<GeneratedImage> => {
+  const aspectRatio = options.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+  const productPhotos = labelProductPhotos(products);
+  return runImageGeneration(renderPrompt('regenerate', { prompt, style, aspectRatio, productReferences: productReferenceLine(productPhotos, '- ') }), {
+    stage: 'regenerate',
+    images: [referenceBase64, ...productPhotos.map(photo => photo.image)],
+    aspectRatio,
+    imageSize: "1K"
+  }, options);
 };
 
 // --- NEW: EDIT SCENE (Pose, Gesture, Angle) ---
-export const editSceneImage = async (imageBase64: string, prompt: string, referenceImage?: string): Promise<string> => {
-  return callWithRetry(async (ai) => {
-    const parts: any[] = [];
-    
-    // Add reference for identity preservation
-    if (referenceImage) {
-        parts.push({ inlineData: { data: referenceImage.split(',')[1], mimeType: 'image/png' } });
-    }
-    
-    parts.push({ inlineData: { data: imageBase64.split(',')[1], mimeType: 'image/png' } });
-    
-    const textPrompt = referenceImage 
-        ? `IMAGE EDITING TASK:
-- Input 1: REFERENCE FACE (Strict Identity).
-- Input 2: SCENE TO EDIT.
-- INSTRUCTION: ${prompt}
-- CONSTRAINT: You MUST preserve the facial identity from Input 1.
-- CONSTRAINT: Keep the product/clothing from Input 2.
-- ACTION: Modify only the pose, gesture, or camera angle as requested.
-- OUTPUT: Photorealistic 9:16 image.`
-        : `IMAGE EDITING TASK:
-- INSTRUCTION: ${prompt}
-- CONSTRAINT: Keep the original Subject (Face & Product) and Style identical. 
-- ACTION: Modify only the pose, gesture, or camera angle as requested.
-- OUTPUT: Photorealistic 9:16 image.`;
-
-    parts.push({ text: textPrompt });
-
-    const response = await ai.models.generateContent({
-      model: PRO_IMAGE_MODEL,
-      contents: { parts },
-      config: { imageConfig: { aspectRatio: "9:16", imageSize: "1K" } }
-    });
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    }
-    throw new Error("FAILED_EDIT");
-  });
+export const editSceneImage = async (imageBase64: string, prompt: string, identity?: Identity, options: GenerationOptions = {}): Promise<GeneratedImage> => {
+    // References (if any) go first for identity preservation
+    const aspectRatio = options.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+    const references = identity?.references ?? [];
+    const textPrompt = references.length
+        ? renderPrompt('editWithReference', { prompt, aspectRatio, references: referenceInputs(references, 'REFERENCE FACE (Strict Identity)', '- '), target: String(references.length + 1), notes: identityNotes(identity, '- ') })
+        : renderPrompt('edit', { prompt, aspectRatio });
+
+    return runImageGeneration(textPrompt, {
+      stage: 'edit',
+      images: [...references.map(ref => ref.image), imageBase64],
+      aspectRatio,
+      imageSize: "1K"
+    }, options);
 };
 
 export const generateSceneVideo = async (
   imageBase64: string, 
   prompt: string, 
-  onProgress?: (progress: number) => void
-): Promise<string> => {
-  return callWithRetry(async (ai) => {
-    let progress = 0;
-    if (onProgress) onProgress(5); // Start
-
-    let operation = await ai.models.generateVideos({
-      model: VEO_MODEL,
-      prompt: `${prompt}. Maintain absolute consistency. Cinematic slow motion.`,
-      image: { imageBytes: imageBase64.split(',')[1], mimeType: 'image/png' },
-      config: { numberOfVideos: 1, resolution: '720p', aspectRatio: '9:16' }
-    });
-    
-    // Simulation of progress since API does not return %
-    const progressInterval = setInterval(() => {
-        if (progress < 90) {
-            progress += Math.floor(Math.random() * 5) + 2;
-            if (progress > 90) progress = 90;
-            if (onProgress) onProgress(progress);
-        }
-    }, 1000);
-
-    try {
-        while (!operation.done) {
-          await sleep(5000);
-          operation = await ai.operations.getVideosOperation({ operation: operation });
-        }
-    } finally {
-        clearInterval(progressInterval);
-    }
-    
-    if (onProgress) onProgress(100);
-
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    
-    // Explicitly use effective API key for the download fetch as well
-    const apiKey = getEffectiveApiKey();
-    const response = await fetch(`${downloadLink}&key=${apiKey}`);
-    
-    const blob = await response.blob();
-    return URL.createObjectURL(blob);
-  });
+  onProgress?: (progress: number) => void,
+  options: VideoOptions = {}
+): Promise<GeneratedVideo> => {
+  return runVideoGeneration(renderPrompt('video', { prompt }), {
+    image: imageBase64,
+    // Veo only renders 16:9 / 9:16; other formats get the closer of the two
+    aspectRatio: getAspectRatio(options.aspectRatio ?? DEFAULT_ASPECT_RATIO).video,
+    resolution: '720p',
+    durationSeconds: VIDEO_SECONDS
+  }, onProgress, options);
 };
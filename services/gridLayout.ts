@@ -0,0 +1,34 @@
+import { DEFAULT_ASPECT_RATIO, nearestAspectRatio, parseAspectRatio } from './aspectRatio.ts';
+
+// --- STORYBOARD GRID LAYOUTS ---
+// The layout decides how many shots one storyboard holds. It drives the grid
+// prompt, the aspect ratio requested for the grid, the slicer and the number
+// of scenes in the project.
+
+export type GridLayoutId = '2x2' | '2x3' | '3x3' | '4x4';
+
+export interface GridLayout {
+  id: GridLayoutId;
+  cols: number;
+  rows: number;
+  label: string;
+}
+
+export const GRID_LAYOUTS: Record<GridLayoutId, GridLayout> = {
+  '2x2': { id: '2x2', cols: 2, rows: 2, label: '4 Shots · Short Ad' },
+  '2x3': { id: '2x3', cols: 2, rows: 3, label: '6 Shots' },
+  '3x3': { id: '3x3', cols: 3, rows: 3, label: '9 Shots · Classic' },
+  '4x4': { id: '4x4', cols: 4, rows: 4, label: '16 Shots · Long Form' }
+};
+
+export const DEFAULT_GRID_LAYOUT: GridLayoutId = '3x3';
+
+export const getGridLayout = (id: GridLayoutId): GridLayout => GRID_LAYOUTS[id] ?? GRID_LAYOUTS[DEFAULT_GRID_LAYOUT];
+
+export const cellCount = (layout: GridLayout) => layout.cols * layout.rows;
+
+// Aspect ratio to request for a whole grid whose cells should be `cellRatio`.
+// Layouts without an exact match (e.g. 2x3 portrait cells) get the nearest
+// supported one; the slicer center-crops cells back to `cellRatio`.
+export const gridAspectRatio = (layout: GridLayout, cellRatio: string = DEFAULT_ASPECT_RATIO): string =>
+  nearestAspectRatio(parseAspectRatio(cellRatio) * layout.cols / layout.rows);
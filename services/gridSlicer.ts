@@ -0,0 +1,228 @@
+import { DEFAULT_ASPECT_RATIO, getAspectRatio, TargetAspectRatio } from './aspectRatio.ts';
+import { GridLayout } from './gridLayout.ts';
+
+// --- STORYBOARD GRID SLICER ---
+// Finds where the model actually drew the divider lines instead of assuming an
+// even split. The grid is scanned at low resolution; rows/columns that are dark
+// with little variation are divider candidates, grouped into bands and matched
+// against where the layout expects a divider. Each axis falls back to the old
+// even split (5% padding per cell) on its own when its dividers can't be found.
+
+export type CellSpan = [number, number]; // normalized start / end, 0..1
+
+export interface GridCuts {
+  columns: CellSpan[];
+  rows: CellSpan[];
+  detected: { columns: boolean; rows: boolean };
+}
+
+interface Band {
+  start: number;
+  end: number; // exclusive
+}
+
+const ANALYSIS_LONG_EDGE = 512;
+const DIVIDER_MAX_MEAN = 48;     // 0..255 luminance
+const DIVIDER_MAX_STD = 24;
+const DIVIDER_MAX_THICKNESS = 0.06; // of the axis; thicker dark bands are content, not lines
+const EVEN_PADDING = 0.05;       // of a cell, matches the pre-detection slicer
+const EDGE_INSET = 1;            // analysis pixels trimmed off each side to drop anti-aliased fringes
+export const MIN_CELL_SPAN = 0.04;
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load source image for cropping."));
+    img.src = src;
+  });
+
+const evenSpans = (count: number): CellSpan[] =>
+  Array.from({ length: count }, (_, i) => {
+    const pad = EVEN_PADDING / count;
+    return [i / count + pad, (i + 1) / count - pad];
+  });
+
+export const evenGridCuts = (layout: GridLayout): GridCuts => ({
+  columns: evenSpans(layout.cols),
+  rows: evenSpans(layout.rows),
+  detected: { columns: false, rows: false }
+});
+
+// Per-line luminance mean and standard deviation along one axis.
+const lineStats = (data: Uint8ClampedArray, width: number, height: number, axis: 'x' | 'y') => {
+  const length = axis === 'x' ? width : height;
+  const span = axis === 'x' ? height : width;
+  const stats: { mean: number; std: number }[] = [];
+  for (let i = 0; i < length; i++) {
+    let sum = 0;
+    let sumSq = 0;
+    for (let j = 0; j < span; j++) {
+      const p = ((axis === 'x' ? j * width + i : i * width + j)) * 4;
+      const lum = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+      sum += lum;
+      sumSq += lum * lum;
+    }
+    const mean = sum / span;
+    stats.push({ mean, std: Math.sqrt(Math.max(0, sumSq / span - mean * mean)) });
+  }
+  return stats;
+};
+
+const findBands = (stats: { mean: number; std: number }[]): Band[] => {
+  const bands: Band[] = [];
+  let start = -1;
+  stats.forEach((s, i) => {
+    const dark = s.mean <= DIVIDER_MAX_MEAN && s.std <= DIVIDER_MAX_STD;
+    if (dark && start === -1) start = i;
+    if (!dark && start !== -1) {
+      bands.push({ start, end: i });
+      start = -1;
+    }
+  });
+  if (start !== -1) bands.push({ start, end: stats.length });
+  return bands.filter(b => (b.end - b.start) / stats.length <= DIVIDER_MAX_THICKNESS);
+};
+
+// Matches bands to the expected divider positions; null when any is missing
+// or the resulting cells are badly uneven.
+const spansFromBands = (bands: Band[], length: number, count: number): CellSpan[] | null => {
+  const tolerance = 0.3 / count; // how far a divider may drift from its even position
+  const outerStart = bands.find(b => b.start === 0);
+  const outerEnd = bands.find(b => b.end === length);
+  const inner = bands.filter(b => b !== outerStart && b !== outerEnd);
+
+  const dividers: Band[] = [];
+  for (let i = 1; i < count; i++) {
+    const expected = i / count;
+    const candidates = inner
+      .map(b => ({ band: b, distance: Math.abs((b.start + b.end) / 2 / length - expected) }))
+      .filter(c => c.distance <= tolerance)
+      .sort((a, b) => a.distance - b.distance);
+    if (!candidates.length) return null;
+    dividers.push(candidates[0].band);
+  }
+
+  const edges = [
+    outerStart ? outerStart.end : 0,
+    ...dividers.flatMap(d => [d.start, d.end]),
+    outerEnd ? outerEnd.start : length
+  ];
+  const spans: CellSpan[] = [];
+  for (let i = 0; i < count; i++) {
+    const start = Math.min(length, edges[i * 2] + EDGE_INSET);
+    const end = Math.max(0, edges[i * 2 + 1] - EDGE_INSET);
+    spans.push([start / length, end / length]);
+  }
+  const expectedSpan = 1 / count;
+  const even = spans.every(([s, e]) => e - s > expectedSpan * 0.6 && e - s < expectedSpan * 1.4);
+  return even ? spans : null;
+};
+
+export const detectGridCuts = async (gridImage: string, layout: GridLayout): Promise<GridCuts> => {
+  const fallback = evenGridCuts(layout);
+  try {
+    const img = await loadImage(gridImage);
+    const scale = Math.min(1, ANALYSIS_LONG_EDGE / Math.max(img.width, img.height));
+    const width = Math.max(1, Math.round(img.width * scale));
+    const height = Math.max(1, Math.round(img.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return fallback;
+    ctx.drawImage(img, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const columns = spansFromBands(findBands(lineStats(data, width, height, 'x')), width, layout.cols);
+    const rows = spansFromBands(findBands(lineStats(data, width, height, 'y')), height, layout.rows);
+    return {
+      columns: columns ?? fallback.columns,
+      rows: rows ?? fallback.rows,
+      detected: { columns: !!columns, rows: !!rows }
+    };
+  } catch (e) {
+    console.warn("Divider detection failed, using even split:", e);
+    return fallback;
+  }
+};
+
+// Crops cell `index` (row-major) to a PNG at the target ratio's crop size
+// (1024x1792 for 9:16), center-cropping cells whose aspect doesn't match
+// instead of stretching them.
+export const cropCell = async (
+  gridImage: string,
+  cuts: GridCuts,
+  index: number,
+  aspectRatio: TargetAspectRatio = DEFAULT_ASPECT_RATIO
+): Promise<string> => {
+  if (typeof window === 'undefined') {
+    throw new Error("Manual crop requires browser environment.");
+  }
+  const img = await loadImage(gridImage);
+  const cols = cuts.columns.length;
+  const [left, right] = cuts.columns[index % cols];
+  const [top, bottom] = cuts.rows[Math.floor(index / cols)];
+
+  const canvas = document.createElement('canvas');
+  const { width, height } = getAspectRatio(aspectRatio).cropSize;
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Failed to create canvas context");
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  let sourceX = left * img.width;
+  let sourceY = top * img.height;
+  let sourceW = (right - left) * img.width;
+  let sourceH = (bottom - top) * img.height;
+
+  const targetRatio = canvas.width / canvas.height;
+  if (sourceW / sourceH > targetRatio) {
+    const trimmed = sourceH * targetRatio;
+    sourceX += (sourceW - trimmed) / 2;
+    sourceW = trimmed;
+  } else {
+    const trimmed = sourceW / targetRatio;
+    sourceY += (sourceH - trimmed) / 2;
+    sourceH = trimmed;
+  }
+
+  ctx.drawImage(img, sourceX, sourceY, sourceW, sourceH, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+// --- MANUAL ADJUSTMENT ---
+// Cut handles along one axis: the outer edges plus one handle per divider,
+// sitting in the middle of the gap between two cells.
+export const cutHandlePositions = (spans: CellSpan[]): number[] => [
+  spans[0][0],
+  ...spans.slice(1).map((span, i) => (spans[i][1] + span[0]) / 2),
+  spans[spans.length - 1][1]
+];
+
+// Moves handle `handle` to `position`, keeping each divider's gap width and
+// every cell at least MIN_CELL_SPAN wide.
+export const moveCutHandle = (spans: CellSpan[], handle: number, position: number): CellSpan[] => {
+  const next = spans.map(span => [...span] as CellSpan);
+  const last = spans.length;
+  if (handle === 0) {
+    next[0][0] = Math.min(Math.max(0, position), next[0][1] - MIN_CELL_SPAN);
+  } else if (handle === last) {
+    next[last - 1][1] = Math.max(Math.min(1, position), next[last - 1][0] + MIN_CELL_SPAN);
+  } else {
+    const before = next[handle - 1];
+    const after = next[handle];
+    const halfGap = (after[0] - before[1]) / 2;
+    const min = before[0] + MIN_CELL_SPAN + halfGap;
+    const max = after[1] - MIN_CELL_SPAN - halfGap;
+    const center = Math.min(Math.max(position, min), max);
+    before[1] = center - halfGap;
+    after[0] = center + halfGap;
+  }
+  return next;
+};
@@ -0,0 +1,235 @@
+import { CancelledError, GenerationError, RateLimitError, toGenerationError } from './errors.ts';
+import { ModelLimits } from './providers/types.ts';
+
+// --- GLOBAL JOB SCHEDULER ---
+// Every model call goes through here. Jobs are grouped into one lane per model,
+// and each lane enforces the model's concurrency and requests-per-minute limits,
+// runs higher priorities first, and retries throttled jobs with backoff. A 429 on
+// one job pauses its whole lane, since the other queued jobs would hit it too.
+// A retry re-runs the whole job, so a job that has started billable work a rerun
+// would repeat (a submitted Veo render) calls `commit` and is never retried after.
+
+export type JobPriority = 'high' | 'normal' | 'low';
+
+export interface JobOptions {
+  priority?: JobPriority;
+  signal?: AbortSignal;
+  label?: string;
+}
+
+export interface LaneSnapshot {
+  model: string;
+  waiting: number;
+  running: number;
+  pausedUntil: number | null;
+}
+
+export interface QueueSnapshot {
+  waiting: number;
+  running: number;
+  lanes: LaneSnapshot[];
+}
+
+const PRIORITY_ORDER: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+const RETRY = {
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000
+};
+
+const RATE_WINDOW_MS = 60000;
+
+interface QueuedJob {
+  seq: number;
+  priority: JobPriority;
+  label?: string;
+  attempt: number;
+  notBefore: number;
+  signal?: AbortSignal;
+  committed: boolean;
+  run: (signal?: AbortSignal, commit?: () => void) => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  onAbort?: () => void;
+}
+
+interface Lane {
+  model: string;
+  limits: ModelLimits;
+  queue: QueuedJob[];
+  running: number;
+  startedAt: number[]; // start times inside the rate window
+  pausedUntil: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const lanes = new Map<string, Lane>();
+const listeners = new Set<(snapshot: QueueSnapshot) => void>();
+let nextSeq = 0;
+
+// The error taxonomy decides (throttling, 5xx, dropped connections, empty
+// responses); committed jobs are never retried whatever the error says.
+const isRetryable = (error: GenerationError) => error.retryable;
+
+// Exponential backoff with "equal jitter": half fixed, half random, so parallel
+// jobs that failed together don't come back together. A server hint wins when larger.
+const backoffDelay = (attempt: number, retryAfterMs?: number) => {
+  const exponential = Math.min(RETRY.maxDelayMs, RETRY.baseDelayMs * 2 ** attempt);
+  const jittered = exponential / 2 + Math.random() * exponential / 2;
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs + Math.random() * 1000, jittered) : jittered;
+};
+
+export const getQueueSnapshot = (): QueueSnapshot => {
+  const laneSnapshots = [...lanes.values()].map(lane => ({
+    model: lane.model,
+    waiting: lane.queue.length,
+    running: lane.running,
+    pausedUntil: lane.pausedUntil > Date.now() ? lane.pausedUntil : null
+  }));
+  return {
+    waiting: laneSnapshots.reduce((sum, l) => sum + l.waiting, 0),
+    running: laneSnapshots.reduce((sum, l) => sum + l.running, 0),
+    lanes: laneSnapshots
+  };
+};
+
+export const subscribeQueue = (listener: (snapshot: QueueSnapshot) => void): (() => void) => {
+  listeners.add(listener);
+  listener(getQueueSnapshot());
+  return () => { listeners.delete(listener); };
+};
+
+const notify = () => {
+  const snapshot = getQueueSnapshot();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const getLane = (model: string, limits: ModelLimits): Lane => {
+  let lane = lanes.get(model);
+  if (!lane) {
+    lane = { model, limits, queue: [], running: 0, startedAt: [], pausedUntil: 0, timer: null };
+    lanes.set(model, lane);
+  }
+  return lane;
+};
+
+const insertByPriority = (lane: Lane, job: QueuedJob) => {
+  const rank = (j: QueuedJob) => PRIORITY_ORDER[j.priority];
+  const index = lane.queue.findIndex(j => rank(j) > rank(job) || (rank(j) === rank(job) && j.seq > job.seq));
+  if (index === -1) lane.queue.push(job);
+  else lane.queue.splice(index, 0, job);
+};
+
+const schedulePump = (lane: Lane, at: number) => {
+  if (lane.timer) clearTimeout(lane.timer);
+  lane.timer = setTimeout(() => {
+    lane.timer = null;
+    pump(lane);
+  }, Math.max(0, at - Date.now()));
+};
+
+const pump = (lane: Lane) => {
+  const now = Date.now();
+  lane.startedAt = lane.startedAt.filter(t => now - t < RATE_WINDOW_MS);
+
+  if (lane.pausedUntil > now) {
+    schedulePump(lane, lane.pausedUntil);
+    return;
+  }
+
+  while (lane.running < lane.limits.concurrency && lane.queue.length > 0) {
+    if (lane.startedAt.length >= lane.limits.requestsPerMinute) {
+      schedulePump(lane, lane.startedAt[0] + RATE_WINDOW_MS);
+      break;
+    }
+    const index = lane.queue.findIndex(j => j.notBefore <= now);
+    if (index === -1) {
+      schedulePump(lane, Math.min(...lane.queue.map(j => j.notBefore)));
+      break;
+    }
+    const [job] = lane.queue.splice(index, 1);
+    start(lane, job);
+  }
+  notify();
+};
+
+const start = (lane: Lane, job: QueuedJob) => {
+  lane.running++;
+  lane.startedAt.push(Date.now());
+
+  job.run(job.signal, () => { job.committed = true; }).then(
+    value => {
+      job.signal?.removeEventListener('abort', job.onAbort!);
+      job.resolve(value);
+    },
+    raw => {
+      const error = toGenerationError(raw);
+      if (job.signal?.aborted || error instanceof CancelledError) {
+        job.signal?.removeEventListener('abort', job.onAbort!);
+        job.reject(job.signal?.aborted ? new CancelledError() : error);
+        return;
+      }
+      if (!job.committed && isRetryable(error) && job.attempt + 1 < RETRY.maxAttempts) {
+        const retryAfter = error instanceof RateLimitError ? error.retryAfterMs : undefined;
+        const delay = backoffDelay(job.attempt, retryAfter);
+        if (error instanceof RateLimitError) {
+          lane.pausedUntil = Math.max(lane.pausedUntil, Date.now() + delay);
+        }
+        job.attempt++;
+        job.notBefore = Date.now() + delay;
+        insertByPriority(lane, job);
+        return;
+      }
+      job.signal?.removeEventListener('abort', job.onAbort!);
+      job.reject(error);
+    }
+  ).finally(() => {
+    lane.running--;
+    pump(lane);
+  });
+};
+
+// Queues `run` on the lane for `model`. Resolves/rejects with the job's final
+// outcome after any retries; rejects with CancelledError if `signal` aborts first.
+// `run` calls `commit` once failing would no longer be safe to retry.
+export const enqueueJob = <T>(
+  model: string,
+  limits: ModelLimits,
+  run: (signal?: AbortSignal, commit?: () => void) => Promise<T>,
+  options: JobOptions = {}
+): Promise<T> => {
+  const { signal, priority = 'normal', label } = options;
+  if (signal?.aborted) return Promise.reject(new CancelledError());
+
+  const lane = getLane(model, limits);
+
+  return new Promise<T>((resolve, reject) => {
+    const job: QueuedJob = {
+      seq: nextSeq++,
+      priority,
+      label,
+      attempt: 0,
+      notBefore: 0,
+      signal,
+      committed: false,
+      run,
+      resolve: resolve as (value: unknown) => void,
+      reject
+    };
+
+    // Still waiting (first time or between retries): drop it from the queue.
+    // Once running, the job's own signal handling takes over.
+    job.onAbort = () => {
+      const index = lane.queue.indexOf(job);
+      if (index === -1) return;
+      lane.queue.splice(index, 1);
+      reject(new CancelledError());
+      notify();
+    };
+    signal?.addEventListener('abort', job.onAbort, { once: true });
+
+    insertByPriority(lane, job);
+    pump(lane);
+  });
+};
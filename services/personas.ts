@@ -0,0 +1,105 @@
+import { dbDelete, dbGetAll, dbPut } from './db.ts';
+
+// --- MODEL PERSONAS ---
+// A persona is a saved model: several reference photos tagged by angle plus
+// free-form notes (marks, hair, build). Identity-preserving calls send the
+// references that best match the shot being worked on, so a profile or
+// close-up shot isn't rebuilt from a single front photo. Personas live in
+// IndexedDB; a project keeps a copy of the one it uses, so project files stay
+// self-contained.
+
+export type ReferenceAngle = 'front' | 'threeQuarter' | 'profile' | 'fullBody';
+
+export const REFERENCE_ANGLES: Record<ReferenceAngle, string> = {
+  front: 'Front',
+  threeQuarter: 'Three-Quarter',
+  profile: 'Profile',
+  fullBody: 'Full Body'
+};
+
+export interface IdentityReference {
+  image: string;
+  angle: ReferenceAngle | null; // null = untagged, e.g. a plain model upload
+}
+
+export interface ModelPersona {
+  id: string;
+  name: string;
+  notes: string;
+  photos: IdentityReference[];
+  updatedAt: number;
+}
+
+// What identity-preserving calls receive: references in the order they are sent.
+export interface Identity {
+  references: IdentityReference[];
+  notes: string;
+}
+
+// Each reference costs input tokens and dilutes the instruction; three cover
+// the useful angles for any one shot.
+export const MAX_IDENTITY_REFERENCES = 3;
+
+// Preferred angles for a shot, picked by the first rule whose keywords appear
+// in the shot's description.
+const FRAMING_RULES: { keywords: string[]; order: ReferenceAngle[] }[] = [
+  { keywords: ['profile', 'side view', 'side angle', 'from the side', 'samping'], order: ['profile', 'threeQuarter', 'front', 'fullBody'] },
+  { keywords: ['three-quarter', 'three quarter', '3/4'], order: ['threeQuarter', 'front', 'profile', 'fullBody'] },
+  { keywords: ['full body', 'full-body', 'wide shot', 'walking', 'standing', 'lifestyle', 'environment', 'seluruh badan'], order: ['fullBody', 'front', 'threeQuarter', 'profile'] },
+  { keywords: ['close-up', 'close up', 'closeup', 'face', 'portrait', 'macro', 'wajah'], order: ['front', 'threeQuarter', 'profile', 'fullBody'] }
+];
+const DEFAULT_ORDER: ReferenceAngle[] = ['front', 'threeQuarter', 'profile', 'fullBody'];
+
+// Identity of a project: its persona, or else the uploaded model photo alone.
+export const projectIdentity = (modelImage: string | null, persona: ModelPersona | null): Identity | undefined => {
+  if (persona && persona.photos.length > 0) return { references: persona.photos, notes: persona.notes };
+  return modelImage ? { references: [{ image: modelImage, angle: null }], notes: '' } : undefined;
+};
+
+// The photo a persona is shown and refined with.
+export const primaryPhoto = (persona: ModelPersona): string | null =>
+  (persona.photos.find(p => p.angle === 'front') ?? persona.photos[0])?.image ?? null;
+
+// Best references for the shot described by `shotText`: one per angle in the
+// preferred order first, then extra photos of the same angles.
+export const selectReferences = (identity: Identity | undefined, shotText: string, max = MAX_IDENTITY_REFERENCES): Identity | undefined => {
+  if (!identity) return undefined;
+  const lower = shotText.toLowerCase();
+  const order = FRAMING_RULES.find(rule => rule.keywords.some(k => lower.includes(k)))?.order ?? DEFAULT_ORDER;
+  const rank = (ref: IdentityReference) => ref.angle ? order.indexOf(ref.angle) : order.length;
+  const sorted = identity.references.map((ref, i) => ({ ref, i })).sort((a, b) => rank(a.ref) - rank(b.ref) || a.i - b.i).map(r => r.ref);
+  const distinct = sorted.filter((ref, i) => !ref.angle || sorted.findIndex(other => other.angle === ref.angle) === i);
+  const rest = sorted.filter(ref => !distinct.includes(ref));
+  return { ...identity, references: [...distinct, ...rest].slice(0, max) };
+};
+
+// --- LIBRARY ---
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribePersonas = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const listPersonas = async (): Promise<ModelPersona[]> => {
+  try {
+    const personas = await dbGetAll<ModelPersona>('personas');
+    return personas.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (e) {
+    console.warn('Persona storage unavailable:', e);
+    return [];
+  }
+};
+
+export const savePersona = async (persona: ModelPersona): Promise<ModelPersona> => {
+  const saved = { ...persona, updatedAt: Date.now() };
+  await dbPut('personas', saved);
+  notify();
+  return saved;
+};
+
+export const deletePersona = async (id: string): Promise<void> => {
+  await dbDelete('personas', id);
+  notify();
+};
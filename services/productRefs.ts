@@ -0,0 +1,65 @@
+// --- PRODUCT REFERENCES ---
+// The product input is a set: one or more products (a top plus a bag for one
+// look), each with labeled photos (front, back, detail, logo). `productImage`
+// stays the primary photo, shown on UPLOAD and used where one image is enough;
+// the full set goes to try-on, the grid and reference regeneration, and the
+// prompts say which input image shows what. A project without extra
+// references is the single uploaded photo.
+
+export type ProductView = 'front' | 'back' | 'side' | 'detail' | 'logo';
+
+export const PRODUCT_VIEWS: Record<ProductView, string> = {
+  front: 'Front',
+  back: 'Back',
+  side: 'Side',
+  detail: 'Detail',
+  logo: 'Logo'
+};
+
+export interface ProductPhoto {
+  image: string;
+  view: ProductView;
+}
+
+export interface ProductItem {
+  id: string;
+  name: string; // e.g. "Tote bag"; used in prompts, so keep it short
+  photos: ProductPhoto[];
+}
+
+// Inputs per request are limited and every extra image weakens the rest;
+// eight covers two products from four sides.
+export const MAX_PRODUCT_PHOTOS = 8;
+
+// One entry per product photo, in the order they are sent.
+export interface LabeledProductPhoto extends ProductPhoto {
+  label: string; // "TOTE BAG (BACK)"
+}
+
+export const newProductItem = (index: number, image?: string): ProductItem => ({
+  id: crypto.randomUUID(),
+  name: `Product ${index + 1}`,
+  photos: image ? [{ image, view: 'front' }] : []
+});
+
+// The set a project generates with: its references, or the primary photo alone.
+export const productSet = (productImage: string | null, references: ProductItem[]): ProductItem[] => {
+  const items = references.filter(item => item.photos.length > 0);
+  if (items.length > 0) return items;
+  return productImage ? [{ id: 'primary', name: 'Product', photos: [{ image: productImage, view: 'front' }] }] : [];
+};
+
+export const primaryProductPhoto = (items: ProductItem[]): string | null => items[0]?.photos[0]?.image ?? null;
+
+// Flattens the set for a request: every product's front view first, so a cap
+// drops extra angles before it drops a whole product.
+export const labelProductPhotos = (items: ProductItem[], max = MAX_PRODUCT_PHOTOS): LabeledProductPhoto[] => {
+  const labeled = items.flatMap((item, i) => item.photos.map((photo, j) => ({
+    ...photo,
+    label: `${(item.name.trim() || `Product ${i + 1}`).toUpperCase()} (${PRODUCT_VIEWS[photo.view].toUpperCase()})`,
+    primary: j === 0
+  })));
+  return [...labeled.filter(p => p.primary), ...labeled.filter(p => !p.primary)]
+    .slice(0, max)
+    .map(({ primary, ...photo }) => photo);
+};
@@ -0,0 +1,190 @@
+import { GenerationState } from '../types.ts';
+import { ProductCategory } from './categories.ts';
+import { GenerationError } from './errors.ts';
+import { formatPromptRef, PromptRef } from './promptTemplates.ts';
+import { listUsage } from './usage.ts';
+import { createZip, ZipEntry } from './zip.ts';
+
+// --- PROJECT DELIVERABLES EXPORT ---
+// Bundles a project's inputs, renders and a manifest.json (prompts, style,
+// category, generation timestamps) into one ZIP built in the browser.
+
+export type ExportAssetKind = 'inputs' | 'combined' | 'storyboard' | 'stills' | 'videos';
+
+export const EXPORT_ASSET_KINDS: Record<ExportAssetKind, string> = {
+  inputs: 'Model & Product Inputs',
+  combined: 'Combined Image',
+  storyboard: 'Storyboard Grid',
+  stills: 'Scene Stills',
+  videos: 'Scene Videos'
+};
+
+export interface ExportSettings {
+  include: Record<ExportAssetKind, boolean>;
+  // File name of every asset, "/" makes folders. See NAMING_TOKENS.
+  namingPattern: string;
+}
+
+export const NAMING_TOKENS: Record<string, string> = {
+  '{project}': 'Project name',
+  '{asset}': 'model, product, combined, storyboard, shot-01-still, shot-01-motion',
+  '{ratio}': 'Output format, e.g. 9x16',
+  '{date}': 'Export date, YYYY-MM-DD'
+};
+
+export const DEFAULT_NAMING_PATTERN = '{project}-{asset}';
+
+const SETTINGS_KEY = 'PROJECT_EXPORT_SETTINGS';
+const DEFAULT_SETTINGS: ExportSettings = {
+  include: { inputs: true, combined: true, storyboard: true, stills: true, videos: true },
+  namingPattern: DEFAULT_NAMING_PATTERN
+};
+
+export const getExportSettings = (): ExportSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const saved = JSON.parse(raw) as Partial<ExportSettings>;
+    return { include: { ...DEFAULT_SETTINGS.include, ...saved.include }, namingPattern: saved.namingPattern || DEFAULT_NAMING_PATTERN };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveExportSettings = (settings: ExportSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Everything the export reads besides the generation state.
+export interface ExportContext {
+  state: GenerationState;
+  category: ProductCategory;
+  categoryManual: boolean;
+  motionPrompts: string[]; // per scene, as typed on the RESULTS cards
+}
+
+export interface ProjectArchive {
+  blob: Blob;
+  filename: string;
+  fileCount: number;
+}
+
+interface PlannedAsset {
+  kind: ExportAssetKind;
+  asset: string;
+  url: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm'
+};
+
+const safeSegment = (text: string) => text.replace(/[\\:*?"<>|\u0000-\u001f]+/g, '-').trim();
+
+export const applyNamingPattern = (pattern: string, values: Record<string, string>): string => {
+  const name = Object.entries(values).reduce((text, [token, value]) => text.split(`{${token}}`).join(value), pattern);
+  return name.split('/').map(safeSegment).filter(Boolean).join('/') || values.asset;
+};
+
+const shotAsset = (sceneId: number, suffix: string) => `shot-${String(sceneId + 1).padStart(2, '0')}-${suffix}`;
+
+const planAssets = (state: GenerationState, include: ExportSettings['include']): PlannedAsset[] => {
+  const assets: PlannedAsset[] = [];
+  if (include.inputs) {
+    if (state.modelImage) assets.push({ kind: 'inputs', asset: 'model', url: state.modelImage });
+    if (state.productImage) assets.push({ kind: 'inputs', asset: 'product', url: state.productImage });
+  }
+  if (include.combined && state.combinedImage) assets.push({ kind: 'combined', asset: 'combined', url: state.combinedImage });
+  if (include.storyboard && state.storyboardGrid) assets.push({ kind: 'storyboard', asset: 'storyboard', url: state.storyboardGrid });
+  state.scenes.forEach(scene => {
+    if (include.stills && scene.image) assets.push({ kind: 'stills', asset: shotAsset(scene.id, 'still'), url: scene.image });
+    if (include.videos && scene.videoUrl) assets.push({ kind: 'videos', asset: shotAsset(scene.id, 'motion'), url: scene.videoUrl });
+  });
+  return assets;
+};
+
+// Data URLs and object URLs both read back through fetch.
+const readAsset = async (planned: PlannedAsset): Promise<Blob> => {
+  try {
+    return await (await fetch(planned.url)).blob();
+  } catch (e) {
+    throw new GenerationError('EXPORT', `"${planned.asset}" could not be read for the export. Render it again and retry.`, { cause: e });
+  }
+};
+
+const promptLabel = (ref?: PromptRef | null) => ref ? formatPromptRef(ref) : null;
+
+export const countExportAssets = (state: GenerationState, include: ExportSettings['include']) => planAssets(state, include).length;
+
+export const exportProject = async (
+  context: ExportContext,
+  settings: ExportSettings,
+  onProgress?: (done: number, total: number) => void
+): Promise<ProjectArchive> => {
+  const { state } = context;
+  const planned = planAssets(state, settings.include);
+  const now = new Date();
+  const values = {
+    project: state.projectName.trim() || 'project',
+    ratio: state.aspectRatio.replace(':', 'x'),
+    date: now.toISOString().slice(0, 10)
+  };
+
+  const entries: ZipEntry[] = [];
+  const files: Record<string, string> = {};
+  for (const [i, item] of planned.entries()) {
+    onProgress?.(i, planned.length);
+    const blob = await readAsset(item);
+    const extension = EXTENSIONS[blob.type] ?? (item.kind === 'videos' ? 'mp4' : 'png');
+    const name = `${applyNamingPattern(settings.namingPattern, { ...values, asset: item.asset })}.${extension}`;
+    entries.push({ name, data: blob, modified: now });
+    files[item.asset] = name;
+  }
+
+  const manifest = {
+    project: { id: state.projectId, name: state.projectName },
+    exportedAt: now.toISOString(),
+    aspectRatio: state.aspectRatio,
+    gridLayout: state.gridLayout,
+    category: { id: context.category.id, label: context.category.label, manual: context.categoryManual },
+    instruction: state.promptInstruction,
+    style: {
+      stylePrompt: state.stylePrompt,
+      brandingText: state.brandingText,
+      fontStyle: state.fontStyle,
+      textPlacement: state.textPlacement
+    },
+    prompts: {
+      combined: promptLabel(state.combinedPrompt),
+      storyboard: promptLabel(state.storyboardPrompt)
+    },
+    files,
+    scenes: state.scenes.map(scene => ({
+      shot: scene.id + 1,
+      still: files[shotAsset(scene.id, 'still')] ?? null,
+      video: files[shotAsset(scene.id, 'motion')] ?? null,
+      imagePrompt: promptLabel(scene.imagePrompt),
+      videoPrompt: promptLabel(scene.videoPrompt),
+      motion: scene.jsonMode ? scene.jsonPrompt : context.motionPrompts[scene.id],
+      music: scene.bgMusicPrompt || null,
+      dialogue: scene.dialoguePrompt || null,
+      duration: scene.videoUrl ? scene.videoDuration : null
+    })),
+    // Successful model calls of this project, oldest first
+    generations: listUsage()
+      .filter(r => r.projectId === state.projectId && (r.status === 'success' || r.status === 'cached'))
+      .map(r => ({ at: new Date(r.timestamp).toISOString(), stage: r.stage, model: r.model, template: r.promptTemplate ?? null, status: r.status }))
+  };
+  entries.push({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2), modified: now });
+
+  onProgress?.(planned.length, planned.length);
+  return {
+    blob: await createZip(entries),
+    filename: `${safeSegment(values.project).replace(/\//g, '-')}-deliverables.zip`,
+    fileCount: entries.length
+  };
+};
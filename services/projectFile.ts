@@ -0,0 +1,182 @@
+import { AppStep, GenerationState, SceneFrame } from '../types.ts';
+import { getCategory, ProductCategory, saveCustomCategory } from './categories.ts';
+import { GenerationError } from './errors.ts';
+
+// --- PROJECT FILES ---
+// A project saves as one self-contained JSON file: the generation state, the
+// per-scene prompts, the open step and project settings. Media is embedded as
+// data URLs (scene videos are object URLs while open and are inlined on save),
+// so the file can be handed to someone else as is.
+//
+// Every file carries `version`. When the schema changes, bump
+// PROJECT_FILE_VERSION and add a migration from the previous version to
+// MIGRATIONS; files are upgraded one version at a time when opened. Fields that
+// are simply new don't need a migration: missing fields fall back to the app's
+// defaults when the project is applied.
+
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.project.json';
+const FORMAT_ID = 'ugc-storyboard-project';
+
+export interface ProjectSettings {
+  forceFresh: boolean;
+  // A custom category picked on REFINE travels with the project, so it opens
+  // on machines that don't have it.
+  customCategory: ProductCategory | null;
+}
+
+export interface ProjectSnapshot {
+  state: GenerationState;
+  step: AppStep;
+  scenePrompts: string[];
+  repairPrompts: string[];
+  settings: ProjectSettings;
+}
+
+interface ProjectFile extends ProjectSnapshot {
+  format: typeof FORMAT_ID;
+  version: number;
+  savedAt: string;
+}
+
+type RawProjectFile = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+// A project's state as read from a file: the fields it can't be opened without
+// are checked, everything else falls back to the app's defaults when applied.
+type StoredState = Partial<GenerationState> & Pick<GenerationState, 'projectId' | 'projectName' | 'scenes'>;
+
+const isStoredScene = (value: unknown): value is SceneFrame =>
+  isRecord(value) && typeof value.id === 'number' && isOptionalString(value.image) && isOptionalString(value.videoUrl);
+
+// Names of the state fields that are missing or of the wrong type.
+const invalidStateFields = (state: Record<string, unknown>): string[] => [
+  typeof state.projectId !== 'string' && 'projectId',
+  typeof state.projectName !== 'string' && 'projectName',
+  !(Array.isArray(state.scenes) && state.scenes.every(isStoredScene)) && 'scenes',
+  ...(['modelImage', 'productImage', 'combinedImage', 'storyboardGrid'] as const).filter(key => !isOptionalString(state[key])),
+  ...(['promptInstruction', 'brandingText', 'stylePrompt'] as const).filter(key => state[key] !== undefined && typeof state[key] !== 'string')
+].filter((field): field is string => !!field);
+
+const isStoredState = (state: Record<string, unknown>): state is Record<string, unknown> & StoredState =>
+  invalidStateFields(state).length === 0;
+
+const readSettings = (value: unknown): ProjectSettings => {
+  const settings = isRecord(value) ? value : {};
+  const category = settings.customCategory;
+  return {
+    forceFresh: settings.forceFresh === true,
+    // Checked in full by saveCustomCategory below
+    customCategory: isRecord(category) && typeof category.id === 'string' ? category as unknown as ProductCategory : null
+  };
+};
+
+// Keyed by the version a migration upgrades from.
+const MIGRATIONS: Record<number, (file: RawProjectFile) => RawProjectFile> = {};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const inlineVideo = async (url: string | null): Promise<string | null> => {
+  if (!url || url.startsWith('data:')) return url;
+  try {
+    return await blobToDataUrl(await (await fetch(url)).blob());
+  } catch (e) {
+    throw new GenerationError('PROJECT', "A scene video could not be read for saving. Render it again and retry.", { cause: e });
+  }
+};
+
+// Flags of jobs that can't survive a save / reopen.
+export const idleScene = (scene: SceneFrame): SceneFrame => ({
+  ...scene,
+  isExtracting: false,
+  isGeneratingVideo: false,
+  isUpscaling: false,
+  isEditing: false,
+  videoProgress: scene.videoUrl ? 100 : 0
+});
+
+export const saveProjectFile = async (snapshot: ProjectSnapshot): Promise<Blob> => {
+  const scenes = await Promise.all(snapshot.state.scenes.map(async scene => ({ ...idleScene(scene), videoUrl: await inlineVideo(scene.videoUrl) })));
+  const file: ProjectFile = {
+    format: FORMAT_ID,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    ...snapshot,
+    state: { ...snapshot.state, scenes, extractionProgress: 0 }
+  };
+  return new Blob([JSON.stringify(file)], { type: 'application/json' });
+};
+
+const migrate = (file: RawProjectFile): RawProjectFile => {
+  const version = Number(file.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new GenerationError('PROJECT', "This project file has no valid version and can't be opened.");
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new GenerationError('PROJECT', `This project was saved by a newer version of the app (file version ${version}). Update the app to open it.`);
+  }
+  let current = file;
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    current = { ...MIGRATIONS[v](current), version: v + 1 };
+  }
+  return current;
+};
+
+// Object URLs for the embedded videos, so they play like freshly rendered ones.
+const restoreVideo = async (url: string | null): Promise<string | null> =>
+  url?.startsWith('data:') ? URL.createObjectURL(await (await fetch(url)).blob()) : url;
+
+const isStep = (value: unknown): value is AppStep => Object.values(AppStep).includes(value as AppStep);
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const openProjectFile = async (file: File): Promise<ProjectSnapshot> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (e) {
+    throw new GenerationError('PROJECT', `"${file.name}" is not a project file.`, { cause: e });
+  }
+  if (!isRecord(raw) || raw.format !== FORMAT_ID) throw new GenerationError('PROJECT', `"${file.name}" is not a project file.`);
+
+  const upgraded = migrate(raw);
+  if (!isRecord(upgraded.state)) {
+    throw new GenerationError('PROJECT', `"${file.name}" is damaged: it has no project state.`);
+  }
+  const state = upgraded.state;
+  if (!isStoredState(state)) {
+    throw new GenerationError('PROJECT', `"${file.name}" is damaged: missing or invalid ${invalidStateFields(state).join(', ')}.`);
+  }
+  const scenes: SceneFrame[] = await Promise.all(state.scenes.map(async scene =>
+    idleScene({ ...scene, videoUrl: await restoreVideo(scene.videoUrl) })));
+
+  const settings = readSettings(upgraded.settings);
+  let categoryOverride = typeof state.categoryOverride === 'string' ? state.categoryOverride : null;
+  if (settings.customCategory && !getCategory(settings.customCategory.id)) {
+    try {
+      saveCustomCategory(settings.customCategory);
+    } catch {
+      // Invalid or clashing with a built-in: the project falls back to auto-detect
+      categoryOverride = null;
+    }
+  }
+
+  return {
+    // Fields the file doesn't have are filled with defaults when the project is applied
+    state: { ...state, scenes, categoryOverride } as GenerationState,
+    step: isStep(upgraded.step) ? upgraded.step : AppStep.UPLOAD,
+    scenePrompts: isStringList(upgraded.scenePrompts) ? upgraded.scenePrompts : [],
+    repairPrompts: isStringList(upgraded.repairPrompts) ? upgraded.repairPrompts : [],
+    settings
+  };
+};
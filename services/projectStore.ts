@@ -0,0 +1,203 @@
+import { AppStep } from '../types.ts';
+import { dbDelete, dbGet, dbGetAll, dbPut } from './db.ts';
+import { GenerationError } from './errors.ts';
+import { blobToDataUrl, idleScene, ProjectSnapshot } from './projectFile.ts';
+import { deleteProjectVideos, loadSceneVideo, saveSceneVideo, sceneVideoKey } from './videoStore.ts';
+
+// --- AUTOSAVE & RECENT PROJECTS ---
+// The open project is written to IndexedDB shortly after every change, so a
+// refresh or crash loses at most the last few seconds. Images and audio are
+// stored as Blobs next to the JSON instead of as data URL strings. Scene videos
+// go to the sceneVideos store (videoStore.ts) under the project's id; the
+// snapshot only keeps their dead `blob:` URL as a marker that a clip exists.
+// A small index record per project feeds the recent projects list without
+// reading every project's media.
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  step: AppStep;
+  stills: number;
+  videos: number;
+  thumbnail: Blob | null;
+}
+
+interface StoredProject {
+  id: string;
+  snapshot: unknown; // ProjectSnapshot with data URLs replaced by MediaRef
+  media: Blob[];
+}
+
+interface MediaRef {
+  $media: number;
+}
+
+const LAST_SESSION_KEY = 'AUTOSAVE_LAST_PROJECT';
+const THUMBNAIL_SIZE = 240;
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeRecentProjects = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// Decoded media by data URL, so unchanged images aren't converted on every save.
+// Pruned to what the last save used.
+let mediaCache = new Map<string, Blob>();
+// Object URLs already in the sceneVideos store.
+const storedVideos = new Set<string>();
+let thumbnailCache: { source: string; thumbnail: Blob | null } | null = null;
+
+const isMediaRef = (value: unknown): value is MediaRef =>
+  !!value && typeof value === 'object' && typeof (value as MediaRef).$media === 'number';
+
+// `used` maps each data URL to its index in `media`, so an image that appears
+// twice (e.g. the current image and its history entry) is stored once.
+const encode = async (value: unknown, media: Blob[], used: Map<string, number>): Promise<unknown> => {
+  if (typeof value === 'string' && value.startsWith('data:')) {
+    let index = used.get(value);
+    if (index === undefined) {
+      index = media.length;
+      used.set(value, index);
+      media.push(new Blob()); // reserve the slot before awaiting
+      media[index] = mediaCache.get(value) ?? await (await fetch(value)).blob();
+    }
+    return { $media: index };
+  }
+  if (Array.isArray(value)) return Promise.all(value.map(item => encode(item, media, used)));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await encode(item, media, used)]));
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+const decode = async (value: unknown, media: Blob[], decoded = new Map<number, Promise<string>>()): Promise<unknown> => {
+  if (isMediaRef(value)) {
+    let dataUrl = decoded.get(value.$media);
+    if (!dataUrl) {
+      const blob = media[value.$media];
+      dataUrl = blobToDataUrl(blob).then(url => { mediaCache.set(url, blob); return url; });
+      decoded.set(value.$media, dataUrl);
+    }
+    return dataUrl;
+  }
+  if (Array.isArray(value)) return Promise.all(value.map(item => decode(item, media, decoded)));
+  if (value && typeof value === 'object') {
+    const entries = await Promise.all(Object.entries(value).map(async ([key, item]) => [key, await decode(item, media, decoded)]));
+    return Object.fromEntries(entries);
+  }
+  return value;
+};
+
+const makeThumbnail = async (source: string | null): Promise<Blob | null> => {
+  if (!source) return null;
+  if (thumbnailCache?.source === source) return thumbnailCache.thumbnail;
+  let thumbnail: Blob | null = null;
+  try {
+    const bitmap = await createImageBitmap(await (await fetch(source)).blob());
+    const scale = THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    thumbnail = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+  } catch (e) {
+    console.warn('Project thumbnail failed:', e);
+  }
+  thumbnailCache = { source, thumbnail };
+  return thumbnail;
+};
+
+const writeProject = async (snapshot: ProjectSnapshot): Promise<boolean> => {
+  const { state } = snapshot;
+  try {
+    await Promise.all(state.scenes.map(async scene => {
+      if (!scene.videoUrl || storedVideos.has(scene.videoUrl)) return;
+      await saveSceneVideo({ key: sceneVideoKey(state.projectId, scene.id), projectId: state.projectId, sceneId: scene.id, prompt: scene.videoPrompt ?? null }, scene.videoUrl);
+      storedVideos.add(scene.videoUrl);
+    }));
+
+    const media: Blob[] = [];
+    const used = new Map<string, number>();
+    const idle: ProjectSnapshot = { ...snapshot, state: { ...state, scenes: state.scenes.map(idleScene), extractionProgress: 0 } };
+    const stored: StoredProject = { id: state.projectId, snapshot: await encode(idle, media, used), media };
+    mediaCache = new Map([...used].map(([dataUrl, index]) => [dataUrl, media[index]]));
+
+    const cover = state.scenes.find(s => s.image)?.image ?? state.combinedImage ?? state.modelImage ?? state.productImage;
+    const summary: ProjectSummary = {
+      id: state.projectId,
+      name: state.projectName,
+      updatedAt: Date.now(),
+      step: snapshot.step,
+      stills: state.scenes.filter(s => s.image).length,
+      videos: state.scenes.filter(s => s.videoUrl).length,
+      thumbnail: await makeThumbnail(cover)
+    };
+    await dbPut('projects', stored);
+    await dbPut('projectIndex', summary);
+    localStorage.setItem(LAST_SESSION_KEY, state.projectId);
+    notify();
+    return true;
+  } catch (e) {
+    console.warn('Autosave failed:', e);
+    return false;
+  }
+};
+
+// Saves run one after another, so a slow save can't land after a newer one.
+let lastSave: Promise<boolean> = Promise.resolve(true);
+
+// Resolves to false when the browser refused to store the project (quota, private mode).
+export const autosaveProject = (snapshot: ProjectSnapshot): Promise<boolean> =>
+  lastSave = lastSave.then(() => writeProject(snapshot));
+
+export const listRecentProjects = async (): Promise<ProjectSummary[]> => {
+  try {
+    const summaries = await dbGetAll<ProjectSummary>('projectIndex');
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (e) {
+    console.warn('Project storage unavailable:', e);
+    return [];
+  }
+};
+
+// The project open when the app was last closed, if it was saved.
+export const getLastSessionId = (): string | null => localStorage.getItem(LAST_SESSION_KEY);
+
+// Declined "restore previous session": don't offer it again.
+export const forgetLastSession = () => localStorage.removeItem(LAST_SESSION_KEY);
+
+export const loadSavedProject = async (id: string): Promise<ProjectSnapshot | null> => {
+  let snapshot: ProjectSnapshot;
+  try {
+    const stored = await dbGet<StoredProject>('projects', id);
+    if (!stored) return null;
+    snapshot = await decode(stored.snapshot, stored.media) as ProjectSnapshot;
+  } catch (e) {
+    throw new GenerationError('PROJECT', "The saved project could not be read from browser storage.", { cause: e });
+  }
+  const scenes = await Promise.all(snapshot.state.scenes.map(async scene => {
+    if (!scene.videoUrl) return scene;
+    const videoUrl = await loadSceneVideo(sceneVideoKey(id, scene.id));
+    if (videoUrl) storedVideos.add(videoUrl);
+    return { ...scene, videoUrl, videoProgress: videoUrl ? 100 : 0 };
+  }));
+  return { ...snapshot, state: { ...snapshot.state, scenes } };
+};
+
+export const deleteSavedProject = async (id: string): Promise<void> => {
+  try {
+    await dbDelete('projects', id);
+    await dbDelete('projectIndex', id);
+    await deleteProjectVideos(id);
+    if (getLastSessionId() === id) forgetLastSession();
+  } catch (e) {
+    console.warn('Project storage unavailable:', e);
+  }
+  notify();
+};
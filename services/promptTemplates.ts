@@ -0,0 +1,352 @@
+// --- PROMPT TEMPLATE REGISTRY ---
+// Every prompt sent to a model is rendered from a named template here. Built-in
+// templates carry a version that is bumped whenever their wording changes; users
+// can override any template from Settings, and each override gets its own
+// revision. The rendered prompt's id + version is stored with the asset it
+// produced, so results can be traced back to the exact wording.
+
+interface BuiltinTemplate {
+  version: number;
+  label: string;
+  description: string;
+  variables: readonly string[];
+  body: string;
+}
+
+const BUILTIN_TEMPLATES = {
+  tryOn: {
+    version: 4,
+    label: 'Virtual Try-On',
+    description: 'Refine step. Image 1 is the person; {{productInputs}} names the product image(s) that follow ("Product (Image 2)" for one photo) and {{productNotes}} explains several angles / products. {{extraReferences}} describes further persona photos sent last (empty without a persona).',
+    variables: ['instruction', 'aspectRatio', 'productInputs', 'productNotes', 'extraReferences'],
+    body: `TASK: FLAWLESS VIRTUAL TRY-ON & PRODUCT INTEGRATION.
+1. INPUTS: Person (Image 1) + {{productInputs}}.{{productNotes}}
+2. ACTION: Dress the person in the product OR place the product in their hand/scene naturally.
+3. STRICT REQUIREMENTS:
+   - ANATOMY: Perfect fingers, hands, and body proportions. NO GLITCHES, NO DISTORTED LIMBS, NO FLOATING PARTS.
+   - IDENTITY: The face MUST be the exact person from Image 1.{{extraReferences}}
+   - TEXTURE: High-fidelity fabric/material rendering. Shadows must match the scene.
+   - INTEGRATION: No visible cut-out edges.
+4. INSTRUCTION: {{instruction}}.
+5. OUTPUT: Photorealistic {{aspectRatio}} high-fashion catalog photo.`
+  },
+  branding: {
+    version: 3,
+    label: 'Scene Mastering',
+    description: 'Refine step, "Apply Branding". {{brandingLine}} is one of the two branding line templates below; {{brandReferences}} describes the brand kit logo / reference photos sent after the scene and its colors (empty without a kit).',
+    variables: ['style', 'brandingLine', 'aspectRatio', 'brandReferences'],
+    body: `SCENE MASTERING (LOCK SUBJECT):
+- SUBJECT: Keep person/product EXACTLY as input.
+- FACE: Do not change the facial features.
+- BACKGROUND: {{style}}.{{brandReferences}}
+{{brandingLine}}
+- QUALITY: Photorealistic, {{aspectRatio}}, 1K.`
+  },
+  brandingSign: {
+    version: 1,
+    label: 'Branding Line: Neon Sign',
+    description: 'Inserted into Scene Mastering when branding text is set.',
+    variables: ['text', 'fontStyle', 'placement'],
+    body: `- BRANDING: Neon sign "{{text}}" ({{fontStyle}}) placed {{placement}}.`
+  },
+  brandingNone: {
+    version: 1,
+    label: 'Branding Line: No Text',
+    description: 'Inserted into Scene Mastering and the storyboard when there is no branding text.',
+    variables: [],
+    body: `- BRANDING: NO TEXT. Do not generate any text or neon signs in the background.`
+  },
+  storyboard: {
+    version: 4,
+    label: 'Storyboard Grid',
+    description: 'Storyboard step. {{layout}} is e.g. "3x3" (columns x rows), {{shotList}} the composition plan of the product category, {{productReferences}} lists extra product photos sent after the master (empty without a product image), {{brandReferences}} the brand kit images sent last and its colors (empty without a kit).',
+    variables: ['layout', 'cellCount', 'aspectRatio', 'context', 'category', 'shotList', 'style', 'brandingLine', 'productReferences', 'brandReferences'],
+    body: `
+    COMMERCIAL PRODUCT PHOTOGRAPHY STORYBOARD ({{layout}} GRID)
+
+    INPUT IMAGE: This is the **MASTER REFERENCE (Source of Truth)**.{{productReferences}}
+    GOAL: Create a promotional storyboard CAMPAIGN for the specific PRODUCT shown in the Input Image.
+
+    {{context}}
+
+    CRITICAL CONSISTENCY RULES:
+    1. **PRODUCT INTEGRITY**: The product in the Input Image MUST NOT CHANGE. Use the EXACT same design, color, and logo in all {{cellCount}} panels.
+    2. **MODEL IDENTITY**: The model's face and hair must remain consistent with the Input Image.
+    3. **PROMOTIONAL FOCUS**: This is NOT a generic photoshoot. It is an ADVERTISEMENT for the product.
+
+    COMPOSITION PLAN ({{category}}):
+    {{shotList}}
+
+    STYLE: {{style}}. High-end Commercial Advertisement. Professional Studio Lighting.
+    {{brandingLine}}{{brandReferences}}
+
+    OUTPUT SPEC: High-resolution {{layout}} grid image with thin black dividers. Aspect Ratio {{aspectRatio}}.
+    `
+  },
+  storyboardContext: {
+    version: 1,
+    label: 'Storyboard: User Context',
+    description: 'Inserted into the storyboard prompt when an instruction was given.',
+    variables: ['instruction'],
+    body: `USER CONTEXT: {{instruction}}`
+  },
+  storyboardSign: {
+    version: 1,
+    label: 'Storyboard: Neon Sign',
+    description: 'Inserted into the storyboard prompt when branding text is set.',
+    variables: ['text'],
+    body: `- BRANDING: Neon sign "{{text}}" in background.`
+  },
+  upscale: {
+    version: 1,
+    label: 'Upscale',
+    description: 'Final Render, 2K / 4K buttons.',
+    variables: ['size'],
+    body: `UPSCALE TASK: Increase resolution to {{size}}. Enhance textures and sharpen details. Maintain facial identity.`
+  },
+  repair: {
+    version: 1,
+    label: 'Repair',
+    description: 'Final Render, repair without a reference face.',
+    variables: ['prompt'],
+    body: `AI IMAGE REPAIR: {{prompt}}. Correct anatomy and lighting while maintaining identity.`
+  },
+  repairWithReference: {
+    version: 2,
+    label: 'Repair (With Reference)',
+    description: 'Final Render, repair. {{references}} lists the reference identity inputs (one per line), Input {{target}} is the scene; {{notes}} adds persona notes.',
+    variables: ['prompt', 'references', 'target', 'notes'],
+    body: `AI IMAGE REPAIR:
+{{references}}
+Input {{target}}: IMAGE TO REPAIR.
+INSTRUCTION: {{prompt}}.{{notes}}
+CRITICAL: Ensure the face matches the reference identity. Correct anatomy and lighting.`
+  },
+  regenerate: {
+    version: 3,
+    label: 'Regenerate From Reference',
+    description: 'Final Render, uploading a reference image for a scene. {{productReferences}} lists product photos sent after it (empty without a product image).',
+    variables: ['prompt', 'style', 'aspectRatio', 'productReferences'],
+    body: `REGENERATE SCENE WITH REFERENCE:
+- REFERENCE IMAGE: Use this object/person as the PRIMARY SUBJECT.{{productReferences}}
+- TASK: Create a new scene featuring this subject.
+- CONTEXT: {{prompt}}
+- STYLE: {{style}}
+- CONSTRAINT: The subject from the image must be clearly visible and preserved.
+- OUTPUT: Photorealistic {{aspectRatio}} image.`
+  },
+  edit: {
+    version: 2,
+    label: 'Edit Scene',
+    description: 'Final Render, pose / gesture / angle edit without a reference face.',
+    variables: ['prompt', 'aspectRatio'],
+    body: `IMAGE EDITING TASK:
+- INSTRUCTION: {{prompt}}
+- CONSTRAINT: Keep the original Subject (Face & Product) and Style identical.
+- ACTION: Modify only the pose, gesture, or camera angle as requested.
+- OUTPUT: Photorealistic {{aspectRatio}} image.`
+  },
+  editWithReference: {
+    version: 3,
+    label: 'Edit Scene (With Reference)',
+    description: 'Final Render, edit. {{references}} lists the reference face inputs (one per line), Input {{target}} is the scene; {{notes}} adds persona notes.',
+    variables: ['prompt', 'aspectRatio', 'references', 'target', 'notes'],
+    body: `IMAGE EDITING TASK:
+{{references}}
+- Input {{target}}: SCENE TO EDIT.
+- INSTRUCTION: {{prompt}}{{notes}}
+- CONSTRAINT: You MUST preserve the facial identity from the reference input(s).
+- CONSTRAINT: Keep the product/clothing from Input {{target}}.
+- ACTION: Modify only the pose, gesture, or camera angle as requested.
+- OUTPUT: Photorealistic {{aspectRatio}} image.`
+  },
+  video: {
+    version: 1,
+    label: 'Scene Video',
+    description: 'Final Render, video. {{prompt}} is the motion prompt typed for the scene.',
+    variables: ['prompt'],
+    body: `{{prompt}}. Maintain absolute consistency. Cinematic slow motion.`
+  }
+} as const satisfies Record<string, BuiltinTemplate>;
+
+export type PromptTemplateId = keyof typeof BUILTIN_TEMPLATES;
+type TemplateVars<K extends PromptTemplateId> = (typeof BUILTIN_TEMPLATES)[K]['variables'][number];
+
+// Identifies the exact wording a result was generated with, e.g. "tryOn" @ "v1" or "v1.c2".
+export interface PromptRef {
+  templateId: PromptTemplateId;
+  version: string;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  ref: PromptRef;
+}
+
+interface TemplateOverride {
+  body: string;
+  revision: number; // bumped on every save
+  basedOn: number;  // built-in version the override was written against
+  updatedAt: number;
+}
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  variables: readonly string[];
+  body: string;
+  defaultBody: string;
+  builtinVersion: number;
+  version: string;
+  custom: boolean;
+  outdated: boolean; // override predates the current built-in wording
+}
+
+const OVERRIDES_KEY = 'PROMPT_TEMPLATE_OVERRIDES';
+const EXPORT_FORMAT = 'ugc-prompt-templates';
+
+const listeners = new Set<() => void>();
+
+export const subscribePromptTemplates = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const readOverrides = (): Partial<Record<PromptTemplateId, TemplateOverride>> => {
+  try {
+    const raw = localStorage.getItem(OVERRIDES_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const writeOverrides = (overrides: Partial<Record<PromptTemplateId, TemplateOverride>>) => {
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+  listeners.forEach(listener => listener());
+};
+
+const isTemplateId = (id: string): id is PromptTemplateId => Object.hasOwn(BUILTIN_TEMPLATES, id);
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const formatPromptRef = (ref: PromptRef) => `${ref.templateId}@${ref.version}`;
+
+export const getPromptTemplate = (id: PromptTemplateId): PromptTemplate => {
+  const builtin: BuiltinTemplate = BUILTIN_TEMPLATES[id];
+  const override = readOverrides()[id];
+  return {
+    id,
+    label: builtin.label,
+    description: builtin.description,
+    variables: builtin.variables,
+    body: override?.body ?? builtin.body,
+    defaultBody: builtin.body,
+    builtinVersion: builtin.version,
+    version: override ? `v${override.basedOn}.c${override.revision}` : `v${builtin.version}`,
+    custom: !!override,
+    outdated: !!override && override.basedOn < builtin.version
+  };
+};
+
+export const listPromptTemplates = (): PromptTemplate[] =>
+  (Object.keys(BUILTIN_TEMPLATES) as PromptTemplateId[]).map(getPromptTemplate);
+
+// Returns the placeholders in `body` that the template doesn't provide.
+export const findUnknownVariables = (id: PromptTemplateId, body: string): string[] => {
+  const known: readonly string[] = BUILTIN_TEMPLATES[id].variables;
+  return [...new Set([...body.matchAll(PLACEHOLDER)].map(m => m[1]).filter(name => !known.includes(name)))];
+};
+
+export const renderPrompt = <K extends PromptTemplateId>(id: K, vars: Record<TemplateVars<K>, string>): RenderedPrompt => {
+  const template = getPromptTemplate(id);
+  const values = vars as Record<string, string>;
+  const text = template.body.replace(PLACEHOLDER, (match, name: string) => name in values ? values[name] : match);
+  return { text, ref: { templateId: id, version: template.version } };
+};
+
+// --- OVERRIDES ---
+export const savePromptOverride = (id: PromptTemplateId, body: string) => {
+  const unknown = findUnknownVariables(id, body);
+  if (unknown.length) throw new Error(`Unknown variable${unknown.length > 1 ? 's' : ''}: ${unknown.map(v => `{{${v}}}`).join(', ')}`);
+  const overrides = readOverrides();
+  const builtin = BUILTIN_TEMPLATES[id];
+  if (body === builtin.body) {
+    delete overrides[id];
+  } else {
+    overrides[id] = {
+      body,
+      revision: (overrides[id]?.revision ?? 0) + 1,
+      basedOn: builtin.version,
+      updatedAt: Date.now()
+    };
+  }
+  writeOverrides(overrides);
+};
+
+export const resetPromptOverride = (id: PromptTemplateId) => {
+  const overrides = readOverrides();
+  delete overrides[id];
+  writeOverrides(overrides);
+};
+
+// --- IMPORT / EXPORT ---
+export const exportPromptTemplates = (): string => JSON.stringify({
+  format: EXPORT_FORMAT,
+  exportedAt: new Date().toISOString(),
+  templates: readOverrides()
+}, null, 2);
+
+// Shape of an export file; revision / basedOn are advisory and read leniently.
+interface ExportedTemplate {
+  body: string;
+  revision?: unknown;
+  basedOn?: unknown;
+}
+
+interface TemplateExport {
+  format: typeof EXPORT_FORMAT;
+  templates: Record<string, unknown>;
+}
+
+const isTemplateExport = (data: unknown): data is TemplateExport => {
+  if (typeof data !== 'object' || data === null) return false;
+  const { format, templates } = data as { format?: unknown; templates?: unknown };
+  return format === EXPORT_FORMAT && typeof templates === 'object' && templates !== null && !Array.isArray(templates);
+};
+
+const isExportedTemplate = (entry: unknown): entry is ExportedTemplate =>
+  typeof entry === 'object' && entry !== null && typeof (entry as { body?: unknown }).body === 'string';
+
+// Merges the overrides from an exported file. Returns the ids imported;
+// throws with a readable message if the file isn't a valid export.
+export const importPromptTemplates = (json: string): PromptTemplateId[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isTemplateExport(data)) {
+    throw new Error('This is not a prompt template export.');
+  }
+
+  const overrides = readOverrides();
+  const imported: PromptTemplateId[] = [];
+  for (const [id, entry] of Object.entries(data.templates)) {
+    if (!isTemplateId(id)) throw new Error(`Unknown template "${id}".`);
+    if (!isExportedTemplate(entry)) throw new Error(`Template "${id}" has no body.`);
+    const unknown = findUnknownVariables(id, entry.body);
+    if (unknown.length) throw new Error(`Template "${id}" uses unknown variables: ${unknown.join(', ')}.`);
+    overrides[id] = {
+      body: entry.body,
+      revision: Math.max((overrides[id]?.revision ?? 0) + 1, Number(entry.revision) || 1),
+      basedOn: Number(entry.basedOn) || BUILTIN_TEMPLATES[id].version,
+      updatedAt: Date.now()
+    };
+    imported.push(id);
+  }
+  writeOverrides(overrides);
+  return imported;
+};
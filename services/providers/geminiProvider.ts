@@ -0,0 +1,361 @@
+import { ApiError, FinishReason, GenerateContentResponse, GenerateVideosOperation, GoogleGenAI } from "@google/genai";
+import { sleep, throwIfAborted } from '../abort.ts';
+import {
+  AuthError,
+  CancelledError,
+  EmptyResponseError,
+  NetworkError,
+  QuotaError,
+  RateLimitError,
+  SafetyBlockedError,
+  ServiceError,
+  toGenerationError
+} from '../errors.ts';
+import {
+  GenerationBackend,
+  GenerationStage,
+  ImageGenerationRequest,
+  ImageProvider,
+  ImageResult,
+  VideoGenerationRequest,
+  VideoProvider
+} from './types.ts';
+
+const PRO_IMAGE_MODEL = 'gemini-3-pro-image-preview';
+const VEO_MODEL = 'veo-3.1-fast-generate-preview';
+
+// Finish reasons that mean the output was withheld by a safety/policy filter.
+const SAFETY_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT
+]);
+
+// Helper to get the best available API Key
+const getEffectiveApiKey = (): string => {
+  if (typeof window !== 'undefined') {
+    const stored = localStorage.getItem('USER_GEMINI_API_KEY');
+    if (stored && stored.length > 5) return stored;
+  }
+  return process.env.API_KEY as string;
+};
+
+// --- NEW: VALIDATION FUNCTION ---
+export const validateApiKey = async (apiKey: string): Promise<boolean> => {
+  if (!apiKey) return false;
+  try {
+    const ai = new GoogleGenAI({ apiKey });
+    // Perform a lightweight "ping" to check if the key is valid.
+    // Using 'gemini-3-flash-preview' ensures the key works with the newer model series
+    // required by the app.
+    await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: { parts: [{ text: 'Ping' }] },
+    });
+    return true;
+  } catch (error) {
+    console.error("API Key Validation Failed:", error);
+    return false;
+  }
+};
+
+// Google APIs put a JSON `{ error: { status, details } }` body into the ApiError message.
+interface GoogleErrorBody {
+  status?: string;
+  message?: string;
+  details?: Array<{ '@type'?: string; reason?: string; retryDelay?: string; violations?: Array<{ quotaValue?: string }> }>;
+}
+
+const parseErrorBody = (message: string): GoogleErrorBody | null => {
+  const start = message.indexOf('{');
+  if (start === -1) return null;
+  try {
+    const parsed = JSON.parse(message.slice(start));
+    return parsed.error || parsed;
+  } catch {
+    return null;
+  }
+};
+
+// "23s" / "1.5s" (google.rpc.RetryInfo) -> milliseconds
+const parseRetryDelay = (delay?: string): number | undefined => {
+  const match = delay?.match(/^([\d.]+)s$/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+// Maps SDK/HTTP failures onto the service error taxonomy using the status code
+// and the structured error details, never the free-text message alone.
+const classifyError = (error: unknown) => {
+  if (!(error instanceof ApiError)) return toGenerationError(error);
+
+  const body = parseErrorBody(error.message);
+  const details = body?.details || [];
+  const reasons = details.map(d => d.reason).filter(Boolean);
+  const serverMessage = body?.message || error.message;
+
+  if (reasons.includes('API_KEY_INVALID') || error.status === 401) {
+    return new AuthError('invalid', serverMessage, error);
+  }
+  if (error.status === 403) {
+    return new AuthError('permission', serverMessage, error);
+  }
+  if (error.status === 429) {
+    const zeroQuota = details.some(d => d.violations?.some(v => v.quotaValue === '0'))
+      || /limit: 0\b/.test(serverMessage);
+    if (zeroQuota) return new QuotaError(serverMessage, error);
+    const retryInfo = details.find(d => d['@type']?.endsWith('google.rpc.RetryInfo'));
+    return new RateLimitError(serverMessage, parseRetryDelay(retryInfo?.retryDelay), error);
+  }
+  return new ServiceError(serverMessage, error.status, error);
+};
+
+// A finished operation reports a gRPC status code (google.rpc.Code), not an HTTP
+// one; mapped to the HTTP status Google's APIs use for it so classifyError treats
+// both alike. Unlisted codes are client-side or unknown failures: 400.
+const GRPC_TO_HTTP: Record<number, number> = {
+  1: 499,  // CANCELLED
+  2: 500,  // UNKNOWN
+  4: 504,  // DEADLINE_EXCEEDED
+  5: 404,  // NOT_FOUND
+  7: 403,  // PERMISSION_DENIED
+  8: 429,  // RESOURCE_EXHAUSTED
+  12: 501, // UNIMPLEMENTED
+  13: 500, // INTERNAL
+  14: 503, // UNAVAILABLE
+  16: 401  // UNAUTHENTICATED
+};
+
+const classifyOperationError = (code: number | undefined, message: string | undefined) =>
+  classifyError(new ApiError({
+    message: message || 'Video generation failed.',
+    status: code === undefined ? 500 : GRPC_TO_HTTP[code] ?? 400
+  }));
+
+// One attempt against the API with the effective key. Failures come back
+// classified; retrying is the job queue's responsibility.
+async function callGemini<T>(fn: (ai: GoogleGenAI) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  throwIfAborted(signal);
+  try {
+    // Create new instance with effective key (BYOK or Env)
+    const apiKey = getEffectiveApiKey();
+    if (!apiKey) throw new AuthError('missing', 'No Gemini API key configured.');
+
+    const ai = new GoogleGenAI({ apiKey });
+    return await fn(ai);
+  } catch (error: unknown) {
+    // However the SDK/fetch reported the abort, the caller asked for it
+    if (signal?.aborted) throw new CancelledError();
+    throw classifyError(error);
+  }
+}
+
+// Throws when the model withheld its output; returns the first inline image otherwise.
+const extractImage = (response: GenerateContentResponse, stage: GenerationStage): ImageResult => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    const categories = (response.promptFeedback?.safetyRatings || [])
+      .filter(r => r.blocked)
+      .map(r => String(r.category));
+    throw new SafetyBlockedError(
+      response.promptFeedback?.blockReasonMessage || 'The prompt was blocked by the safety filter.',
+      blockReason,
+      categories
+    );
+  }
+
+  const candidate = response.candidates?.[0];
+  for (const part of candidate?.content?.parts || []) {
+    if (part.inlineData) {
+      const usage = response.usageMetadata;
+      return {
+        image: `data:image/png;base64,${part.inlineData.data}`,
+        usage: usage && {
+          promptTokens: usage.promptTokenCount,
+          outputTokens: usage.candidatesTokenCount,
+          totalTokens: usage.totalTokenCount
+        }
+      };
+    }
+  }
+
+  const finishReason = candidate?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) {
+    const categories = (candidate?.safetyRatings || [])
+      .filter(r => r.blocked)
+      .map(r => String(r.category));
+    throw new SafetyBlockedError(
+      candidate?.finishMessage || 'The image was withheld by the safety filter.',
+      finishReason,
+      categories
+    );
+  }
+  throw new EmptyResponseError(`The model returned no image for the ${stage} step.`, stage);
+};
+
+const toInlinePart = (dataUrl: string) => ({
+  inlineData: { data: dataUrl.split(',')[1], mimeType: 'image/png' }
+});
+
+const geminiImageProvider: ImageProvider = {
+  modelName: PRO_IMAGE_MODEL,
+  limits: { concurrency: 2, requestsPerMinute: 10 },
+
+  generateImage: (request: ImageGenerationRequest, signal?: AbortSignal) => callGemini(async (ai) => {
+    const response = await ai.models.generateContent({
+      model: PRO_IMAGE_MODEL,
+      contents: {
+        parts: [
+          ...request.images.map(toInlinePart),
+          { text: request.prompt }
+        ]
+      },
+      config: {
+        imageConfig: { aspectRatio: request.aspectRatio, imageSize: request.imageSize },
+        abortSignal: signal
+      }
+    });
+    return extractImage(response, request.stage);
+  }, signal)
+};
+
+// Status polls that fail transiently (429, 5xx, dropped connection) are retried
+// here by operation name. The job queue must never retry them: that would
+// submit the render again and bill it twice.
+const POLL_RETRY = {
+  maxFailures: 5,
+  baseDelayMs: 5000,
+  maxDelayMs: 60000
+};
+
+const pollOperation = async (ai: GoogleGenAI, operation: GenerateVideosOperation, signal?: AbortSignal) => {
+  for (let failures = 0; ; failures++) {
+    try {
+      return await ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+    } catch (error) {
+      if (signal?.aborted) throw new CancelledError();
+      const classified = classifyError(error);
+      if (!classified.retryable || failures + 1 >= POLL_RETRY.maxFailures) throw classified;
+      const hint = classified instanceof RateLimitError ? classified.retryAfterMs ?? 0 : 0;
+      await sleep(Math.max(hint, Math.min(POLL_RETRY.maxDelayMs, POLL_RETRY.baseDelayMs * 2 ** failures)), signal);
+    }
+  }
+};
+
+// Polls a Veo operation until it finishes and downloads the clip. Shared by new
+// renders and renders resumed after a reload.
+const awaitVideoOperation = async (
+  ai: GoogleGenAI,
+  started: GenerateVideosOperation,
+  durationSeconds: number,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+) => {
+  let operation = started;
+  let progress = 0;
+
+  // Simulation of progress since API does not return %
+  const progressInterval = setInterval(() => {
+      if (progress < 90) {
+          progress += Math.floor(Math.random() * 5) + 2;
+          if (progress > 90) progress = 90;
+          if (onProgress) onProgress(progress);
+      }
+  }, 1000);
+
+  // Aborting only stops our polling; Veo keeps rendering (and billing) server-side.
+  try {
+      while (!operation.done) {
+        await sleep(5000, signal);
+        operation = await pollOperation(ai, operation, signal);
+      }
+  } finally {
+      clearInterval(progressInterval);
+  }
+
+  if (operation.error) {
+    const { code, message } = operation.error as { code?: number; message?: string };
+    throw classifyOperationError(code, message);
+  }
+
+  const result = operation.response;
+  const downloadLink = result?.generatedVideos?.[0]?.video?.uri;
+  if (!downloadLink) {
+    if (result?.raiMediaFilteredCount) {
+      throw new SafetyBlockedError('The video was withheld by the safety filter.', 'RAI_MEDIA_FILTERED', result.raiMediaFilteredReasons || []);
+    }
+    throw new EmptyResponseError('The video model returned no clip.', 'video');
+  }
+
+  // Explicitly use effective API key for the download fetch as well
+  const apiKey = getEffectiveApiKey();
+  const response = await fetch(`${downloadLink}&key=${apiKey}`, { signal });
+  if (!response.ok) {
+    if (response.status === 401 || response.status === 403) {
+      throw new AuthError('permission', `Video download was refused (HTTP ${response.status}).`);
+    }
+    if (response.status === 404 || response.status === 410) {
+      throw new EmptyResponseError(`The rendered clip is no longer available for download (HTTP ${response.status}).`, 'video');
+    }
+    throw new NetworkError(`Video download failed (HTTP ${response.status}).`, response.status);
+  }
+
+  const blob = await response.blob();
+  if (blob.size === 0) throw new EmptyResponseError('The downloaded video was empty.', 'video');
+  if (onProgress) onProgress(100);
+  return { url: URL.createObjectURL(blob), durationSeconds };
+};
+
+const veoVideoProvider: VideoProvider = {
+  modelName: VEO_MODEL,
+  limits: { concurrency: 2, requestsPerMinute: 4 },
+
+  generateVideo: (
+    request: VideoGenerationRequest,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal,
+    onStarted?: (operationName: string) => void
+  ) => callGemini(async (ai) => {
+    if (onProgress) onProgress(5); // Start
+
+    const operation = await ai.models.generateVideos({
+      model: VEO_MODEL,
+      prompt: request.prompt,
+      image: { imageBytes: request.image.split(',')[1], mimeType: 'image/png' },
+      config: {
+        numberOfVideos: 1,
+        resolution: request.resolution,
+        aspectRatio: request.aspectRatio,
+        durationSeconds: request.durationSeconds,
+        abortSignal: signal
+      }
+    });
+    // Billed from here on; without a name there is nothing to poll
+    if (!operation.name) throw new ServiceError('Veo accepted the render but returned no operation to poll.');
+    onStarted?.(operation.name);
+
+    return awaitVideoOperation(ai, operation, request.durationSeconds, onProgress, signal);
+  }, signal),
+
+  resumeVideo: (
+    operationName: string,
+    durationSeconds: number,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ) => callGemini(async (ai) => {
+    if (onProgress) onProgress(5);
+    const operation = new GenerateVideosOperation();
+    operation.name = operationName;
+    return awaitVideoOperation(ai, operation, durationSeconds, onProgress, signal);
+  }, signal)
+};
+
+export const geminiBackend: GenerationBackend = {
+  id: 'gemini',
+  label: 'Gemini 3 Pro / Veo 3.1',
+  requiresApiKey: true,
+  image: geminiImageProvider,
+  video: veoVideoProvider
+};
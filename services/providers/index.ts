@@ -0,0 +1,50 @@
+import { BackendId, GenerationBackend } from './types.ts';
+import { geminiBackend } from './geminiProvider.ts';
+import { mockBackend } from './mockProvider.ts';
+
+export * from './types.ts';
+export { validateApiKey } from './geminiProvider.ts';
+
+const BACKENDS: Record<BackendId, GenerationBackend> = {
+  gemini: geminiBackend,
+  mock: mockBackend
+};
+
+const BACKEND_STORAGE_KEY = 'GENERATION_BACKEND';
+
+const isBackendId = (value: string | null | undefined): value is BackendId =>
+  !!value && Object.hasOwn(BACKENDS, value);
+
+// Startup selection, first match wins:
+// 1. `?backend=mock` in the URL (also remembered for later reloads)
+// 2. the choice remembered in localStorage
+// 3. GENERATION_BACKEND from the .env file
+// 4. Gemini
+const resolveBackendId = (): BackendId => {
+  if (typeof window !== 'undefined') {
+    const fromUrl = new URLSearchParams(window.location.search).get('backend');
+    if (isBackendId(fromUrl)) {
+      localStorage.setItem(BACKEND_STORAGE_KEY, fromUrl);
+      return fromUrl;
+    }
+    const stored = localStorage.getItem(BACKEND_STORAGE_KEY);
+    if (isBackendId(stored)) return stored;
+  }
+  const fromEnv = process.env.GENERATION_BACKEND;
+  return isBackendId(fromEnv) ? fromEnv : 'gemini';
+};
+
+// Resolved once: switching backends mid-session would mix real and mock assets.
+const activeBackend: GenerationBackend = BACKENDS[resolveBackendId()];
+
+export const getBackend = (): GenerationBackend => activeBackend;
+
+export const listBackends = (): GenerationBackend[] => Object.values(BACKENDS);
+
+// Persists the choice and reloads so it applies from a clean start.
+export const switchBackend = (id: BackendId) => {
+  localStorage.setItem(BACKEND_STORAGE_KEY, id);
+  const url = new URL(window.location.href);
+  url.searchParams.delete('backend');
+  window.location.replace(url.toString());
+};
@@ -0,0 +1,42 @@
+import { GenerationStage, ImageSize, ModelLimits } from './types.ts';
+
+// --- OFFLINE MOCK FIXTURES ---
+// Static description of what the mock backend draws for each stage. Keeping it
+// as data means a screen can be tweaked (labels, colours, timings) without
+// touching the renderer.
+
+export interface StageFixture {
+  label: string;
+  accent: string; // overlay tint, CSS colour
+}
+
+export const STAGE_FIXTURES: Record<GenerationStage, StageFixture> = {
+  tryOn: { label: 'TRY-ON', accent: '#2563eb' },
+  branding: { label: 'BRANDING', accent: '#9333ea' },
+  grid: { label: 'STORYBOARD', accent: '#10b981' },
+  upscale: { label: 'UPSCALE', accent: '#f59e0b' },
+  repair: { label: 'REPAIR', accent: '#ef4444' },
+  edit: { label: 'EDIT', accent: '#ec4899' },
+  regenerate: { label: 'REGENERATE', accent: '#14b8a6' }
+};
+
+// Long edge in pixels for each requested size. Deliberately small so the mock
+// stays fast; only the aspect ratio has to be faithful.
+export const MOCK_LONG_EDGE: Record<ImageSize, number> = {
+  '1K': 1024,
+  '2K': 1536,
+  '4K': 2048
+};
+
+export const MOCK_GRID = { cols: 3, rows: 3, divider: 6 };
+
+// Simulated latency so loading states stay visible while clicking through.
+export const MOCK_IMAGE_LATENCY_MS = 800;
+export const MOCK_VIDEO_DURATION_MS = 4000;
+export const MOCK_VIDEO_FPS = 30;
+
+// Roomy but finite, so queueing is still visible when clicking around offline.
+export const MOCK_LIMITS: Record<'image' | 'video', ModelLimits> = {
+  image: { concurrency: 3, requestsPerMinute: 120 },
+  video: { concurrency: 2, requestsPerMinute: 30 }
+};
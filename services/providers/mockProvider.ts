@@ -0,0 +1,225 @@
+import {
+  GenerationBackend,
+  ImageGenerationRequest,
+  ImageProvider,
+  VideoGenerationRequest,
+  VideoProvider
+} from './types.ts';
+import { sleep, throwIfAborted } from '../abort.ts';
+import { CancelledError, GenerationError } from '../errors.ts';
+import {
+  MOCK_GRID,
+  MOCK_IMAGE_LATENCY_MS,
+  MOCK_LIMITS,
+  MOCK_LONG_EDGE,
+  MOCK_VIDEO_DURATION_MS,
+  MOCK_VIDEO_FPS,
+  STAGE_FIXTURES
+} from './mockFixtures.ts';
+
+// --- OFFLINE MOCK BACKEND ---
+// Renders deterministic placeholders on a canvas from the request inputs, so the
+// whole UPLOAD -> RESULTS flow can be clicked through without a key or quota.
+// Same request in, same pixels out.
+
+// FNV-1a, enough to derive a stable tag/variation from the prompt text.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const dimensionsFor = (aspectRatio: string, longEdge: number) => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (!w || !h) return { width: longEdge, height: longEdge };
+  return w >= h
+    ? { width: longEdge, height: Math.round(longEdge * h / w) }
+    : { width: Math.round(longEdge * w / h), height: longEdge };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new GenerationError('SERVICE', "Mock backend could not load an input image."));
+    img.src = src;
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Failed to create canvas context");
+  return { canvas, ctx };
+};
+
+// Draws `img` so it fills the target box, cropping the overflow (CSS object-fit: cover).
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  x: number, y: number, w: number, h: number,
+  zoom = 1
+) => {
+  const scale = Math.max(w / img.width, h / img.height) * zoom;
+  const sw = w / scale;
+  const sh = h / scale;
+  const sx = (img.width - sw) / 2;
+  const sy = (img.height - sh) / 2;
+  ctx.drawImage(img, sx, sy, sw, sh, x, y, w, h);
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, size: number, accent: string) => {
+  ctx.font = `800 ${size}px 'Plus Jakarta Sans', sans-serif`;
+  const padding = size * 0.5;
+  const width = ctx.measureText(text).width + padding * 2;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+  ctx.fillRect(x, y, width, size + padding * 2);
+  ctx.fillStyle = accent;
+  ctx.fillRect(x, y, size * 0.25, size + padding * 2);
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'top';
+  ctx.fillText(text, x + padding, y + padding);
+};
+
+const renderMockImage = async (request: ImageGenerationRequest): Promise<string> => {
+  const fixture = STAGE_FIXTURES[request.stage];
+  const { width, height } = dimensionsFor(request.aspectRatio, MOCK_LONG_EDGE[request.imageSize]);
+  const { canvas, ctx } = createCanvas(width, height);
+  const tag = hashString(`${request.stage}|${request.prompt}`);
+  const sources = await Promise.all(request.images.map(loadImage));
+
+  ctx.fillStyle = '#0c0c0e';
+  ctx.fillRect(0, 0, width, height);
+
+  if (request.stage === 'grid') {
+    const { cols, rows } = request.grid ?? MOCK_GRID;
+    const { divider } = MOCK_GRID;
+    const cellW = (width - divider * (cols + 1)) / cols;
+    const cellH = (height - divider * (rows + 1)) / rows;
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+    for (let i = 0; i < cols * rows; i++) {
+      const x = divider + (i % cols) * (cellW + divider);
+      const y = divider + Math.floor(i / cols) * (cellH + divider);
+      // Zoom varies per cell so every shot looks distinct once sliced.
+      if (sources[0]) drawCover(ctx, sources[0], x, y, cellW, cellH, 1 + ((tag >> i) % 5) * 0.15);
+      drawLabel(ctx, `SHOT ${i + 1}`, x + 8, y + 8, Math.max(10, cellW * 0.06), fixture.accent);
+    }
+  } else {
+    // Try-on shows the person as the base with the product inset; every other
+    // stage treats the last image as the one being transformed.
+    const base = request.stage === 'tryOn' ? sources[0] : sources[sources.length - 1];
+    if (base) drawCover(ctx, base, 0, 0, width, height);
+    if (request.stage === 'tryOn' && sources[1]) {
+      const inset = width * 0.35;
+      ctx.fillStyle = fixture.accent;
+      ctx.fillRect(width - inset - 28, height - inset - 28, inset + 8, inset + 8);
+      drawCover(ctx, sources[1], width - inset - 24, height - inset - 24, inset, inset);
+    }
+    ctx.globalAlpha = 0.18;
+    ctx.fillStyle = fixture.accent;
+    ctx.fillRect(0, 0, width, height);
+    ctx.globalAlpha = 1;
+  }
+
+  const labelSize = Math.round(width * 0.035);
+  drawLabel(ctx, `MOCK · ${fixture.label} · ${request.imageSize}`, labelSize, height - labelSize * 3, labelSize, fixture.accent);
+  drawLabel(ctx, `#${tag.toString(16).padStart(8, '0')}`, labelSize, labelSize, labelSize * 0.8, fixture.accent);
+
+  return canvas.toDataURL('image/png');
+};
+
+const pickRecorderMimeType = (): string => {
+  const candidates = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) || '';
+};
+
+// Records a slow push-in on the first frame, standing in for a Veo clip.
+const renderMockVideo = async (
+  request: VideoGenerationRequest,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  if (typeof MediaRecorder === 'undefined') {
+    throw new GenerationError('SERVICE', "This browser cannot record the mock video (MediaRecorder unavailable).");
+  }
+
+  const longEdge = request.resolution === '1080p' ? 1080 : 720;
+  const { width, height } = dimensionsFor(request.aspectRatio, longEdge);
+  const { canvas, ctx } = createCanvas(width, height);
+  const source = await loadImage(request.image);
+  const label = `MOCK · MOTION · #${hashString(request.prompt).toString(16).padStart(8, '0')}`;
+
+  const stream = canvas.captureStream(MOCK_VIDEO_FPS);
+  const mimeType = pickRecorderMimeType();
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const finished = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+  const totalFrames = Math.round(MOCK_VIDEO_DURATION_MS / 1000 * MOCK_VIDEO_FPS);
+  let frame = 0;
+
+  if (onProgress) onProgress(5);
+  recorder.start();
+  const completed = await new Promise<boolean>(resolve => {
+    const timer = setInterval(() => {
+      if (signal?.aborted) {
+        clearInterval(timer);
+        resolve(false);
+        return;
+      }
+      const t = frame / totalFrames;
+      drawCover(ctx, source, 0, 0, width, height, 1 + t * 0.12);
+      drawLabel(ctx, label, 16, height - 48, 16, STAGE_FIXTURES.regenerate.accent);
+      frame++;
+      if (onProgress) onProgress(Math.min(95, Math.round(t * 100)));
+      if (frame > totalFrames) {
+        clearInterval(timer);
+        resolve(true);
+      }
+    }, 1000 / MOCK_VIDEO_FPS);
+  });
+  recorder.stop();
+  await finished;
+  stream.getTracks().forEach(track => track.stop());
+  if (!completed) throw new CancelledError();
+
+  if (onProgress) onProgress(100);
+  return URL.createObjectURL(new Blob(chunks, { type: mimeType || 'video/webm' }));
+};
+
+const mockImageProvider: ImageProvider = {
+  modelName: 'mock-image',
+  limits: MOCK_LIMITS.image,
+
+  generateImage: async (request: ImageGenerationRequest, signal?: AbortSignal) => {
+    await sleep(MOCK_IMAGE_LATENCY_MS, signal);
+    const image = await renderMockImage(request);
+    throwIfAborted(signal);
+    return { image };
+  }
+};
+
+const mockVideoProvider: VideoProvider = {
+  modelName: 'mock-video',
+  limits: MOCK_LIMITS.video,
+
+  generateVideo: async (request: VideoGenerationRequest, onProgress?: (progress: number) => void, signal?: AbortSignal) => ({
+    url: await renderMockVideo(request, onProgress, signal),
+    durationSeconds: MOCK_VIDEO_DURATION_MS / 1000
+  })
+};
+
+export const mockBackend: GenerationBackend = {
+  id: 'mock',
+  label: 'Offline Mock',
+  requiresApiKey: false,
+  image: mockImageProvider,
+  video: mockVideoProvider
+};
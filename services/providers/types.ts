@@ -0,0 +1,97 @@
+// --- GENERATION PROVIDER CONTRACT ---
+// Every backend (Gemini/Veo, offline mock, ...) implements these interfaces.
+// Prompt construction stays in geminiService.ts; providers only turn a finished
+// request into pixels.
+
+export type BackendId = 'gemini' | 'mock';
+
+// Which step of the pipeline a request belongs to. Providers may use it to
+// shape their output (the mock draws a grid for 'grid', for example).
+export type GenerationStage =
+  | 'tryOn'
+  | 'branding'
+  | 'grid'
+  | 'upscale'
+  | 'repair'
+  | 'edit'
+  | 'regenerate';
+
+export type ImageSize = '1K' | '2K' | '4K';
+
+export interface ImageGenerationRequest {
+  stage: GenerationStage;
+  images: string[]; // data URLs, in the order the prompt refers to them
+  prompt: string;
+  aspectRatio: string;
+  imageSize: ImageSize;
+  grid?: { cols: number; rows: number }; // storyboard layout, for backends that draw the grid themselves
+}
+
+export interface VideoGenerationRequest {
+  image: string; // data URL of the first frame
+  prompt: string;
+  aspectRatio: string;
+  resolution: '720p' | '1080p';
+  durationSeconds: number;
+}
+
+// Token accounting as reported by the backend (absent when it reports none).
+export interface TokenUsage {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+export interface ImageResult {
+  image: string; // data URL
+  usage?: TokenUsage;
+}
+
+export interface VideoResult {
+  url: string; // playable URL
+  durationSeconds: number;
+}
+
+// Client-side throttle the job queue applies per model. Set below the account's
+// real limits so we queue locally instead of collecting 429s.
+export interface ModelLimits {
+  concurrency: number;
+  requestsPerMinute: number;
+}
+
+export interface ImageProvider {
+  readonly modelName: string;
+  readonly limits: ModelLimits;
+  // Rejects with CancelledError once `signal` aborts.
+  generateImage(request: ImageGenerationRequest, signal?: AbortSignal): Promise<ImageResult>;
+}
+
+export interface VideoProvider {
+  readonly modelName: string;
+  readonly limits: ModelLimits;
+  // Rejects with CancelledError once `signal` aborts. `onStarted` receives the
+  // server-side operation name as soon as the render is accepted; failures after
+  // that must not be retried by re-running generateVideo.
+  generateVideo(
+    request: VideoGenerationRequest,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal,
+    onStarted?: (operationName: string) => void
+  ): Promise<VideoResult>;
+  // Picks up a render started in an earlier session. Absent on backends whose
+  // renders don't outlive the page (the mock).
+  resumeVideo?(
+    operationName: string,
+    durationSeconds: number,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<VideoResult>;
+}
+
+export interface GenerationBackend {
+  id: BackendId;
+  label: string;
+  requiresApiKey: boolean;
+  image: ImageProvider;
+  video: VideoProvider;
+}
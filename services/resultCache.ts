@@ -0,0 +1,178 @@
+import { dbClear, dbDelete, dbGet, dbGetAll, dbPut } from './db.ts';
+import { BackendId, ImageGenerationRequest, VideoGenerationRequest } from './providers/types.ts';
+
+// --- CONTENT-ADDRESSED RESULT CACHE ---
+// Successful generations are stored in IndexedDB under a SHA-256 of everything
+// that determines the output: backend, model, prompt, input image bytes and
+// config. Navigating back and re-running an identical request is then served
+// locally instead of being billed again. Payloads and their metadata live in
+// separate stores so eviction can scan sizes without loading every image.
+
+export interface CacheSettings {
+  enabled: boolean;
+  maxBytes: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+interface CacheMeta {
+  key: string;
+  kind: 'image' | 'video';
+  model: string;
+  bytes: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+interface CachePayload {
+  key: string;
+  image?: string;
+  video?: Blob;
+}
+
+const SETTINGS_KEY = 'RESULT_CACHE_SETTINGS';
+const DEFAULT_SETTINGS: CacheSettings = { enabled: true, maxBytes: 250 * 1024 * 1024 };
+
+export const CACHE_SIZE_OPTIONS = [100, 250, 500, 1000].map(mb => mb * 1024 * 1024);
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeCache = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getCacheSettings = (): CacheSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = (settings: CacheSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  notify();
+  // A smaller limit applies right away
+  void evictToFit();
+};
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// `variant` separates deliberately parallel identical calls (e.g. the three
+// refinement candidates) so they don't all resolve to the same cached image.
+export const imageCacheKey = (backend: BackendId, model: string, request: ImageGenerationRequest, variant = 0) =>
+  sha256(JSON.stringify({
+    kind: 'image',
+    backend,
+    model,
+    stage: request.stage,
+    prompt: request.prompt,
+    aspectRatio: request.aspectRatio,
+    imageSize: request.imageSize,
+    variant,
+    images: request.images
+  }));
+
+export const videoCacheKey = (backend: BackendId, model: string, request: VideoGenerationRequest, variant = 0) =>
+  sha256(JSON.stringify({
+    kind: 'video',
+    backend,
+    model,
+    prompt: request.prompt,
+    aspectRatio: request.aspectRatio,
+    resolution: request.resolution,
+    durationSeconds: request.durationSeconds,
+    variant,
+    image: request.image
+  }));
+
+// Cache failures never fail a generation: IndexedDB may be unavailable or full.
+const quietly = async <T>(fn: () => Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await fn();
+  } catch (e) {
+    console.warn('Result cache unavailable:', e);
+    return fallback;
+  }
+};
+
+const touch = (meta: CacheMeta) => dbPut('resultIndex', { ...meta, lastUsedAt: Date.now() });
+
+const readPayload = async (key: string): Promise<CachePayload | undefined> => {
+  if (!getCacheSettings().enabled) return undefined;
+  const meta = await dbGet<CacheMeta>('resultIndex', key);
+  if (!meta) return undefined;
+  const payload = await dbGet<CachePayload>('results', key);
+  if (!payload) {
+    await dbDelete('resultIndex', key);
+    return undefined;
+  }
+  await touch(meta);
+  return payload;
+};
+
+const writePayload = async (meta: Omit<CacheMeta, 'createdAt' | 'lastUsedAt'>, payload: CachePayload) => {
+  const settings = getCacheSettings();
+  if (!settings.enabled || meta.bytes > settings.maxBytes) return;
+  const now = Date.now();
+  await dbPut('results', payload);
+  await dbPut('resultIndex', { ...meta, createdAt: now, lastUsedAt: now });
+  await evictToFit();
+  notify();
+};
+
+export const getCachedImage = (key: string): Promise<string | undefined> =>
+  quietly(async () => (await readPayload(key))?.image, undefined);
+
+export const putCachedImage = (key: string, model: string, image: string): Promise<void> =>
+  quietly(() => writePayload({ key, kind: 'image', model, bytes: image.length }, { key, image }), undefined);
+
+// Returns a fresh object URL for the stored clip.
+export const getCachedVideo = (key: string): Promise<string | undefined> =>
+  quietly(async () => {
+    const video = (await readPayload(key))?.video;
+    return video ? URL.createObjectURL(video) : undefined;
+  }, undefined);
+
+export const putCachedVideo = (key: string, model: string, url: string): Promise<void> =>
+  quietly(async () => {
+    const video = await (await fetch(url)).blob();
+    await writePayload({ key, kind: 'video', model, bytes: video.size }, { key, video });
+  }, undefined);
+
+// Drops least recently used entries until the cache fits its size limit.
+const evictToFit = () => quietly(async () => {
+  const { maxBytes } = getCacheSettings();
+  const entries = await dbGetAll<CacheMeta>('resultIndex');
+  let total = entries.reduce((sum, e) => sum + e.bytes, 0);
+  if (total <= maxBytes) return;
+  entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+  for (const entry of entries) {
+    if (total <= maxBytes) break;
+    await dbDelete('results', entry.key);
+    await dbDelete('resultIndex', entry.key);
+    total -= entry.bytes;
+  }
+  notify();
+}, undefined);
+
+export const getCacheStats = (): Promise<CacheStats> =>
+  quietly(async () => {
+    const entries = await dbGetAll<CacheMeta>('resultIndex');
+    return { entries: entries.length, bytes: entries.reduce((sum, e) => sum + e.bytes, 0) };
+  }, { entries: 0, bytes: 0 });
+
+export const clearResultCache = () => quietly(async () => {
+  await dbClear('results');
+  await dbClear('resultIndex');
+  notify();
+}, undefined);
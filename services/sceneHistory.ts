@@ -0,0 +1,47 @@
+import { SceneFrame, SceneOperation, SceneVersion } from '../types.ts';
+
+// --- SCENE VERSION HISTORY ---
+// Operations on a scene image add a version instead of overwriting it. Versions
+// form a tree: each remembers the version it was made from, so undo walks back
+// to the parent and an edit made after an undo starts a new branch without
+// losing the old one. Redo follows the newest child.
+
+export const SCENE_OPERATIONS: Record<SceneOperation, string> = {
+  extract: 'Sliced',
+  repair: 'Repair',
+  upscale: 'Upscale',
+  edit: 'Edit',
+  reference: 'Reference'
+};
+
+// Images are kept as data URLs in memory, so history per scene is bounded.
+export const MAX_SCENE_VERSIONS = 10;
+
+export type NewSceneVersion = Pick<SceneVersion, 'image' | 'operation' | 'prompt' | 'instruction'>;
+
+// Patch that makes `version` the scene's current image.
+export const addSceneVersion = (scene: SceneFrame, version: NewSceneVersion): Partial<SceneFrame> => {
+  const entry: SceneVersion = { ...version, id: crypto.randomUUID(), parentId: scene.versionId ?? null, createdAt: Date.now() };
+  const history = [...(scene.history ?? []), entry];
+  while (history.length > MAX_SCENE_VERSIONS) {
+    // Oldest first, but never the version the new one was made from
+    const drop = history.findIndex(v => v.id !== entry.parentId);
+    history.splice(drop, 1);
+  }
+  return { image: entry.image, imagePrompt: entry.prompt, history, versionId: entry.id };
+};
+
+export const pinSceneVersion = (scene: SceneFrame, id: string): Partial<SceneFrame> => {
+  const version = scene.history?.find(v => v.id === id);
+  return version ? { image: version.image, imagePrompt: version.prompt, versionId: version.id } : {};
+};
+
+const currentVersion = (scene: SceneFrame) => scene.history?.find(v => v.id === scene.versionId);
+
+export const undoTarget = (scene: SceneFrame): SceneVersion | undefined => {
+  const parentId = currentVersion(scene)?.parentId;
+  return parentId ? scene.history?.find(v => v.id === parentId) : undefined;
+};
+
+export const redoTarget = (scene: SceneFrame): SceneVersion | undefined =>
+  scene.history?.filter(v => v.parentId === scene.versionId && scene.versionId).pop();
@@ -0,0 +1,39 @@
+// --- BACKGROUND / ATMOSPHERE PRESETS ---
+// Quick picks for the style prompt on REFINE; catalog rows name one of these.
+export const BACKGROUND_PRESETS = [
+  "High-end Minimalist Studio",
+  "Urban City Bokeh",
+  "Luxury Interior",
+  "Soft Natural Light",
+  "Cyberpunk Neon",
+  "Abstract Gradient",
+  "Beige / Warm Tones",
+  "Nature / Outdoor Garden"
+];
+
+// --- BRANDING TEXT ---
+// Font and placement of the neon branding text; brand kits store one of each.
+export const FONT_OPTIONS = [
+  "Modern Sans",
+  "Elegant Serif",
+  "Bold Graffiti",
+  "Neon Script",
+  "Futuristic Mono",
+  "Vintage Typewriter",
+  "Handwritten Signature",
+  "3D Chrome",
+  "Gothic Bold",
+  "Minimalist Thin"
+];
+
+export const PLACEMENT_OPTIONS = [
+  "Behind Subject",
+  "Floating Above",
+  "Integrated Neon Sign",
+  "Overlay Bottom",
+  "Vertical Side",
+  "Floor Reflection",
+  "Halo Effect",
+  "Wrapped Around Subject",
+  "Magazine Header"
+];
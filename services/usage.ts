@@ -0,0 +1,180 @@
+import { BudgetExceededError } from './errors.ts';
+import { BackendId, GenerationStage, ImageSize, TokenUsage } from './providers/types.ts';
+import { ProjectRef } from '../types.ts';
+
+// --- USAGE LEDGER & BUDGETS ---
+// Every model call is appended to a local ledger (localStorage) with an estimated
+// cost from a user-editable price table. Budget caps are checked against the
+// ledger before a job is queued.
+
+export type UsageStage = GenerationStage | 'video';
+export type UsageStatus = 'success' | 'failure' | 'cancelled' | 'cached';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  projectId: string;
+  projectName: string;
+  backend: BackendId;
+  model: string;
+  stage: UsageStage;
+  imageSize?: ImageSize;
+  videoSeconds?: number;
+  status: UsageStatus;
+  errorCode?: string;
+  promptTemplate?: string; // template id@version the prompt was rendered from
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  estimatedCost: number; // USD
+}
+
+// Prices in USD, keyed by model name.
+export interface ModelPrice {
+  perImage?: Partial<Record<ImageSize, number>>;
+  inputPerMillionTokens?: number;
+  perVideoSecond?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface BudgetCaps {
+  projectCap: number | null; // USD per project, null = no cap
+  dailyCap: number | null;   // USD per calendar day, across projects
+}
+
+// Public list prices at the time of writing; editable in the usage panel.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-3-pro-image-preview': {
+    perImage: { '1K': 0.134, '2K': 0.134, '4K': 0.24 },
+    inputPerMillionTokens: 2
+  },
+  'veo-3.1-fast-generate-preview': {
+    perVideoSecond: 0.15
+  }
+};
+
+const LEDGER_KEY = 'USAGE_LEDGER';
+const PRICE_TABLE_KEY = 'USAGE_PRICE_TABLE';
+const BUDGET_KEY = 'USAGE_BUDGET_CAPS';
+const MAX_RECORDS = 5000;
+
+export const UNASSIGNED_PROJECT: ProjectRef = { id: 'unassigned', name: 'Unassigned' };
+
+const listeners = new Set<() => void>();
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  localStorage.setItem(key, JSON.stringify(value));
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// --- PRICES ---
+export const getPriceTable = (): PriceTable => readJson(PRICE_TABLE_KEY, DEFAULT_PRICE_TABLE);
+export const savePriceTable = (table: PriceTable) => writeJson(PRICE_TABLE_KEY, table);
+export const resetPriceTable = () => writeJson(PRICE_TABLE_KEY, DEFAULT_PRICE_TABLE);
+
+export const estimateCost = (entry: {
+  model: string;
+  imageSize?: ImageSize;
+  videoSeconds?: number;
+  promptTokens?: number;
+}): number => {
+  const price = getPriceTable()[entry.model];
+  if (!price) return 0;
+  let cost = 0;
+  if (entry.imageSize) cost += price.perImage?.[entry.imageSize] ?? 0;
+  if (entry.videoSeconds) cost += entry.videoSeconds * (price.perVideoSecond ?? 0);
+  if (entry.promptTokens) cost += entry.promptTokens / 1_000_000 * (price.inputPerMillionTokens ?? 0);
+  return cost;
+};
+
+// --- BUDGETS ---
+export const getBudgetCaps = (): BudgetCaps => readJson(BUDGET_KEY, { projectCap: null, dailyCap: null });
+export const saveBudgetCaps = (caps: BudgetCaps) => writeJson(BUDGET_KEY, caps);
+
+// --- LEDGER ---
+export const listUsage = (): UsageRecord[] => readJson<UsageRecord[]>(LEDGER_KEY, []);
+export const clearUsage = () => writeJson(LEDGER_KEY, []);
+
+export const recordUsage = (entry: Omit<UsageRecord, 'id' | 'timestamp' | 'estimatedCost'> & { tokens?: TokenUsage }) => {
+  const { tokens, ...rest } = entry;
+  const record: UsageRecord = {
+    ...rest,
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    promptTokens: tokens?.promptTokens,
+    outputTokens: tokens?.outputTokens,
+    totalTokens: tokens?.totalTokens,
+    // Failed image calls aren't billed. A cancelled Veo render keeps running
+    // server-side, so it is charged like a finished one.
+    estimatedCost: rest.status === 'success' || (rest.status === 'cancelled' && rest.videoSeconds)
+      ? estimateCost({ ...rest, promptTokens: tokens?.promptTokens })
+      : 0
+  };
+  const ledger = listUsage();
+  ledger.push(record);
+  writeJson(LEDGER_KEY, ledger.slice(-MAX_RECORDS));
+};
+
+const startOfToday = () => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+const sumCost = (records: UsageRecord[]) => records.reduce((sum, r) => sum + r.estimatedCost, 0);
+
+export const spentToday = (records = listUsage()) => {
+  const since = startOfToday();
+  return sumCost(records.filter(r => r.timestamp >= since));
+};
+
+export const spentOnProject = (projectId: string, records = listUsage()) =>
+  sumCost(records.filter(r => r.projectId === projectId));
+
+// Throws BudgetExceededError if running a job costing `upcomingCost` would cross a cap.
+export const assertWithinBudget = (projectId: string, upcomingCost: number) => {
+  if (upcomingCost <= 0) return;
+  const caps = getBudgetCaps();
+  const records = listUsage();
+  if (caps.dailyCap !== null) {
+    const spent = spentToday(records);
+    if (spent + upcomingCost > caps.dailyCap) throw new BudgetExceededError('daily', caps.dailyCap, spent);
+  }
+  if (caps.projectCap !== null) {
+    const spent = spentOnProject(projectId, records);
+    if (spent + upcomingCost > caps.projectCap) throw new BudgetExceededError('project', caps.projectCap, spent);
+  }
+};
+
+// --- EXPORT ---
+const CSV_COLUMNS: (keyof UsageRecord)[] = [
+  'timestamp', 'projectId', 'projectName', 'backend', 'model', 'stage', 'imageSize', 'videoSeconds',
+  'status', 'errorCode', 'promptTemplate', 'promptTokens', 'outputTokens', 'totalTokens', 'estimatedCost'
+];
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const usageToCsv = (records: UsageRecord[]): string => {
+  const rows = records.map(r => CSV_COLUMNS.map(col =>
+    csvCell(col === 'timestamp' ? new Date(r.timestamp).toISOString() : col === 'estimatedCost' ? r.estimatedCost.toFixed(4) : r[col])
+  ).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
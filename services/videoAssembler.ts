@@ -0,0 +1,281 @@
+import { throwIfAborted } from './abort.ts';
+import { DEFAULT_ASPECT_RATIO, getAspectRatio, SafeZone, TargetAspectRatio } from './aspectRatio.ts';
+import { AudioMix, AudioTrack, createAudioMix } from './audioMixer.ts';
+import { activeCue, CaptionCue, CaptionStyle, drawCaption, sceneCues } from './captions.ts';
+import { CancelledError, GenerationError } from './errors.ts';
+
+// --- AD ASSEMBLY ---
+// Stitches scene clips and still frames into one video entirely in the
+// browser: every item is drawn onto a canvas in real time and the canvas is
+// recorded with MediaRecorder. Nothing is uploaded. Recording runs at playback
+// speed, so a 60 second ad takes about 60 seconds to export. Sound (clip audio,
+// music, voiceover) is mixed by audioMixer.ts and recorded alongside; captions
+// from captions.ts are drawn over the frames when a style is given.
+
+export type TransitionKind = 'cut' | 'crossfade' | 'slide';
+
+// One entry of the user's edit, stored with the project. Sources are resolved
+// from the scene when exporting, so a regenerated clip is picked up as is.
+export interface TimelineClip {
+  id: string;
+  sceneId: number;
+  kind: 'video' | 'still';
+  stillSeconds: number;         // how long a still is held; ignored for video
+  transition: TransitionKind;   // into this clip from the previous one
+  volume: number;               // the clip's own sound, 0..1; ignored for stills
+  musicLevel: number;           // music ducking while on screen, see MUSIC_LEVELS
+}
+
+export interface AssemblySource {
+  kind: 'video' | 'still';
+  src: string;
+  stillSeconds: number;
+  transition: TransitionKind;
+  volume: number; // 0 for muted scenes
+  musicLevel: number;
+  caption?: string; // the scene's dialogue, timed over the item when burning captions
+}
+
+export interface AssemblySettings {
+  aspectRatio?: TargetAspectRatio;
+  tracks?: AudioTrack[];
+  captionStyle?: CaptionStyle | null; // burn captions in when set
+}
+
+// Position of an item on the output timeline: `start` overlaps the previous
+// item by the length of a non-cut transition.
+export interface TimelineSlot {
+  start: number;
+  duration: number;
+  overlap: number;
+}
+
+export interface AssembledVideo {
+  url: string;
+  blob: Blob;
+  mimeType: string;
+  extension: 'mp4' | 'webm';
+  durationSeconds: number;
+}
+
+export const TRANSITIONS: Record<TransitionKind, string> = {
+  cut: 'Cut',
+  crossfade: 'Crossfade',
+  slide: 'Slide'
+};
+
+export const TRANSITION_SECONDS = 0.6;
+export const DEFAULT_STILL_SECONDS = 2;
+const EXPORT_LONG_EDGE = 1280;
+const EXPORT_FPS = 30;
+
+interface BurnIn {
+  cues: CaptionCue[];
+  style: CaptionStyle;
+  safeZone: SafeZone;
+}
+
+interface ScheduledItem extends TimelineSlot {
+  source: AssemblySource;
+  element: HTMLVideoElement | HTMLImageElement;
+}
+
+export const exportSize = (aspectRatio: TargetAspectRatio) => {
+  const { width, height } = getAspectRatio(aspectRatio).cropSize;
+  const scale = EXPORT_LONG_EDGE / Math.max(width, height);
+  // Encoders want even dimensions
+  return { width: Math.round(width * scale / 2) * 2, height: Math.round(height * scale / 2) * 2 };
+};
+
+// MP4 where the browser can record it (recent Chrome / Safari), WebM elsewhere.
+const pickRecorderFormat = (): { mimeType: string; extension: 'mp4' | 'webm' } => {
+  const candidates: { mimeType: string; extension: 'mp4' | 'webm' }[] = [
+    { mimeType: 'video/mp4;codecs=avc1,mp4a.40.2', extension: 'mp4' },
+    { mimeType: 'video/mp4;codecs=avc1', extension: 'mp4' },
+    { mimeType: 'video/mp4', extension: 'mp4' },
+    { mimeType: 'video/webm;codecs=vp9,opus', extension: 'webm' },
+    { mimeType: 'video/webm;codecs=vp9', extension: 'webm' },
+    { mimeType: 'video/webm;codecs=vp8', extension: 'webm' },
+    { mimeType: 'video/webm', extension: 'webm' }
+  ];
+  const found = candidates.find(c => MediaRecorder.isTypeSupported(c.mimeType));
+  if (!found) throw new GenerationError('ASSEMBLY', "This browser cannot record video (no supported MediaRecorder format).");
+  return found;
+};
+
+const loadVideo = (src: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new GenerationError('ASSEMBLY', "A scene video could not be loaded for assembly."));
+    video.src = src;
+  });
+
+const loadStill = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new GenerationError('ASSEMBLY', "A scene image could not be loaded for assembly."));
+    img.src = src;
+  });
+
+const naturalSize = (element: HTMLVideoElement | HTMLImageElement) =>
+  element instanceof HTMLVideoElement
+    ? { width: element.videoWidth, height: element.videoHeight }
+    : { width: element.naturalWidth, height: element.naturalHeight };
+
+// Draws `element` to fill the frame, cropping whatever doesn't fit.
+const drawCover = (ctx: CanvasRenderingContext2D, element: HTMLVideoElement | HTMLImageElement, offsetX: number) => {
+  const { width, height } = ctx.canvas;
+  const source = naturalSize(element);
+  if (!source.width || !source.height) return;
+  const scale = Math.max(width / source.width, height / source.height);
+  const w = source.width * scale;
+  const h = source.height * scale;
+  ctx.drawImage(element, offsetX + (width - w) / 2, (height - h) / 2, w, h);
+};
+
+export const layoutTimeline = (entries: { duration: number; transition: TransitionKind }[]): TimelineSlot[] => {
+  const slots: TimelineSlot[] = [];
+  let end = 0;
+  entries.forEach(({ duration, transition }) => {
+    const previous = slots[slots.length - 1];
+    // A transition can't be longer than half of either clip
+    const overlap = previous && transition !== 'cut'
+      ? Math.min(TRANSITION_SECONDS, duration / 2, previous.duration / 2)
+      : 0;
+    const start = end - overlap;
+    slots.push({ start, duration, overlap });
+    end = start + duration;
+  });
+  return slots;
+};
+
+const schedule = async (sources: AssemblySource[]): Promise<ScheduledItem[]> => {
+  const elements: (HTMLVideoElement | HTMLImageElement)[] = [];
+  for (const source of sources) {
+    elements.push(source.kind === 'video' ? await loadVideo(source.src) : await loadStill(source.src));
+  }
+  const slots = layoutTimeline(sources.map((source, i) => {
+    const element = elements[i];
+    return { duration: element instanceof HTMLVideoElement ? element.duration : source.stillSeconds, transition: source.transition };
+  }));
+  return slots.map((slot, i) => ({ ...slot, source: sources[i], element: elements[i] }));
+};
+
+const drawFrame = (ctx: CanvasRenderingContext2D, items: ScheduledItem[], time: number, captions: BurnIn | null) => {
+  const { width, height } = ctx.canvas;
+  ctx.globalAlpha = 1;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  items
+    .filter(item => time >= item.start && time < item.start + item.duration)
+    .forEach(item => {
+      const progress = item.overlap ? Math.min(1, (time - item.start) / item.overlap) : 1;
+      ctx.globalAlpha = item.source.transition === 'crossfade' ? progress : 1;
+      const offsetX = item.source.transition === 'slide' ? (1 - progress) * width : 0;
+      drawCover(ctx, item.element, offsetX);
+    });
+  ctx.globalAlpha = 1;
+  const cue = captions && activeCue(captions.cues, time);
+  if (captions && cue) drawCaption(ctx, cue.text, captions.style, captions.safeZone);
+};
+
+// Starts each video when its slot begins and stops it when the slot ends.
+const syncPlayback = (items: ScheduledItem[], time: number) => {
+  items.forEach(item => {
+    if (!(item.element instanceof HTMLVideoElement)) return;
+    const active = time >= item.start && time < item.start + item.duration;
+    if (active && item.element.paused && !item.element.ended) {
+      item.element.currentTime = Math.max(0, time - item.start);
+      void item.element.play().catch(() => undefined);
+    } else if (!active && !item.element.paused) {
+      item.element.pause();
+    }
+  });
+};
+
+export const assembleVideo = async (
+  sources: AssemblySource[],
+  settings: AssemblySettings = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<AssembledVideo> => {
+  const { aspectRatio = DEFAULT_ASPECT_RATIO, tracks = [], captionStyle = null } = settings;
+  if (sources.length === 0) throw new GenerationError('ASSEMBLY', "Add at least one clip to the timeline.");
+  if (typeof MediaRecorder === 'undefined') {
+    throw new GenerationError('ASSEMBLY', "This browser cannot record video (MediaRecorder unavailable).");
+  }
+  const format = pickRecorderFormat();
+  const items = await schedule(sources);
+  throwIfAborted(signal);
+  const last = items[items.length - 1];
+  const totalSeconds = last.start + last.duration;
+
+  const captions: BurnIn | null = captionStyle && {
+    cues: items.flatMap(item => item.source.caption ? sceneCues(item.source.caption, item.duration, item.start) : []),
+    style: captionStyle,
+    safeZone: getAspectRatio(aspectRatio).safeZone
+  };
+
+  const { width, height } = exportSize(aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new GenerationError('ASSEMBLY', "Failed to create canvas context");
+
+  const stream = canvas.captureStream(EXPORT_FPS);
+  const hasSound = tracks.length > 0 || items.some(item => item.source.kind === 'video' && item.source.volume > 0);
+  let mix: AudioMix | null = null;
+  if (hasSound) {
+    const spans = items.map(item => ({ start: item.start, end: item.start + item.duration, musicLevel: item.source.musicLevel }));
+    mix = await createAudioMix(tracks, spans, totalSeconds);
+    items.forEach(item => {
+      if (item.element instanceof HTMLVideoElement) mix!.addVideo(item.element, item.source.volume);
+    });
+    stream.addTrack(mix.track);
+  }
+  const recorder = new MediaRecorder(stream, { mimeType: format.mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  drawFrame(ctx, items, 0, captions);
+  recorder.start(1000);
+  mix?.start();
+  const startedAt = performance.now();
+
+  // A timer rather than requestAnimationFrame: rAF pauses in background tabs
+  const completed = await new Promise<boolean>(resolve => {
+    const timer = setInterval(() => {
+      if (signal?.aborted) {
+        clearInterval(timer);
+        resolve(false);
+        return;
+      }
+      const time = (performance.now() - startedAt) / 1000;
+      syncPlayback(items, time);
+      drawFrame(ctx, items, Math.min(time, totalSeconds - 0.001), captions);
+      onProgress?.(Math.min(99, Math.round(time / totalSeconds * 100)));
+      if (time >= totalSeconds) {
+        clearInterval(timer);
+        resolve(true);
+      }
+    }, 1000 / EXPORT_FPS);
+  });
+
+  recorder.stop();
+  await stopped;
+  stream.getTracks().forEach(track => track.stop());
+  items.forEach(item => { if (item.element instanceof HTMLVideoElement) item.element.pause(); });
+  await mix?.close();
+  if (!completed) throw new CancelledError();
+
+  const blob = new Blob(chunks, { type: format.mimeType.split(';')[0] });
+  onProgress?.(100);
+  return { url: URL.createObjectURL(blob), blob, mimeType: blob.type, extension: format.extension, durationSeconds: totalSeconds };
+};
@@ -0,0 +1,106 @@
+import { dbClear, dbDelete, dbGet, dbGetAll, dbPut } from './db.ts';
+import { BackendId } from './providers/types.ts';
+import { PromptRef } from './promptTemplates.ts';
+
+// --- PERSISTENT SCENE VIDEOS ---
+// A Veo render runs for minutes and is billed whether or not the tab is still
+// open. The operation name is written to IndexedDB as soon as Veo accepts the
+// job, so a reload can pick up polling where it stopped. Finished clips are
+// kept as blobs per project + scene, because the `blob:` URL a provider
+// returns dies with the tab.
+
+export interface PendingVideoJob {
+  key: string; // sceneVideoKey(projectId, sceneId)
+  projectId: string;
+  projectName: string;
+  sceneId: number;
+  backend: BackendId;
+  model: string;
+  operationName: string;
+  prompt: PromptRef;
+  durationSeconds: number;
+  startedAt: number;
+}
+
+export interface SavedSceneVideo {
+  key: string;
+  projectId: string;
+  sceneId: number;
+  video: Blob;
+  prompt: PromptRef | null; // null for clips that came from a project file
+  savedAt: number;
+}
+
+export interface SavedVideoStats {
+  clips: number;
+  bytes: number;
+}
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeSavedVideos = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const sceneVideoKey = (projectId: string, sceneId: number) => `${projectId}:${sceneId}`;
+
+// Storage failures never fail a render; the clip still plays this session.
+const quietly = async <T>(fn: () => Promise<T>, fallback: T): Promise<T> => {
+  try {
+    return await fn();
+  } catch (e) {
+    console.warn('Video storage unavailable:', e);
+    return fallback;
+  }
+};
+
+export const savePendingVideo = (job: PendingVideoJob): Promise<void> =>
+  quietly(() => dbPut('videoJobs', job), undefined);
+
+export const clearPendingVideo = (key: string): Promise<void> =>
+  quietly(() => dbDelete('videoJobs', key), undefined);
+
+export const listPendingVideos = (): Promise<PendingVideoJob[]> =>
+  quietly(() => dbGetAll<PendingVideoJob>('videoJobs'), []);
+
+// Fetches the clip behind `url` (usually a blob: URL) and stores it for the scene.
+export const saveSceneVideo = (video: Omit<SavedSceneVideo, 'video' | 'savedAt'>, url: string): Promise<void> =>
+  quietly(async () => {
+    const blob = await (await fetch(url)).blob();
+    await dbPut('sceneVideos', { ...video, video: blob, savedAt: Date.now() });
+    notify();
+  }, undefined);
+
+// Returns a fresh object URL for the stored clip.
+export const loadSceneVideo = (key: string): Promise<string | null> =>
+  quietly(async () => {
+    const saved = await dbGet<SavedSceneVideo>('sceneVideos', key);
+    return saved ? URL.createObjectURL(saved.video) : null;
+  }, null);
+
+export const deleteSceneVideo = (key: string): Promise<void> =>
+  quietly(async () => {
+    await dbDelete('sceneVideos', key);
+    notify();
+  }, undefined);
+
+// Every clip of a project; keys are "<projectId>:<sceneId>".
+export const deleteProjectVideos = (projectId: string): Promise<void> =>
+  quietly(async () => {
+    await dbDelete('sceneVideos', IDBKeyRange.bound(`${projectId}:`, `${projectId}:\uffff`));
+    notify();
+  }, undefined);
+
+export const getSavedVideoStats = (): Promise<SavedVideoStats> =>
+  quietly(async () => {
+    const videos = await dbGetAll<SavedSceneVideo>('sceneVideos');
+    return { clips: videos.length, bytes: videos.reduce((sum, v) => sum + v.video.size, 0) };
+  }, { clips: 0, bytes: 0 });
+
+export const clearSavedVideos = (): Promise<void> =>
+  quietly(async () => {
+    await dbClear('sceneVideos');
+    notify();
+  }, undefined);
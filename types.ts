@@ -1,3 +1,14 @@
+import { PromptRef } from './services/promptTemplates.ts';
+import { GridLayoutId } from './services/gridLayout.ts';
+import { TargetAspectRatio } from './services/aspectRatio.ts';
+import { TimelineClip } from './services/videoAssembler.ts';
+import { AudioTrack } from './services/audioMixer.ts';
+import { CaptionStyle } from './services/captions.ts';
+import { GridCuts } from './services/gridSlicer.ts';
+import { ModelPersona } from './services/personas.ts';
+import { ProductItem } from './services/productRefs.ts';
+import { BrandKit } from './services/brandKits.ts';
+
 
 export interface SceneFrame {
   id: number;
@@ -16,20 +27,61 @@ export interface SceneFrame {
   // Audio & Playback Controls
   isVideoMuted?: boolean;
   videoDuration?: string;
+  // Prompt templates (id + version) that produced the current image / video
+  imagePrompt?: PromptRef | null;
+  videoPrompt?: PromptRef | null;
+  // Every image the scene has had; `versionId` marks the current one
+  history?: SceneVersion[];
+  versionId?: string | null;
+}
+
+export type SceneOperation = 'extract' | 'repair' | 'upscale' | 'edit' | 'reference';
+
+export interface SceneVersion {
+  id: string;
+  parentId: string | null; // version this one was made from; undo goes back to it
+  image: string;
+  operation: SceneOperation;
+  prompt: PromptRef | null;
+  instruction?: string; // what the user asked for (edit / repair text, upscale size)
+  createdAt: number;
+}
+
+// Boolean flags on SceneFrame that mark a running job (drive the card overlay).
+export type SceneBusyField = 'isExtracting' | 'isGeneratingVideo' | 'isUpscaling' | 'isEditing';
+
+// Identifies the working project in usage records and, later, saved files.
+export interface ProjectRef {
+  id: string;
+  name: string;
 }
 
 export interface GenerationState {
+  projectId: string;
+  projectName: string;
   modelImage: string | null;
+  persona: ModelPersona | null; // copy of the library persona; modelImage is its primary photo
   productImage: string | null;
+  productRefs: ProductItem[]; // labeled angles / extra products; empty = productImage alone, which mirrors the first photo
   promptInstruction: string;
+  categoryOverride: string | null; // product category id picked on REFINE; null = auto-detect
   combinedImage: string | null;
   combinedCandidates: string[] | null;
+  combinedPrompt: PromptRef | null; // shared by all candidates of one run
   brandingText: string;
   stylePrompt: string;
   fontStyle: string;
   textPlacement: string;
+  brandKit: BrandKit | null; // copy of the applied kit; its logo, colors and references go to branding and the grid
+  gridLayout: GridLayoutId; // drives the grid prompt, the slicer and the scene count
+  aspectRatio: TargetAspectRatio; // output format of every image step; video uses the nearest Veo ratio
   storyboardGrid: string | null;
+  storyboardPrompt: PromptRef | null;
+  gridCuts: GridCuts | null; // detected / user-adjusted cell bounds of the grid
   scenes: SceneFrame[];
+  timeline: TimelineClip[]; // order of clips / stills in the assembled ad
+  audioTracks: AudioTrack[]; // uploaded music / voiceover mixed into the assembled ad
+  captionStyle: CaptionStyle; // look of burned-in captions, shared by scene clips and the ad
   editPrompts: string[]; // New state for edit inputs
   extractionProgress: number;
 }
@@ -41,10 +93,15 @@ export enum AppStep {
   RESULTS = 'RESULTS'
 }
 
+// A brand's look for Scene Mastering and the storyboard grid. Brand kits
+// (services/brandKits.ts) save one under a name.
 export interface CustomizationOptions {
-  background: string;
-  backgroundRef: string;
-  lightingRef: string;
-  neonText: string;
+  background: string; // style prompt
+  backgroundRef: string | null; // photo of the set / location to match
+  lightingRef: string | null; // photo whose light to match
+  neonText: string; // branding text
   fontStyle: string;
+  textPlacement: string;
+  logo: string | null;
+  colors: string[]; // hex, e.g. "#c9a227"
 }